@@ -1,47 +1,48 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Screen, Language, UserProfile } from './types';
 import LevelSelection from './components/LevelSelection';
 import FormulaPractice from './components/FormulaPractice';
 import EquationBalancer from './components/EquationBalancer';
 import EquationBuilder from './components/EquationBuilder';
 import LoginScreen from './components/LoginScreen';
-
-const STORAGE_KEY = 'chemistry_master_users_v1';
+import QuestionAuthoring from './components/QuestionAuthoring';
+import GradeReview from './components/GradeReview';
+import StorageWarning from './components/StorageWarning';
+import { getUser, saveUser, subscribeStorageChanges, USER_STORES } from './services/repository';
+import { checkTeacherCode } from './services/teacherCode';
 
 const App: React.FC = () => {
   const [currentScreen, setCurrentScreen] = useState<Screen>(Screen.HOME);
   const [language, setLanguage] = useState<Language>('ZH');
   const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
 
-  const getUsers = (): Record<string, UserProfile> => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : {};
-    } catch (e) {
-      console.error("LocalStorage Error:", e);
-      return {};
+  // 其他分頁更新了目前用戶的資料時同步，以免之後以舊資料覆蓋
+  useEffect(() => subscribeStorageChanges(stores => {
+    if (stores.some(store => USER_STORES.includes(store))) {
+      setCurrentUser(prev => prev && (getUser(prev.name) || prev));
     }
-  };
+  }), []);
 
-  const saveUser = (user: UserProfile) => {
-    const users = getUsers();
-    users[user.name] = user;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(users));
-  };
-
-  const handleLogin = (name: string) => {
-    const users = getUsers();
-    let user = users[name];
+  const handleLogin = async (name: string, teacherCode?: string): Promise<boolean> => {
+    // 每次登入按是否輸入正確的教師密碼決定身份
+    if (teacherCode !== undefined && !(await checkTeacherCode(teacherCode))) return false;
+    const role = teacherCode !== undefined ? 'TEACHER' : 'STUDENT';
+    let user = getUser(name);
 
     if (!user) {
       user = {
         name,
+        role,
         progress: { level1MaxStage: 12 }, // 全部開放：初始進度設為 12
         challengeAttempts: 3
       };
       saveUser(user);
     } else {
+      if (user.role !== role) {
+        user.role = role;
+        saveUser(user);
+      }
       // 確保舊用戶也能訪問所有關卡
       if (user.progress.level1MaxStage < 12) {
         user.progress.level1MaxStage = 12;
@@ -51,6 +52,7 @@ const App: React.FC = () => {
 
     setCurrentUser(user);
     setCurrentScreen(Screen.HOME);
+    return true;
   };
 
   const handleLogout = () => {
@@ -76,12 +78,24 @@ const App: React.FC = () => {
       saveUser(updatedUser);
   };
 
+  // 老師覆核時可能改到自己的紀錄，需同步目前的用戶
+  const handleReviewSave = (student: UserProfile) => {
+    if (student.name === currentUser?.name) handleUserUpdate(student);
+    else saveUser(student);
+  };
+
   if (!currentUser) {
-    return <LoginScreen onLogin={handleLogin} language={language} setLanguage={setLanguage} />;
+    return (
+      <>
+        <StorageWarning language={language} />
+        <LoginScreen onLogin={handleLogin} language={language} setLanguage={setLanguage} />
+      </>
+    );
   }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-indigo-50/50 text-slate-900">
+      <StorageWarning language={language} />
       <main className="container mx-auto px-4 py-8 md:py-12 flex flex-col items-center">
         {currentScreen === Screen.HOME && (
           <LevelSelection 
@@ -103,8 +117,14 @@ const App: React.FC = () => {
           />
         )}
         
-        {currentScreen === Screen.LEVEL_2 && <EquationBalancer onBack={() => setCurrentScreen(Screen.HOME)} language={language} />}
-        {currentScreen === Screen.LEVEL_3 && <EquationBuilder onBack={() => setCurrentScreen(Screen.HOME)} language={language} />}
+        {currentScreen === Screen.LEVEL_2 && <EquationBalancer onBack={() => setCurrentScreen(Screen.HOME)} language={language} user={currentUser} onUserUpdate={handleUserUpdate} />}
+        {currentScreen === Screen.LEVEL_3 && <EquationBuilder onBack={() => setCurrentScreen(Screen.HOME)} language={language} setLanguage={setLanguage} user={currentUser} onUserUpdate={handleUserUpdate} />}
+        {currentScreen === Screen.TEACHER_AUTHORING && currentUser.role === 'TEACHER' && (
+          <QuestionAuthoring onBack={() => setCurrentScreen(Screen.HOME)} language={language} user={currentUser} />
+        )}
+        {currentScreen === Screen.TEACHER_REVIEW && currentUser.role === 'TEACHER' && (
+          <GradeReview onBack={() => setCurrentScreen(Screen.HOME)} language={language} user={currentUser} onSaveUser={handleReviewSave} />
+        )}
       </main>
       <footer className="fixed bottom-0 w-full p-4 text-center text-slate-400 text-[10px] pointer-events-none bg-white/50 backdrop-blur-sm z-50">
         Chemistry Master | Powered by Gemini 3 | User: {currentUser.name}
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Language, UserProfile } from '../types';
+import { exportBank, bankToJSON, bankToCSV, parseBankText, previewImport, applyImport, ImportRow } from '../services/bankTransfer';
+
+interface Props {
+  language: Language;
+  user: UserProfile;
+  onImported: () => void;
+}
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BankTransfer: React.FC<Props> = ({ language, user, onImported }) => {
+  const [includeBuiltIn, setIncludeBuiltIn] = useState(true);
+  const [fileName, setFileName] = useState('');
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<ImportRow[] | null>(null);
+  const [showValid, setShowValid] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const txt = {
+    ZH: {
+      title: "匯入及匯出題庫",
+      includeBuiltIn: "包括內建題目",
+      exportJSON: "匯出 JSON",
+      exportCSV: "匯出 CSV",
+      importLabel: "匯入 JSON 或 CSV 檔案",
+      formatNote: "檔案格式見 docs/question-bank-format.md。合併前會先逐行檢查。",
+      rows: "行",
+      valid: "可匯入",
+      invalid: "有錯誤",
+      showValid: "同時顯示可匯入的行",
+      merge: "合併可匯入的行",
+      cancel: "取消",
+      nothingValid: "沒有可匯入的行。",
+      merged: (q: number, c: number) => `已加入 ${q} 條題目及 ${c} 個化合物。`,
+      kinds: { equation: "方程式", challenge: "建構題", compound: "化合物" } as Record<string, string>
+    },
+    EN: {
+      title: "Import & Export",
+      includeBuiltIn: "Include built-in content",
+      exportJSON: "Export JSON",
+      exportCSV: "Export CSV",
+      importLabel: "Import a JSON or CSV file",
+      formatNote: "See docs/question-bank-format.md for the format. Every row is checked before merging.",
+      rows: "rows",
+      valid: "ready",
+      invalid: "with errors",
+      showValid: "Also show ready rows",
+      merge: "Merge ready rows",
+      cancel: "Cancel",
+      nothingValid: "No rows are ready to import.",
+      merged: (q: number, c: number) => `Added ${q} question(s) and ${c} compound(s).`,
+      kinds: { equation: "Equation", challenge: "Challenge", compound: "Compound" } as Record<string, string>
+    }
+  }[language];
+
+  const handleExport = (type: 'JSON' | 'CSV') => {
+    const file = exportBank(includeBuiltIn);
+    const stamp = file.exportedAt.slice(0, 10);
+    if (type === 'JSON') download(bankToJSON(file), `chemistry-bank-${stamp}.json`, 'application/json');
+    else download(bankToCSV(file), `chemistry-bank-${stamp}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const resetImport = () => {
+    setFileName('');
+    setFileErrors([]);
+    setPreview(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    resetImport();
+    setMessage('');
+    setFileName(file.name);
+    const result = parseBankText(await file.text(), language);
+    if ('errors' in result) {
+      setFileErrors(result.errors);
+      return;
+    }
+    setPreview(previewImport(result.rows, language));
+  };
+
+  const handleMerge = () => {
+    if (!preview) return;
+    const { questions, compounds } = applyImport(preview, user.name);
+    setMessage(txt.merged(questions, compounds));
+    resetImport();
+    onImported();
+  };
+
+  const validCount = preview ? preview.filter(r => r.errors.length === 0).length : 0;
+  const shownRows = preview ? preview.filter(r => showValid || r.errors.length > 0) : [];
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-md border-l-4 border-slate-400 mb-10 space-y-6">
+      <h2 className="text-xl font-bold text-slate-800">{txt.title}</h2>
+
+      {/* Export */}
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer select-none">
+          <input type="checkbox" checked={includeBuiltIn} onChange={(e) => setIncludeBuiltIn(e.target.checked)} className="w-4 h-4 accent-amber-500" />
+          {txt.includeBuiltIn}
+        </label>
+        <button onClick={() => handleExport('JSON')} className="px-5 py-2 rounded-lg text-sm font-bold text-slate-700 bg-slate-100 hover:bg-slate-200">{txt.exportJSON}</button>
+        <button onClick={() => handleExport('CSV')} className="px-5 py-2 rounded-lg text-sm font-bold text-slate-700 bg-slate-100 hover:bg-slate-200">{txt.exportCSV}</button>
+      </div>
+
+      {/* Import */}
+      <div>
+        <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{txt.importLabel}</label>
+        <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="text-sm text-slate-600" />
+        <p className="text-xs text-slate-400 mt-2">{txt.formatNote}</p>
+      </div>
+
+      {fileErrors.length > 0 && (
+        <ul className="text-sm font-bold text-rose-600 space-y-1">
+          {fileErrors.map((err, i) => <li key={i}>✗ {fileName}: {err}</li>)}
+        </ul>
+      )}
+
+      {preview && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm font-bold">
+            <span className="text-slate-600">{fileName} · {preview.length} {txt.rows}</span>
+            <span className="text-emerald-600">✓ {validCount} {txt.valid}</span>
+            <span className="text-rose-600">✗ {preview.length - validCount} {txt.invalid}</span>
+            <label className="flex items-center gap-2 text-slate-500 cursor-pointer select-none">
+              <input type="checkbox" checked={showValid} onChange={(e) => setShowValid(e.target.checked)} className="w-4 h-4 accent-amber-500" />
+              {txt.showValid}
+            </label>
+          </div>
+          <div className="max-h-96 overflow-y-auto border border-slate-100 rounded-lg">
+            <table className="w-full text-sm">
+              <tbody>
+                {shownRows.map((row, i) => (
+                  <tr key={i} className={`border-b border-slate-100 align-top ${row.errors.length > 0 ? 'bg-rose-50/50' : ''}`}>
+                    <td className="p-2 font-bold">{row.errors.length > 0 ? <span className="text-rose-600">✗</span> : <span className="text-emerald-600">✓</span>}</td>
+                    <td className="p-2 text-slate-400 whitespace-nowrap">{txt.kinds[row.kind] || row.kind} #{row.position}</td>
+                    <td className="p-2 font-bold text-slate-600 whitespace-nowrap">{row.id}</td>
+                    <td className="p-2 font-mono text-slate-700">{row.summary}</td>
+                    <td className="p-2 text-rose-600">{row.errors.map((err, j) => <div key={j}>{err}</div>)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              onClick={handleMerge}
+              disabled={validCount === 0}
+              className="px-6 py-2 rounded-xl font-bold text-white bg-amber-500 hover:bg-amber-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+            >
+              {txt.merge} ({validCount})
+            </button>
+            <button onClick={resetImport} className="px-6 py-2 rounded-xl font-bold text-slate-500 hover:bg-slate-100">{txt.cancel}</button>
+            {validCount === 0 && <span className="text-sm text-slate-500">{txt.nothingValid}</span>}
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-sm font-bold text-emerald-600">{message}</p>}
+    </div>
+  );
+};
+
+export default BankTransfer;
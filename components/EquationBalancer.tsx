@@ -1,27 +1,33 @@
 
 import React, { useState, useEffect } from 'react';
 import { generateEquations } from '../services/geminiService';
-import { ChemicalEquation, Language, EquationTopic } from '../types';
-import { formatFormula, parseFormula } from '../utils';
+import { isTopicAvailable } from '../services/equationBank';
+import { ChemicalEquation, Language, EquationTopic, UserProfile, SessionDifficulty } from '../types';
+import { formatFormula, formatArrow } from '../utils';
+import { solveEquation, findImbalances, isLowestRatio } from '../services/equationSolver';
+import { analyseRedox, formatOxidationNumber, SpeciesRedox } from '../services/oxidationNumbers';
+import { equationKey } from '../services/customContent';
+import { getRecentlySeen, rememberSeen } from '../services/recentlySeen';
+import { getUser } from '../services/repository';
+import { serializeEquation } from '../services/equationParser';
+import { mistakeFingerprint } from '../services/mistakeExplainer';
+import { MistakeRequest } from '../services/aiProvider';
+import MistakeExplainer from './MistakeExplainer';
 
 interface Props {
   onBack: () => void;
   language: Language;
+  user: UserProfile;
+  onUserUpdate: (user: UserProfile) => void;
 }
 
-const getCharge = (formula: string): number => {
-  if (formula.includes('e^-')) return -1;
-  const parts = formula.split('^');
-  if (parts.length < 2) return 0;
-  const chargePart = parts[1];
-  const match = chargePart.match(/(\d*)([\+\-])/);
-  if (!match) return 0;
-  const num = match[1] ? parseInt(match[1], 10) : 1;
-  const sign = match[2] === '+' ? 1 : -1;
-  return num * sign;
-};
+// 只列出題庫中有題目的課題
+const GENERAL_TOPICS = (['TOPIC_1_2_EARTH_MICRO', 'TOPIC_3_METALS', 'TOPIC_4_ACIDS', 'TOPIC_6_ORGANIC', 'TOPIC_7_PERIODICITY', 'TOPIC_8_ENERGETICS'] as EquationTopic[]).filter(isTopicAvailable);
+const REDOX_TOPICS = (['REDOX_HALF', 'REDOX_FULL'] as EquationTopic[]).filter(isTopicAvailable);
+const SESSION_DIFFICULTIES: SessionDifficulty[] = ['easy', 'medium', 'hard', 'mixed'];
+const LEVELS: ChemicalEquation['difficulty'][] = ['easy', 'medium', 'hard'];
 
-const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
+const EquationBalancer: React.FC<Props> = ({ onBack, language, user, onUserUpdate }) => {
   const [selectedTopic, setSelectedTopic] = useState<EquationTopic | null>(null);
   const [topicSelectionStep, setTopicSelectionStep] = useState<'MAIN' | 'GENERAL_SUB' | 'REDOX_SUB'>('MAIN');
 
@@ -30,10 +36,13 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [userCoefficients, setUserCoefficients] = useState<{[key: string]: string}>({});
   const [score, setScore] = useState(0);
-  const [feedback, setFeedback] = useState<'none' | 'correct' | 'incorrect'>('none');
+  const [sessionDifficulty, setSessionDifficulty] = useState<SessionDifficulty>('mixed');
+  const [correctByLevel, setCorrectByLevel] = useState<Record<string, number>>({});
+  const [feedback, setFeedback] = useState<'none' | 'correct' | 'incorrect' | 'revealed'>('none');
   const [hintMessage, setHintMessage] = useState<string>('');
+  const [mistake, setMistake] = useState<MistakeRequest | null>(null);
   const [isFinished, setIsFinished] = useState(false);
-  const [history, setHistory] = useState<string[]>([]);
+  const [showOxidation, setShowOxidation] = useState(false);
 
   useEffect(() => {
     if (selectedTopic) startNewSession();
@@ -43,9 +52,12 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
     setLoading(true);
     setCurrentIndex(0);
     setIsFinished(false);
+    setCorrectByLevel({});
     resetState();
-    const { data } = await generateEquations(5, selectedTopic!, language, history);
+    const { data } = await generateEquations(5, selectedTopic!, language, getRecentlySeen(user, 'EQUATIONS'), sessionDifficulty);
     setEquations(data);
+    // 等待題目期間用戶資料可能已更新
+    onUserUpdate(rememberSeen(getUser(user.name) || user, 'EQUATIONS', data.map(equationKey)));
     setLoading(false);
   };
 
@@ -53,57 +65,109 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
     setUserCoefficients({});
     setFeedback('none');
     setHintMessage('');
+    setMistake(null);
   };
 
   const handleCoefficientChange = (id: string, value: string) => {
     if (value === '' || /^[1-9]\d*$/.test(value)) {
        setUserCoefficients(prev => ({ ...prev, [id]: value }));
        if (feedback === 'incorrect') setFeedback('none');
+       setMistake(null);
     }
   };
 
+  const readCoefficients = (equation: ChemicalEquation) => ({
+    reactants: equation.reactants.map((_, idx) => parseInt(userCoefficients[`r-${idx}`] || '1', 10)),
+    products: equation.products.map((_, idx) => parseInt(userCoefficients[`p-${idx}`] || '1', 10)),
+  });
+
+  const formatCharge = (charge: number) => charge > 0 ? `+${charge}` : `${charge}`;
+
+  // 「解釋我的錯誤」的內容：題目骨架、答案、學生的係數及本地找到的問題（以英文描述）
+  const toMistake = (equation: ChemicalEquation, coeffs: { reactants: number[], products: number[] }, issues: string[]): MistakeRequest => {
+    const withCoefficients = (values: { reactants: number[], products: number[] }) => serializeEquation({
+      reactants: equation.reactants.map((c, i) => ({ ...c, coefficient: values.reactants[i] })),
+      products: equation.products.map((c, i) => ({ ...c, coefficient: values.products[i] })),
+    }, '->');
+    return {
+      question: `Balance: ${withCoefficients({ reactants: equation.reactants.map(() => 1), products: equation.products.map(() => 1) })}`,
+      expected: serializeEquation(equation, '->'),
+      studentAnswer: withCoefficients(coeffs),
+      issues,
+    };
+  };
+
   const checkAnswer = () => {
     const currentEquation = equations[currentIndex];
     if (!currentEquation) return;
     
     const hintTxt = txt[language];
-    const rCounts: Record<string, number> = {};
-    const pCounts: Record<string, number> = {};
-    let totalChargeL = 0;
-    let totalChargeR = 0;
-    
-    currentEquation.reactants.forEach((r, idx) => {
-      const coeff = parseInt(userCoefficients[`r-${idx}`] || '1', 10);
-      const atoms = parseFormula(r.formula);
-      for (const [el, count] of Object.entries(atoms)) {
-        if (el !== 'e') rCounts[el] = (rCounts[el] || 0) + (count * coeff);
-      }
-      totalChargeL += coeff * getCharge(r.formula);
-    });
-
-    currentEquation.products.forEach((p, idx) => {
-      const coeff = parseInt(userCoefficients[`p-${idx}`] || '1', 10);
-      const atoms = parseFormula(p.formula);
-      for (const [el, count] of Object.entries(atoms)) {
-        if (el !== 'e') pCounts[el] = (pCounts[el] || 0) + (count * coeff);
-      }
-      totalChargeR += coeff * getCharge(p.formula);
-    });
-
-    const allElements = Array.from(new Set([...Object.keys(rCounts), ...Object.keys(pCounts)]));
-    const unbalanced: string[] = [];
-    allElements.forEach(el => {
-      if ((rCounts[el] || 0) !== (pCounts[el] || 0)) unbalanced.push(el);
-    });
-
-    if (unbalanced.length > 0 || totalChargeL !== totalChargeR) {
+    const coeffs = readCoefficients(currentEquation);
+    const report = findImbalances(currentEquation, coeffs.reactants, coeffs.products);
+
+    if (!report.isBalanced) {
+        const issues = report.elements.map(e => `${e.element} (${hintTxt.left} ${e.left}, ${hintTxt.right} ${e.right})`);
+        if (report.chargeLeft !== report.chargeRight) {
+          issues.push(`${hintTxt.charge} (${hintTxt.left} ${formatCharge(report.chargeLeft)}, ${hintTxt.right} ${formatCharge(report.chargeRight)})`);
+        }
         setFeedback('incorrect');
-        setHintMessage(hintTxt.error);
+        setHintMessage(`${hintTxt.error} ${hintTxt.unbalanced}${issues.join('; ')}`);
+        const found = report.elements.map(e => `${e.element}: left ${e.left}, right ${e.right}`);
+        if (report.chargeLeft !== report.chargeRight) found.push(`charge: left ${formatCharge(report.chargeLeft)}, right ${formatCharge(report.chargeRight)}`);
+        setMistake(toMistake(currentEquation, coeffs, found));
+        return;
+    }
+
+    if (!isLowestRatio([...coeffs.reactants, ...coeffs.products])) {
+        setFeedback('incorrect');
+        setHintMessage(hintTxt.notLowest);
+        setMistake(toMistake(currentEquation, coeffs, ['balanced, but the coefficients are not in the lowest whole-number ratio']));
         return;
     }
 
     setFeedback('correct');
     setScore(prev => prev + 10);
+    setCorrectByLevel(prev => ({ ...prev, [currentEquation.difficulty]: (prev[currentEquation.difficulty] || 0) + 1 }));
+  };
+
+  // 提示第一個與標準答案不符的係數
+  const showHint = () => {
+    const currentEquation = equations[currentIndex];
+    if (!currentEquation) return;
+    const hintTxt = txt[language];
+    const result = solveEquation(currentEquation);
+    setFeedback('incorrect');
+    if (result.status !== 'SOLVED') {
+      setHintMessage(hintTxt.noUniqueAnswer);
+      return;
+    }
+    const coeffs = readCoefficients(currentEquation);
+    const rIdx = result.reactants.findIndex((c, i) => c !== coeffs.reactants[i]);
+    const pIdx = result.products.findIndex((c, i) => c !== coeffs.products[i]);
+    if (rIdx !== -1) {
+      setHintMessage(`${hintTxt.hintPrefix} ${currentEquation.reactants[rIdx].formula} ${hintTxt.hintCoeff} ${result.reactants[rIdx]}`);
+    } else if (pIdx !== -1) {
+      setHintMessage(`${hintTxt.hintPrefix} ${currentEquation.products[pIdx].formula} ${hintTxt.hintCoeff} ${result.products[pIdx]}`);
+    } else {
+      setHintMessage(hintTxt.hintAllCorrect);
+    }
+  };
+
+  const revealAnswer = () => {
+    const currentEquation = equations[currentIndex];
+    if (!currentEquation) return;
+    const result = solveEquation(currentEquation);
+    if (result.status !== 'SOLVED') {
+      setFeedback('incorrect');
+      setHintMessage(txt[language].noUniqueAnswer);
+      return;
+    }
+    const revealed: {[key: string]: string} = {};
+    result.reactants.forEach((c, idx) => { revealed[`r-${idx}`] = String(c); });
+    result.products.forEach((c, idx) => { revealed[`p-${idx}`] = String(c); });
+    setUserCoefficients(revealed);
+    setHintMessage('');
+    setFeedback('revealed');
   };
 
   const handleNext = () => {
@@ -115,6 +179,14 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
     }
   };
 
+  // 將氧化數轉為 formatFormula 可用的標註
+  const oxidationLabels = (species?: SpeciesRedox): Record<string, string> | undefined => {
+    if (!species?.oxidationNumbers) return undefined;
+    const labels: Record<string, string> = {};
+    for (const [el, ox] of Object.entries(species.oxidationNumbers)) labels[el] = formatOxidationNumber(ox);
+    return labels;
+  };
+
   const txt: any = {
     ZH: {
       back: "返回",
@@ -122,6 +194,34 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
       loading: "正在準備題目...",
       title: "平衡化學反應式",
       error: "原子或電荷未平衡，請再試一次。",
+      unbalanced: "未平衡：",
+      left: "左",
+      right: "右",
+      charge: "電荷",
+      notLowest: "方程式已平衡，但係數須為最簡整數比。",
+      noUniqueAnswer: "此方程式沒有唯一的平衡答案。",
+      hintPrefix: "試試將",
+      hintCoeff: "的係數設為",
+      hintAllCorrect: "你的係數與答案一致，按「檢查答案」吧！",
+      check: "檢查答案",
+      hint: "提示",
+      showAnswer: "顯示答案",
+      revealed: "答案已顯示，此題不計分。",
+      showOxidation: "顯示氧化數",
+      hideOxidation: "隱藏氧化數",
+      oxidised: "被氧化",
+      reduced: "被還原",
+      bothChanged: "同時被氧化及還原",
+      notRedox: "此反應中沒有元素的氧化數改變。",
+      templateNote: (name: string) => `這是「${name}」反應。`,
+      templateNames: {
+        METAL_ACID: "金屬 + 酸",
+        ACID_CARBONATE: "酸 + 碳酸鹽",
+        NEUTRALISATION: "中和",
+        ALKANE_COMBUSTION: "烷燃燒",
+        HALOGEN_DISPLACEMENT: "鹵素置換",
+        THERMAL_DECOMPOSITION: "熱分解"
+      },
       success: "完全正確！",
       next: "下一題",
       selectTopic: "選擇練習課題",
@@ -132,6 +232,9 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
       guide: "提示：留空代表係數為 1。",
       guideTitle: "平衡指南",
       sessionComplete: "練習完成！",
+      difficulty: "難度",
+      difficultyNames: { easy: "容易", medium: "中等", hard: "困難", mixed: "混合（由易至難）" },
+      byDifficulty: "各難度成績",
 
       topicNames: {
         TOPIC_1_2_EARTH_MICRO: "課題 1 & 2 地球與微觀世界 Planet Earth & Micro World",
@@ -178,6 +281,34 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
       loading: "Loading...",
       title: "Equation Balancing",
       error: "Atoms or charges unbalanced.",
+      unbalanced: "Unbalanced: ",
+      left: "L",
+      right: "R",
+      charge: "Charge",
+      notLowest: "Balanced, but the coefficients must be in the lowest whole-number ratio.",
+      noUniqueAnswer: "This equation has no unique balanced answer.",
+      hintPrefix: "Try setting the coefficient of",
+      hintCoeff: "to",
+      hintAllCorrect: "Your coefficients match the answer. Press Check!",
+      check: "Check Answer",
+      hint: "Hint",
+      showAnswer: "Show Answer",
+      revealed: "Answer shown. No score for this question.",
+      showOxidation: "Show oxidation numbers",
+      hideOxidation: "Hide oxidation numbers",
+      oxidised: "Oxidised",
+      reduced: "Reduced",
+      bothChanged: "Oxidised and reduced",
+      notRedox: "No element changes its oxidation number in this reaction.",
+      templateNote: (name: string) => `This is ${name} reaction.`,
+      templateNames: {
+        METAL_ACID: "a metal + acid",
+        ACID_CARBONATE: "an acid + carbonate",
+        NEUTRALISATION: "a neutralisation",
+        ALKANE_COMBUSTION: "an alkane combustion",
+        HALOGEN_DISPLACEMENT: "a halogen displacement",
+        THERMAL_DECOMPOSITION: "a thermal decomposition"
+      },
       success: "Correct!",
       next: "Next",
       selectTopic: "Select Topic",
@@ -187,6 +318,10 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
       redoxFull: "Full equation",
       guide: "Hint: Empty means 1.",
       guideTitle: "Balancing Guide",
+      sessionComplete: "Session Complete!",
+      difficulty: "Difficulty",
+      difficultyNames: { easy: "Easy", medium: "Medium", hard: "Hard", mixed: "Mixed (easy to hard)" },
+      byDifficulty: "Score by difficulty",
 
       topicNames: {
         TOPIC_1_2_EARTH_MICRO: "Topic 1 & 2 Planet Earth & Micro World",
@@ -227,17 +362,29 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
             {t.back}
           </button>
         </div>
-        <h1 className="text-3xl font-bold text-slate-800 text-center mb-10">{t.selectTopic}</h1>
+        <h1 className="text-3xl font-bold text-slate-800 text-center mb-6">{t.selectTopic}</h1>
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-10">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest mr-2">{t.difficulty}</span>
+          {SESSION_DIFFICULTIES.map(d => (
+            <button key={d} onClick={() => setSessionDifficulty(d)} className={`px-4 py-2 rounded-full text-sm font-bold transition-all ${sessionDifficulty === d ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200 hover:border-slate-400'}`}>
+              {t.difficultyNames[d]}
+            </button>
+          ))}
+        </div>
         {topicSelectionStep === 'MAIN' && (
           <div className="grid gap-6">
+            {GENERAL_TOPICS.length > 0 && (
             <button onClick={() => setTopicSelectionStep('GENERAL_SUB')} className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200 hover:border-emerald-400 flex items-center group transition-all">
               <div className="w-16 h-16 bg-emerald-50 rounded-full flex items-center justify-center mr-6 text-emerald-600 font-bold text-2xl group-hover:bg-emerald-100">A</div>
               <div className="text-left"><h3 className="text-xl font-bold text-slate-800 group-hover:text-emerald-700">{t.topicGeneral}</h3></div>
             </button>
+            )}
+            {REDOX_TOPICS.length > 0 && (
             <button onClick={() => setTopicSelectionStep('REDOX_SUB')} className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200 hover:border-indigo-400 flex items-center group transition-all">
               <div className="w-16 h-16 bg-indigo-50 rounded-full flex items-center justify-center mr-6 text-indigo-600 font-bold text-2xl group-hover:bg-indigo-100">B</div>
               <div className="text-left"><h3 className="text-xl font-bold text-slate-800 group-hover:text-indigo-700">{t.topicRedox}</h3></div>
             </button>
+            )}
           </div>
         )}
         {(topicSelectionStep === 'GENERAL_SUB' || topicSelectionStep === 'REDOX_SUB') && (
@@ -248,14 +395,14 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
                     </button>
                 </div>
                 {topicSelectionStep === 'GENERAL_SUB' ? (
-                    ['TOPIC_1_2_EARTH_MICRO', 'TOPIC_3_METALS', 'TOPIC_4_ACIDS', 'TOPIC_6_ORGANIC', 'TOPIC_7_PERIODICITY', 'TOPIC_8_ENERGETICS'].map(id => (
-                        <button key={id} onClick={() => setSelectedTopic(id as EquationTopic)} className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm hover:border-emerald-300 text-left transition-all font-bold text-slate-700 text-sm md:text-base leading-snug">
+                    GENERAL_TOPICS.map(id => (
+                        <button key={id} onClick={() => setSelectedTopic(id)} className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm hover:border-emerald-300 text-left transition-all font-bold text-slate-700 text-sm md:text-base leading-snug">
                             {t.topicNames[id]}
                         </button>
                     ))
                 ) : (
-                    ['REDOX_HALF', 'REDOX_FULL'].map(id => (
-                        <button key={id} onClick={() => setSelectedTopic(id as EquationTopic)} className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm hover:border-indigo-300 text-left transition-all font-bold text-slate-700">
+                    REDOX_TOPICS.map(id => (
+                        <button key={id} onClick={() => setSelectedTopic(id)} className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm hover:border-indigo-300 text-left transition-all font-bold text-slate-700">
                             {t.topicNames[id]}
                         </button>
                     ))
@@ -273,7 +420,18 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
       <div className="max-w-2xl mx-auto px-4 py-12 text-center animate-fade-in">
         <div className="bg-white p-12 rounded-[3rem] shadow-xl border border-slate-100">
           <h2 className="text-4xl font-black text-slate-800 mb-4">{t.sessionComplete}</h2>
-          <div className="text-2xl font-bold text-indigo-600 mb-10">{t.score}: {score}</div>
+          <div className="text-2xl font-bold text-indigo-600 mb-6">{t.score}: {score}</div>
+          <div className="mb-10">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">{t.byDifficulty}</p>
+            <div className="flex justify-center gap-4">
+              {LEVELS.filter(level => equations.some(eq => eq.difficulty === level)).map(level => (
+                <div key={level} className="px-5 py-3 bg-slate-50 rounded-2xl">
+                  <div className="text-sm font-bold text-slate-500">{t.difficultyNames[level]}</div>
+                  <div className="text-xl font-black text-slate-800">{correctByLevel[level] || 0} / {equations.filter(eq => eq.difficulty === level).length}</div>
+                </div>
+              ))}
+            </div>
+          </div>
           <button onClick={() => setSelectedTopic(null)} className="w-full py-5 bg-indigo-600 text-white rounded-2xl font-bold text-xl shadow-lg">{t.back}</button>
         </div>
       </div>
@@ -283,13 +441,23 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
   const currentEquation = equations[currentIndex];
   if (!currentEquation) return null;
 
+  const redox = showOxidation ? analyseRedox(currentEquation) : null;
+  const redoxBadge: Record<string, { label: string; className: string }> = {
+    OXIDISED: { label: t.oxidised, className: 'bg-rose-50 text-rose-600 border-rose-200' },
+    REDUCED: { label: t.reduced, className: 'bg-sky-50 text-sky-600 border-sky-200' },
+    BOTH: { label: t.bothChanged, className: 'bg-violet-50 text-violet-600 border-violet-200' },
+  };
+
   return (
     <div className="max-w-6xl mx-auto w-full px-4 mb-20 animate-fade-in">
        <div className="flex justify-between items-center mb-8 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
         <button onClick={() => setSelectedTopic(null)} className="text-slate-500 hover:text-slate-800 font-medium flex items-center">
           <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg> {t.back}
         </button>
-        <div className="text-xl font-bold text-slate-800">{t.score}: <span className="text-emerald-600">{score}</span></div>
+        <div className="flex items-center gap-4">
+          <span className="px-3 py-1 rounded-full bg-slate-100 text-slate-500 text-sm font-bold">{currentIndex + 1}/{equations.length} · {t.difficultyNames[currentEquation.difficulty]}</span>
+          <div className="text-xl font-bold text-slate-800">{t.score}: <span className="text-emerald-600">{score}</span></div>
+        </div>
       </div>
 
       <div className="mb-10 bg-white p-8 rounded-3xl border border-slate-200 shadow-md">
@@ -348,32 +516,42 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
       </div>
 
       <div className="bg-white rounded-3xl shadow-xl border border-slate-200 p-8 md:p-12 relative mb-8">
+        <div className="flex justify-end mb-6">
+          <button onClick={() => setShowOxidation(prev => !prev)} className={`px-4 py-2 text-sm font-bold rounded-xl border transition-all ${showOxidation ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-600 border-indigo-200 hover:bg-indigo-50'}`}>
+            {showOxidation ? t.hideOxidation : t.showOxidation}
+          </button>
+        </div>
         <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-10 text-2xl md:text-3xl font-medium mb-16">
           {currentEquation.reactants.map((r, idx) => (
             <React.Fragment key={`r-${idx}`}>
               <div className="flex flex-col items-center gap-3">
                 <div className="flex items-center space-x-2">
-                    <input type="text" placeholder="1" value={userCoefficients[`r-${idx}`] || ''} onChange={(e) => handleCoefficientChange(`r-${idx}`, e.target.value)} disabled={feedback === 'correct'}
-                    className={`w-12 h-12 md:w-16 md:h-16 text-center border-2 rounded-xl outline-none transition-all ${feedback === 'correct' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 'border-slate-200 focus:border-indigo-400'}`} />
-                    <span>{formatFormula(r.formula)}</span>
+                    <input type="text" placeholder="1" value={userCoefficients[`r-${idx}`] || ''} onChange={(e) => handleCoefficientChange(`r-${idx}`, e.target.value)} disabled={feedback === 'correct' || feedback === 'revealed'}
+                    className={`w-12 h-12 md:w-16 md:h-16 text-center border-2 rounded-xl outline-none transition-all ${feedback === 'correct' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : feedback === 'revealed' ? 'border-amber-400 bg-amber-50 text-amber-700' : 'border-slate-200 focus:border-indigo-400'}`} />
+                    <span>{formatFormula(r.formula, oxidationLabels(redox?.reactants[idx]))}</span>
                 </div>
                 {(language === 'ZH' ? r.nameZH : r.nameEN) && r.formula !== 'e^-' && (
                   <span className="text-xs text-slate-400 font-bold max-w-[100px] text-center leading-tight">
                     {language === 'ZH' ? r.nameZH : r.nameEN}
                   </span>
                 )}
+                {redox && redoxBadge[redox.reactants[idx].change] && (
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded-full border ${redoxBadge[redox.reactants[idx].change].className}`}>
+                    {redoxBadge[redox.reactants[idx].change].label}
+                  </span>
+                )}
               </div>
               {idx < currentEquation.reactants.length - 1 && <span className="text-slate-300 self-start mt-4">+</span>}
             </React.Fragment>
           ))}
-          <div className="px-2 text-slate-300 font-bold self-start mt-4">→</div>
+          <div className="px-2 text-slate-300 font-bold self-start mt-4">{formatArrow(currentEquation.conditions, language)}</div>
           {currentEquation.products.map((p, idx) => (
             <React.Fragment key={`p-${idx}`}>
               <div className="flex flex-col items-center gap-3">
                 <div className="flex items-center space-x-2">
-                    <input type="text" placeholder="1" value={userCoefficients[`p-${idx}`] || ''} onChange={(e) => handleCoefficientChange(`p-${idx}`, e.target.value)} disabled={feedback === 'correct'}
-                    className={`w-12 h-12 md:w-16 md:h-16 text-center border-2 rounded-xl outline-none transition-all ${feedback === 'correct' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 'border-slate-200 focus:border-indigo-400'}`} />
-                    <span>{formatFormula(p.formula)}</span>
+                    <input type="text" placeholder="1" value={userCoefficients[`p-${idx}`] || ''} onChange={(e) => handleCoefficientChange(`p-${idx}`, e.target.value)} disabled={feedback === 'correct' || feedback === 'revealed'}
+                    className={`w-12 h-12 md:w-16 md:h-16 text-center border-2 rounded-xl outline-none transition-all ${feedback === 'correct' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : feedback === 'revealed' ? 'border-amber-400 bg-amber-50 text-amber-700' : 'border-slate-200 focus:border-indigo-400'}`} />
+                    <span>{formatFormula(p.formula, oxidationLabels(redox?.products[idx]))}</span>
                 </div>
                 {(language === 'ZH' ? p.nameZH : p.nameEN) && p.formula !== 'e^-' && (
                   <span className="text-xs text-slate-400 font-bold max-w-[100px] text-center leading-tight">
@@ -386,19 +564,40 @@ const EquationBalancer: React.FC<Props> = ({ onBack, language }) => {
           ))}
         </div>
 
+        {redox && !redox.isRedox && (
+          <p className="text-center text-sm text-slate-400 font-bold -mt-8 mb-8">{t.notRedox}</p>
+        )}
+
         <div className="flex flex-col items-center">
+          {feedback !== 'none' && currentEquation.template && (
+            <p className="text-sm text-indigo-500 font-bold mb-4">{t.templateNote(t.templateNames[currentEquation.template])}</p>
+          )}
           {feedback === 'incorrect' && (
             <div className="text-rose-500 font-bold mb-6 bg-rose-50 px-6 py-3 rounded-xl border border-rose-100 animate-pop">
               {hintMessage || t.error}
             </div>
           )}
+          {feedback === 'incorrect' && mistake && (
+            <MistakeExplainer key={mistakeFingerprint(mistake)} request={mistake} language={language} user={user} onUserUpdate={onUserUpdate} />
+          )}
           {feedback === 'correct' ? (
             <div className="animate-pop text-center">
               <p className="text-emerald-600 text-2xl font-black mb-8">{t.success}</p>
               <button onClick={handleNext} className="px-16 py-5 bg-emerald-600 text-white rounded-2xl font-bold text-xl shadow-xl hover:bg-emerald-700 transition-all">{t.next}</button>
             </div>
+          ) : feedback === 'revealed' ? (
+            <div className="animate-pop text-center">
+              <p className="text-amber-600 text-xl font-bold mb-8">{t.revealed}</p>
+              <button onClick={handleNext} className="px-16 py-5 bg-slate-900 text-white rounded-2xl font-bold text-xl shadow-xl hover:bg-slate-800 transition-all">{t.next}</button>
+            </div>
           ) : (
-            <button onClick={checkAnswer} className="px-20 py-5 bg-slate-900 text-white font-bold text-xl rounded-2xl hover:bg-slate-800 transition-all shadow-xl">檢查答案</button>
+            <div className="flex flex-col items-center gap-4">
+              <button onClick={checkAnswer} className="px-20 py-5 bg-slate-900 text-white font-bold text-xl rounded-2xl hover:bg-slate-800 transition-all shadow-xl">{t.check}</button>
+              <div className="flex gap-3">
+                <button onClick={showHint} className="px-6 py-2 text-indigo-600 bg-indigo-50 font-bold rounded-xl hover:bg-indigo-100 transition-all">{t.hint}</button>
+                <button onClick={revealAnswer} className="px-6 py-2 text-amber-600 bg-amber-50 font-bold rounded-xl hover:bg-amber-100 transition-all">{t.showAnswer}</button>
+              </div>
+            </div>
           )}
         </div>
       </div>
@@ -1,42 +1,63 @@
 
 import React, { useState, useEffect } from 'react';
-import { generateBuilderChallenges } from '../services/geminiService';
-import { EquationChallenge, Language, EquationComponent } from '../types';
-import { formatFormula, parseFormula } from '../utils';
+import { generateBuilderChallenges, generateIonicChallenges } from '../services/geminiService';
+import { EquationChallenge, IonicChallenge, Language, EquationComponent, StateSymbol, UserProfile } from '../types';
+import { formatFormula, formatConditions, formatArrow } from '../utils';
+import { formulaErrorMessages } from '../services/formulaValidator';
+import { parseEquation, describeEquationError, normaliseCharge, serializeEquation } from '../services/equationParser';
+import { equationKey } from '../services/customContent';
+import { findImbalances } from '../services/equationSolver';
+import { getRecentlySeen, rememberSeen } from '../services/recentlySeen';
+import { getUser } from '../services/repository';
+import { mistakeFingerprint } from '../services/mistakeExplainer';
+import { MistakeRequest } from '../services/aiProvider';
+import MistakeExplainer from './MistakeExplainer';
 
 interface Props {
   onBack: () => void;
   language: Language;
+  setLanguage: (lang: Language) => void;
+  user: UserProfile;
+  onUserUpdate: (user: UserProfile) => void;
 }
 
 interface UserInputItem {
   id: string;
   coeff: string;
   formula: string;
+  state: string; // '' 代表未標示
 }
 
-const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
-  const [challenges, setChallenges] = useState<EquationChallenge[]>([]);
+const STATE_OPTIONS = ['', 's', 'l', 'g', 'aq'];
+
+const EquationBuilder: React.FC<Props> = ({ onBack, language, setLanguage, user, onUserUpdate }) => {
+  const [challenges, setChallenges] = useState<(EquationChallenge | IonicChallenge)[]>([]);
+  const [questionMode, setQuestionMode] = useState<'MOLECULAR' | 'IONIC'>('MOLECULAR');
   const [currentIndex, setCurrentIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [isOffline, setIsOffline] = useState(false);
   
   const [userReactants, setUserReactants] = useState<UserInputItem[]>([]);
   const [userProducts, setUserProducts] = useState<UserInputItem[]>([]);
+  const [inputMode, setInputMode] = useState<'BOXES' | 'LINE'>('BOXES');
+  const [lineInput, setLineInput] = useState('');
+  const [requireStates, setRequireStates] = useState(false);
   
   const [feedback, setFeedback] = useState<'none' | 'correct' | 'incorrect'>('none');
   const [feedbackMessages, setFeedbackMessages] = useState<string[]>([]);
+  const [mistake, setMistake] = useState<MistakeRequest | null>(null);
   const [score, setScore] = useState(0);
 
   useEffect(() => {
     loadData();
   }, []);
 
-  const loadData = async () => {
+  const loadData = async (mode: 'MOLECULAR' | 'IONIC' = questionMode) => {
     setLoading(true);
-    // 總共 6 個課題組（1&2, 3, 4, 6, 7, 8）
-    const result = await generateBuilderChallenges(6, language);
+    // 總共 6 個課題組（1&2, 3, 4, 6, 7, 8）；離子方程式模式則從可拆成離子的反應中抽題
+    const result = mode === 'IONIC' ? await generateIonicChallenges(6) : await generateBuilderChallenges(6, getRecentlySeen(user, 'BUILDER'));
     setChallenges(result.data);
+    if (mode === 'MOLECULAR') onUserUpdate(rememberSeen(getUser(user.name) || user, 'BUILDER', result.data.map(equationKey)));
     setIsOffline(result.isOffline);
     setLoading(false);
     if (result.data.length > 0) {
@@ -46,14 +67,15 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
   };
 
   const resetInputs = () => {
-    setUserReactants([{ id: 'r-0', coeff: '', formula: '' }]);
-    setUserProducts([{ id: 'p-0', coeff: '', formula: '' }]);
+    setUserReactants([{ id: 'r-0', coeff: '', formula: '', state: '' }]);
+    setUserProducts([{ id: 'p-0', coeff: '', formula: '', state: '' }]);
+    setLineInput('');
     setFeedback('none');
     setFeedbackMessages([]);
   };
 
   const addItem = (type: 'REACTANT' | 'PRODUCT') => {
-    const newItem = { id: `${type === 'REACTANT' ? 'r' : 'p'}-${Date.now()}`, coeff: '', formula: '' };
+    const newItem = { id: `${type === 'REACTANT' ? 'r' : 'p'}-${Date.now()}`, coeff: '', formula: '', state: '' };
     if (type === 'REACTANT') {
       setUserReactants([...userReactants, newItem]);
     } else {
@@ -75,7 +97,7 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
     if (feedback !== 'none') setFeedback('none');
   };
 
-  const updateItem = (type: 'REACTANT' | 'PRODUCT', id: string, field: 'coeff' | 'formula', value: string) => {
+  const updateItem = (type: 'REACTANT' | 'PRODUCT', id: string, field: 'coeff' | 'formula' | 'state', value: string) => {
     const setter = type === 'REACTANT' ? setUserReactants : setUserProducts;
     setter(prev => prev.map(item => {
       if (item.id === id) {
@@ -86,15 +108,55 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
     if (feedback !== 'none') setFeedback('none');
   };
 
+  const switchQuestionMode = (mode: 'MOLECULAR' | 'IONIC') => {
+    if (mode === questionMode) return;
+    setQuestionMode(mode);
+    loadData(mode);
+  };
+
   const checkAnswer = () => {
     const current = challenges[currentIndex];
+    const spectators = 'spectators' in current ? current.spectators : [];
     const newFeedbackMessages: string[] = [];
+    const issues: string[] = []; // 給「解釋我的錯誤」的英文描述，與提示同步加入
+    setMistake(null);
     
-    const normalize = (str: string) => str.trim().replace(/\s+/g, '');
+    // 接受 "Mg2+" 等沒有 ^ 的電荷寫法
+    const normalize = (str: string) => normaliseCharge(str.trim().replace(/\s+/g, ''));
     const getCoeff = (c: string) => c.trim() === '' ? 1 : parseInt(c);
+
+    // 單行輸入模式：先把整條方程式拆成與逐項輸入相同的格式
+    let reactantItems = userReactants;
+    let productItems = userProducts;
+    if (inputMode === 'LINE') {
+      const parsed = parseEquation(lineInput);
+      if ('errors' in parsed) {
+        setFeedback('incorrect');
+        setFeedbackMessages(parsed.errors.map(e => `⚠️ ${describeEquationError(e, language)}`));
+        return;
+      }
+      const toItems = (list: EquationComponent[], prefix: string): UserInputItem[] =>
+        list.map((c, i) => ({ id: `${prefix}-${i}`, coeff: String(c.coefficient), formula: c.formula, state: c.state || '' }));
+      reactantItems = toItems(parsed.equation.reactants, 'r');
+      productItems = toItems(parsed.equation.products, 'p');
+    }
+    const withCharge = (items: UserInputItem[]) => items.map(i => ({ ...i, formula: i.formula.trim() && normalize(i.formula) }));
+    reactantItems = withCharge(reactantItems);
+    productItems = withCharge(productItems);
     
+    // --- 0. Validate Formula Syntax ---
+    const syntaxMessages: string[] = [];
+    [...reactantItems, ...productItems].filter(i => i.formula.trim() !== '').forEach(item => {
+      formulaErrorMessages(item.formula, language).forEach(msg => syntaxMessages.push(`⚠️ ${item.formula}: ${msg}`));
+    });
+    if (syntaxMessages.length > 0) {
+      setFeedback('incorrect');
+      setFeedbackMessages(syntaxMessages);
+      return;
+    }
+
     // --- 1. Validate Reactant Formulas ---
-    const userR = userReactants.filter(i => i.formula.trim() !== '');
+    const userR = reactantItems.filter(i => i.formula.trim() !== '');
     
     current.reactants.forEach(cr => {
       const match = userR.find(ur => normalize(ur.formula) === normalize(cr.formula));
@@ -109,8 +171,10 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
          
          if (mistake) {
            newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '反應物' : 'Reactant'}: "${mistake.formula}" ${language === 'ZH' ? '不正確。請注意' : 'is incorrect. Note that'} ${cr.formula} ${language === 'ZH' ? '是雙原子分子。' : 'is a diatomic molecule.'}`);
+           issues.push(`reactant ${mistake.formula} should be the diatomic ${cr.formula}`);
          } else {
            newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '缺漏或錯誤反應物' : 'Missing/Incorrect Reactant'}: ${cr.formula} (${language === 'ZH' ? '請檢查化學式' : 'Check formula'})`);
+           issues.push(`missing or incorrect reactant: ${cr.formula}`);
          }
       }
     });
@@ -118,64 +182,79 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
     userR.forEach(ur => {
        const uNorm = normalize(ur.formula);
        if (!current.reactants.some(cr => normalize(cr.formula) === uNorm)) {
-           if (!newFeedbackMessages.some(msg => msg.includes(ur.formula))) {
+           if (spectators.includes(uNorm)) {
+              newFeedbackMessages.push(`⚠️ ${ur.formula}: ${txt.spectator}`);
+              issues.push(`${ur.formula} is a spectator ion`);
+           } else if (!newFeedbackMessages.some(msg => msg.includes(ur.formula))) {
               newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '多餘的反應物' : 'Extra Reactant'}: ${ur.formula}`);
+              issues.push(`extra reactant: ${ur.formula}`);
            }
        }
     });
 
 
     // --- 2. Validate Product Formulas ---
-    const userP = userProducts.filter(i => i.formula.trim() !== '');
+    const userP = productItems.filter(i => i.formula.trim() !== '');
     
     current.products.forEach(cp => {
       const match = userP.find(up => normalize(up.formula) === normalize(cp.formula));
       if (!match) {
          newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '缺漏或錯誤生成物' : 'Missing/Incorrect Product'}: ${cp.formula}`);
+         issues.push(`missing or incorrect product: ${cp.formula}`);
       }
     });
      userP.forEach(up => {
        const uNorm = normalize(up.formula);
        if (!current.products.some(cp => normalize(cp.formula) === uNorm)) {
-           newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '多餘的生成物' : 'Extra Product'}: ${up.formula}`);
+           if (spectators.includes(uNorm)) {
+             newFeedbackMessages.push(`⚠️ ${up.formula}: ${txt.spectator}`);
+             issues.push(`${up.formula} is a spectator ion`);
+           } else {
+             newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '多餘的生成物' : 'Extra Product'}: ${up.formula}`);
+             issues.push(`extra product: ${up.formula}`);
+           }
        }
     });
 
+    // 不要求狀態符號時不把狀態放入答案，同一錯誤才會得到相同的快取
+    const toComponents = (items: UserInputItem[]): EquationComponent[] =>
+      items.map(i => ({ formula: i.formula, coefficient: getCoeff(i.coeff), ...(requireStates && i.state ? { state: i.state as StateSymbol } : {}) }));
+    const studentEquation = { reactants: toComponents(userR), products: toComponents(userP) };
+
     // --- 3. Validate Coefficients (Balancing) ---
     if (newFeedbackMessages.length === 0) {
-        const rAtoms: Record<string, number> = {};
-        const pAtoms: Record<string, number> = {};
-        
-        userR.forEach(ur => {
-           const c = getCoeff(ur.coeff);
-           const counts = parseFormula(ur.formula); 
-           for(const [el, n] of Object.entries(counts)) rAtoms[el] = (rAtoms[el] || 0) + n * c;
-        });
-        
-        userP.forEach(up => {
-           const c = getCoeff(up.coeff);
-           const counts = parseFormula(up.formula);
-           for(const [el, n] of Object.entries(counts)) pAtoms[el] = (pAtoms[el] || 0) + n * c;
-        });
-        
-        const allEls = new Set([...Object.keys(rAtoms), ...Object.keys(pAtoms)]);
-        let balanced = true;
-        const balanceIssues: string[] = [];
-
-        allEls.forEach(el => {
-            const l = rAtoms[el] || 0;
-            const r = pAtoms[el] || 0;
-            if (l !== r) {
-                balanced = false;
-                balanceIssues.push(`${el} (L:${l}, R:${r})`);
-            }
-        });
-        
-        if (!balanced) {
-            newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '原子未平衡' : 'Atoms Unbalanced'}: ${balanceIssues.join(', ')}`);
+        const report = findImbalances(studentEquation, studentEquation.reactants.map(c => c.coefficient), studentEquation.products.map(c => c.coefficient));
+        const formatCharge = (charge: number) => charge > 0 ? `+${charge}` : `${charge}`;
+
+        if (report.elements.length > 0) {
+            newFeedbackMessages.push(`⚠️ ${language === 'ZH' ? '原子未平衡' : 'Atoms Unbalanced'}: ${report.elements.map(e => `${e.element} (L:${e.left}, R:${e.right})`).join(', ')}`);
+            report.elements.forEach(e => issues.push(`${e.element}: left ${e.left}, right ${e.right}`));
+        }
+        if (report.chargeLeft !== report.chargeRight) {
+            newFeedbackMessages.push(`⚠️ ${txt.chargeUnbalanced} (L:${report.chargeLeft}, R:${report.chargeRight})`);
+            issues.push(`charge: left ${formatCharge(report.chargeLeft)}, right ${formatCharge(report.chargeRight)}`);
         }
     }
 
+    // --- 4. Validate State Symbols (逐個物質檢查) ---
+    if (requireStates && newFeedbackMessages.length === 0) {
+        const checkStates = (expected: EquationComponent[], given: UserInputItem[]) => {
+          expected.filter(c => c.state).forEach(c => {
+            const item = given.find(g => normalize(g.formula) === normalize(c.formula));
+            if (!item) return;
+            if (!item.state) {
+              newFeedbackMessages.push(`⚠️ ${c.formula}: ${txt.stateMissing}`);
+              issues.push(`${c.formula}: state symbol is missing`);
+            } else if (item.state !== c.state) {
+              newFeedbackMessages.push(`⚠️ ${c.formula}: ${txt.stateWrong.replace('{state}', `(${item.state})`)}`);
+              issues.push(`${c.formula}: state symbol (${item.state}) is wrong`);
+            }
+          });
+        };
+        checkStates(current.reactants, userR);
+        checkStates(current.products, userP);
+    }
+
     if (newFeedbackMessages.length === 0) {
         setFeedback('correct');
         setScore(s => s + 10);
@@ -183,6 +262,13 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
     } else {
         setFeedback('incorrect');
         setFeedbackMessages(newFeedbackMessages);
+        const strip = (list: EquationComponent[]) => list.map(c => requireStates ? c : { formula: c.formula, coefficient: c.coefficient });
+        setMistake({
+          question: `Write the equation: ${current.descriptionEN}`,
+          expected: serializeEquation({ reactants: strip(current.reactants), products: strip(current.products) }, '->'),
+          studentAnswer: serializeEquation(studentEquation, '->'),
+          issues,
+        });
     }
   };
 
@@ -220,7 +306,21 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
       add: "新增",
       inputFormula: "化學式 (如 O2)",
       inputCoeff: "係數",
-      progress: "進度"
+      progress: "進度",
+      modeBoxes: "逐項輸入",
+      modeLine: "單行輸入",
+      inputLine: "例如 2H2 + O2 -> 2H2O",
+      lineGuide: "用 + 分隔物質，用 -> 或 → 分隔反應物和生成物；電荷可寫成 ^2+ 或 2+，物態符號寫在化學式後，如 NaCl(aq)。",
+      stateMode: "標示物態符號",
+      inputState: "物態",
+      stateMissing: "缺少物態符號。",
+      stateWrong: "物態符號 {state} 不正確。",
+      modeMolecular: "化學方程式",
+      modeIonic: "離子方程式",
+      ionicBadge: "離子方程式",
+      molecularLabel: "分子方程式：",
+      spectator: "這是旁觀離子，不應寫在離子方程式中。",
+      chargeUnbalanced: "電荷未平衡"
     },
     EN: {
       title: "Equation Builder",
@@ -241,7 +341,21 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
       add: "Add",
       inputFormula: "Formula (e.g. O2)",
       inputCoeff: "Coeff",
-      progress: "Progress"
+      progress: "Progress",
+      modeBoxes: "Separate boxes",
+      modeLine: "One line",
+      inputLine: "e.g. 2H2 + O2 -> 2H2O",
+      lineGuide: "Separate species with + and the two sides with -> or →. Charges may be written as ^2+ or 2+, and state symbols follow the formula, e.g. NaCl(aq).",
+      stateMode: "Include state symbols",
+      inputState: "State",
+      stateMissing: "state symbol is missing.",
+      stateWrong: "state symbol {state} is incorrect.",
+      modeMolecular: "Full equation",
+      modeIonic: "Ionic equation",
+      ionicBadge: "Ionic",
+      molecularLabel: "Full equation:",
+      spectator: "this is a spectator ion and should not appear in the ionic equation.",
+      chargeUnbalanced: "Charges unbalanced"
     }
   }[language];
 
@@ -255,6 +369,15 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
   }
 
   const currentChallenge = challenges[currentIndex];
+  const linePreview = inputMode === 'LINE' ? parseEquation(lineInput) : null;
+
+  const renderSide = (list: EquationComponent[]) => list.map((c, i) => (
+    <React.Fragment key={i}>
+      {i > 0 && <span className="mx-2 text-slate-400">+</span>}
+      {c.coefficient !== 1 && <span className="mr-0.5">{c.coefficient}</span>}
+      {formatFormula(c.formula)}
+    </React.Fragment>
+  ));
 
   const renderSection = (title: string, items: UserInputItem[], type: 'REACTANT' | 'PRODUCT', colorClass: string) => (
     <div className={`flex-1 p-6 rounded-xl border-2 bg-white/50 ${colorClass}`}>
@@ -288,10 +411,24 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
                />
                {/* Preview */}
                <div className="h-6 text-lg text-slate-600 font-bold mt-1 px-1">
-                 {item.formula ? formatFormula(item.formula) : <span className="opacity-0">-</span>}
+                 {item.formula ? formatFormula(item.formula + (requireStates && item.state ? `(${item.state})` : '')) : <span className="opacity-0">-</span>}
                </div>
              </div>
 
+             {/* State Symbol */}
+             {requireStates && (
+               <div className="w-20 flex-shrink-0">
+                 <select
+                   value={item.state}
+                   onChange={(e) => updateItem(type, item.id, 'state', e.target.value)}
+                   className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-rose-200 focus:border-rose-400 outline-none font-mono text-lg bg-white"
+                 >
+                   {STATE_OPTIONS.map(opt => <option key={opt} value={opt}>{opt ? `(${opt})` : '-'}</option>)}
+                 </select>
+                 <div className="text-xs text-center text-slate-400 mt-1">{txt.inputState}</div>
+               </div>
+             )}
+
              {/* Delete Button */}
              {items.length > 1 && (
                <button 
@@ -336,8 +473,18 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
              ))}
            </div>
         </div>
-        <div className="text-xl font-bold text-slate-800 z-10">
-          {txt.score}: <span className="text-rose-600 text-3xl">{score}</span>
+        <div className="flex items-center gap-4 z-10">
+          {/* 切換語言只改變顯示，不會重新抽題 */}
+          <div className="bg-white p-1 rounded-full border border-slate-200 flex">
+            {(['ZH', 'EN'] as const).map(lang => (
+              <button key={lang} onClick={() => setLanguage(lang)} className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${language === lang ? 'bg-rose-500 text-white' : 'text-slate-500 hover:text-rose-600'}`}>
+                {lang === 'ZH' ? '中文' : 'English'}
+              </button>
+            ))}
+          </div>
+          <div className="text-xl font-bold text-slate-800">
+            {txt.score}: <span className="text-rose-600 text-3xl">{score}</span>
+          </div>
         </div>
       </div>
 
@@ -346,20 +493,93 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
         <div className="flex justify-between items-start mb-3">
           <h3 className="text-slate-400 text-sm font-bold uppercase tracking-widest">{txt.descLabel}</h3>
           <span className="bg-rose-50 text-rose-600 px-3 py-1 rounded-lg text-xs font-black uppercase">
-            {topicOrderNames[currentIndex]}
+            {'molecular' in currentChallenge ? txt.ionicBadge : topicOrderNames[currentIndex]}
           </span>
         </div>
         <p className="text-2xl md:text-3xl font-bold text-slate-800 leading-relaxed">
-          {currentChallenge.description}
+          {language === 'ZH' ? currentChallenge.descriptionZH : currentChallenge.descriptionEN}
         </p>
+        {'molecular' in currentChallenge && (
+          <div className="mt-4">
+            <div className="text-slate-400 text-sm font-bold mb-1">{txt.molecularLabel}</div>
+            <div className="text-2xl font-bold text-slate-700 flex flex-wrap items-center">
+              {renderSide(currentChallenge.molecular.reactants)}
+              <span className="mx-3">{formatArrow(currentChallenge.molecular.conditions, language)}</span>
+              {renderSide(currentChallenge.molecular.products)}
+            </div>
+          </div>
+        )}
       </div>
 
-      {/* Builder Zone */}
+      {/* Question Mode */}
+      <div className="flex justify-center mb-4">
+        <div className="inline-flex bg-slate-100 rounded-xl p-1">
+          {(['MOLECULAR', 'IONIC'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => switchQuestionMode(mode)}
+              className={`px-5 py-2 rounded-lg text-sm font-bold transition-all ${questionMode === mode ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {mode === 'MOLECULAR' ? txt.modeMolecular : txt.modeIonic}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Input Mode */}
+      <div className="flex flex-wrap justify-center items-center gap-4 mb-6">
+        <div className="inline-flex bg-slate-100 rounded-xl p-1">
+          {(['BOXES', 'LINE'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => { setInputMode(mode); if (feedback !== 'none') setFeedback('none'); }}
+              className={`px-5 py-2 rounded-lg text-sm font-bold transition-all ${inputMode === mode ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {mode === 'BOXES' ? txt.modeBoxes : txt.modeLine}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={requireStates}
+            onChange={(e) => { setRequireStates(e.target.checked); if (feedback !== 'none') setFeedback('none'); }}
+            className="w-4 h-4 accent-rose-500"
+          />
+          {txt.stateMode}
+        </label>
+      </div>
+
+      {inputMode === 'LINE' ? (
+      <div className="mb-10 p-6 rounded-xl border-2 border-rose-100 bg-white/50">
+        <input
+          type="text"
+          placeholder={txt.inputLine}
+          value={lineInput}
+          onChange={(e) => { setLineInput(e.target.value); if (feedback !== 'none') setFeedback('none'); }}
+          className="w-full p-4 border border-slate-300 rounded-lg focus:ring-2 focus:ring-rose-200 focus:border-rose-400 outline-none font-mono text-xl"
+        />
+        <div className="min-h-[2.5rem] text-2xl text-slate-700 font-bold mt-3 px-1 flex flex-wrap items-center">
+          {linePreview && 'equation' in linePreview && (
+            <>
+              {renderSide(linePreview.equation.reactants)}
+              <span className="mx-3 text-slate-400">{linePreview.equation.reversible ? '⇌' : '→'}</span>
+              {renderSide(linePreview.equation.products)}
+            </>
+          )}
+        </div>
+        <p className="text-xs text-slate-400 mt-2">{txt.lineGuide}</p>
+      </div>
+      ) : (
+      /* Builder Zone */
       <div className="flex flex-col lg:flex-row gap-8 mb-10 relative">
         {renderSection(txt.reactants, userReactants, 'REACTANT', 'border-amber-100')}
         
         {/* Arrow Divider */}
-        <div className="flex items-center justify-center lg:pt-12">
+        <div className="flex flex-col items-center justify-center lg:pt-12">
+           {currentChallenge.conditions && (
+             <span className="text-xs font-bold text-slate-500 mb-2 whitespace-nowrap">{formatConditions(currentChallenge.conditions, language)}</span>
+           )}
            <div className="bg-white p-3 rounded-full shadow-md border border-slate-200 text-slate-400">
              <svg className="w-8 h-8 rotate-90 lg:rotate-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
            </div>
@@ -367,6 +587,7 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
 
         {renderSection(txt.products, userProducts, 'PRODUCT', 'border-indigo-100')}
       </div>
+      )}
 
       {/* Controls */}
       <div className="text-center pb-24">
@@ -395,6 +616,9 @@ const EquationBuilder: React.FC<Props> = ({ onBack, language }) => {
                 ))}
               </div>
             )}
+            {mistake && (
+              <MistakeExplainer key={mistakeFingerprint(mistake)} request={mistake} language={language} user={user} onUserUpdate={onUserUpdate} />
+            )}
             <button
               onClick={() => setFeedback('none')}
               className="px-10 py-4 bg-slate-800 text-white text-lg rounded-xl hover:bg-slate-700"
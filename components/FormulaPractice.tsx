@@ -1,8 +1,17 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { generateIons, evaluateHandwrittenAnswers, EvaluationResult } from '../services/geminiService';
-import { Ion, Language, GameCard, UserProfile, QuizRecord, Stage5Answer } from '../types';
+import { Ion, Language, GameCard, UserProfile, QuizRecord, Stage5Answer, ElementData, HandwritingStroke, HandwrittenSubmission, HandwrittenTestResult } from '../types';
 import { formatFormula } from '../utils';
+import { formulaErrorMessages } from '../services/formulaValidator';
+import { PERIODIC_TABLE, getElement } from '../data/periodicTable';
+import { generateCompounds } from '../services/compoundBuilder';
+import { checkName } from '../services/naming';
+import { pickUnseen, getRecentlySeen, rememberSeen } from '../services/recentlySeen';
+import { GradingFailure, GradingOutcome } from '../services/handwriting';
+import { toTestResult, describeChange } from '../services/gradeReview';
+import { getUser, listScores } from '../services/repository';
+import HandwritingPad from './HandwritingPad';
 
 interface Props {
   onBack: () => void;
@@ -12,15 +21,6 @@ interface Props {
   onProgressUpdate: (newMaxStage: number) => void;
 }
 
-interface ElementData {
-  atomic: number;
-  symbol: string;
-  zh: string;
-  en: string;
-  col: number; 
-  row: number; 
-}
-
 interface MasteryQuestion {
   el: ElementData;
   mode: 'TO_SYMBOL' | 'TO_NAME';
@@ -36,90 +36,73 @@ interface AdvancedCompoundQuestion extends CompoundQuestion {
   mode: 'NAME_TO_FORMULA' | 'FORMULA_TO_NAME';
 }
 
-const ELEMENTS_1_20: ElementData[] = [
-  { atomic: 1, symbol: 'H', zh: '氫', en: 'Hydrogen', row: 1, col: 9 }, 
-  { atomic: 2, symbol: 'He', zh: '氦', en: 'Helium', row: 1, col: 18 },
-  { atomic: 3, symbol: 'Li', zh: '鋰', en: 'Lithium', row: 2, col: 1 },
-  { atomic: 4, symbol: 'Be', zh: '鈹', en: 'Beryllium', row: 2, col: 2 },
-  { atomic: 5, symbol: 'B', zh: '硼', en: 'Boron', row: 2, col: 13 },
-  { atomic: 6, symbol: 'C', zh: '碳', en: 'Carbon', row: 2, col: 14 },
-  { atomic: 7, symbol: 'N', zh: '氮', en: 'Nitrogen', row: 2, col: 15 },
-  { atomic: 8, symbol: 'O', zh: '氧', en: 'Oxygen', row: 2, col: 16 },
-  { atomic: 9, symbol: 'F', zh: '氟', en: 'Fluorine', row: 2, col: 17 },
-  { atomic: 10, symbol: 'Ne', zh: '氖', en: 'Neon', row: 2, col: 18 },
-  { atomic: 11, symbol: 'Na', zh: '鈉', en: 'Sodium', row: 3, col: 1 },
-  { atomic: 12, symbol: 'Mg', zh: '鎂', en: 'Magnesium', row: 3, col: 2 },
-  { atomic: 13, symbol: 'Al', zh: '鋁', en: 'Aluminium', row: 3, col: 13 },
-  { atomic: 14, symbol: 'Si', zh: '硅', en: 'Silicon', row: 3, col: 14 },
-  { atomic: 15, symbol: 'P', zh: '磷', en: 'Phosphorus', row: 3, col: 15 },
-  { atomic: 16, symbol: 'S', zh: '硫', en: 'Sulphur', row: 3, col: 16 },
-  { atomic: 17, symbol: 'Cl', zh: '氯', en: 'Chlorine', row: 3, col: 17 },
-  { atomic: 18, symbol: 'Ar', zh: '氬', en: 'Argon', row: 3, col: 18 },
-  { atomic: 19, symbol: 'K', zh: '鉀', en: 'Potassium', row: 4, col: 1 },
-  { atomic: 20, symbol: 'Ca', zh: '鈣', en: 'Calcium', row: 4, col: 2 },
-];
-
-const METALS_STAGE_3: ElementData[] = [
-  { atomic: 24, symbol: 'Cr', zh: '鉻', en: 'Chromium', row: 4, col: 6 },
-  { atomic: 27, symbol: 'Co', zh: '鈷', en: 'Cobalt', row: 4, col: 9 },
-  { atomic: 79, symbol: 'Au', zh: '金', en: 'Gold', row: 6, col: 11 },
-  { atomic: 82, symbol: 'Pb', zh: '鉛', en: 'Lead', row: 6, col: 14 },
-  { atomic: 26, symbol: 'Fe', zh: '鐵', en: 'Iron', row: 4, col: 8 },
-  { atomic: 29, symbol: 'Cu', zh: '銅', en: 'Copper', row: 4, col: 11 },
-  { atomic: 25, symbol: 'Mn', zh: '錳', en: 'Manganese', row: 4, col: 7 },
-  { atomic: 80, symbol: 'Hg', zh: '汞', en: 'Mercury', row: 6, col: 12 },
-  { atomic: 28, symbol: 'Ni', zh: '鎳', en: 'Nickel', row: 4, col: 10 },
-  { atomic: 78, symbol: 'Pt', zh: '鉑', en: 'Platinum', row: 6, col: 10 },
-  { atomic: 47, symbol: 'Ag', zh: '銀', en: 'Silver', row: 5, col: 11 },
-  { atomic: 50, symbol: 'Sn', zh: '錫', en: 'Tin', row: 5, col: 14 },
-  { atomic: 30, symbol: 'Zn', zh: '鋅', en: 'Zinc', row: 4, col: 12 },
-];
-
-const COMPOUNDS_DATA: CompoundQuestion[] = [
-  { nameZH: "氧化鎂", nameEN: "Magnesium oxide", formula: "MgO" },
-  { nameZH: "氯化鈉", nameEN: "Sodium chloride", formula: "NaCl" },
-  { nameZH: "氯化鈣", nameEN: "Calcium chloride", formula: "CaCl2" },
-  { nameZH: "氧化鋁", nameEN: "Aluminium oxide", formula: "Al2O3" },
-  { nameZH: "硫化鉀", nameEN: "Potassium sulphide", formula: "K2S" },
-  { nameZH: "氯化鐵(II)", nameEN: "Iron(II) chloride", formula: "FeCl2" },
-  { nameZH: "氧化銀", nameEN: "Silver oxide", formula: "Ag2O" },
-  { nameZH: "氯化鋁", nameEN: "Aluminium chloride", formula: "AlCl3" },
-  { nameZH: "氫氧化鈉", nameEN: "Sodium hydroxide", formula: "NaOH" },
-  { nameZH: "硫酸鋅", nameEN: "Zinc sulphate", formula: "ZnSO4" },
-  { nameZH: "碳酸鈣", nameEN: "Calcium carbonate", formula: "CaCO3" },
-  { nameZH: "硝酸鋇", nameEN: "Barium nitrate", formula: "Ba(NO3)2" },
-  { nameZH: "氯化銅(II)", nameEN: "Copper(II) chloride", formula: "CuCl2" },
-  { nameZH: "硝酸鉛(II)", nameEN: "Lead(II) nitrate", formula: "Pb(NO3)2" },
-  { nameZH: "硫酸鐵(III)", nameEN: "Iron(III) sulphate", formula: "Fe2(SO4)3" },
-  { nameZH: "氯化銅(I)", nameEN: "Copper(I) chloride", formula: "CuCl" },
-];
-
-const ADVANCED_COMPOUNDS: CompoundQuestion[] = [
-  { nameZH: "高錳酸鉀", nameEN: "Potassium permanganate", formula: "KMnO4" },
-  { nameZH: "碳酸鈉", nameEN: "Sodium carbonate", formula: "Na2CO3" },
-  { nameZH: "硫酸銨", nameEN: "Ammonium sulphate", formula: "(NH4)2SO4" },
-  { nameZH: "氫氧化鐵(III)", nameEN: "Iron(III) hydroxide", formula: "Fe(OH)3" },
-  { nameZH: "硝酸銀", nameEN: "Silver nitrate", formula: "AgNO3" },
-  { nameZH: "硝酸鋅", nameEN: "Zinc nitrate", formula: "Zn(NO3)2" },
-  { nameZH: "重鉻酸鉀", nameEN: "Potassium dichromate", formula: "K2Cr2O7" },
-  { nameZH: "氯化鉛(II)", nameEN: "Lead(II) chloride", formula: "PbCl2" },
-  { nameZH: "碳酸氫鎂", nameEN: "Magnesium hydrogencarbonate", formula: "Mg(HCO3)2" },
-  { nameZH: "氯化銨", nameEN: "Ammonium chloride", formula: "NH4Cl" },
-  { nameZH: "硫酸鋇", nameEN: "Barium sulphate", formula: "BaSO4" },
-  { nameZH: "氫氧化鈣", nameEN: "Calcium hydroxide", formula: "Ca(OH)2" },
-];
-
-const getGlobalLeaderboard = (stage: 5 | 9 | 12) => {
-    const rawData = localStorage.getItem('chemistry_master_users_v1');
-    if (!rawData) return [];
-    const allUsers: Record<string, UserProfile> = JSON.parse(rawData);
-    let key: 'stage5Result' | 'stage9Result' | 'stage12Result';
-    if (stage === 5) key = 'stage5Result';
-    else if (stage === 9) key = 'stage9Result';
-    else key = 'stage12Result';
-    return Object.values(allUsers).filter(u => u[key]).sort((a, b) => b[key]!.score - a[key]!.score).slice(0, 10);
+const ELEMENTS_1_20: ElementData[] = PERIODIC_TABLE.slice(0, 20);
+
+const METALS_STAGE_3: ElementData[] = ['Cr', 'Co', 'Au', 'Pb', 'Fe', 'Cu', 'Mn', 'Hg', 'Ni', 'Pt', 'Ag', 'Sn', 'Zn'].map(symbol => getElement(symbol)!);
+
+// 階段 4 及 5 的元素題目：優先抽取最近未出現的元素
+const pickMasteryElements = (user: UserProfile): ElementData[] =>
+  pickUnseen([...ELEMENTS_1_20, ...METALS_STAGE_3], 15, el => el.symbol, getRecentlySeen(user, 'ELEMENTS'));
+
+const getGlobalLeaderboard = (stage: 5 | 9 | 12) =>
+    listScores(`stage${stage}Result`).sort((a, b) => b.score - a.score).slice(0, 10);
+
+// 手寫批改失敗時的提示；成績不會儲存，學生可重新上傳
+const GRADING_ERRORS: Record<GradingFailure, { ZH: string; EN: string }> = {
+  OFFLINE: { ZH: "未有設定 AI 批改服務，暫時無法評分。請聯絡老師。", EN: "No AI marking service is set up, so this test cannot be marked yet. Please ask your teacher." },
+  FAILED: { ZH: "評分失敗（相片無法讀取或連線中斷），成績未有儲存。請再上傳一次。", EN: "Marking failed (unreadable photo or lost connection). Nothing was saved. Please upload again." },
+  INVALID_RESULT: { ZH: "批改結果與題目不符，成績未有儲存。請拍一張更清晰、按題號順序的相片再上傳。", EN: "The marking did not match the questions, so nothing was saved. Please upload a clearer photo with answers in order." },
+};
+
+const GradingError: React.FC<{ reason: GradingFailure, language: Language }> = ({ reason, language }) => (
+  <div className="mt-6 p-4 bg-rose-50 border border-rose-200 rounded-xl text-rose-700 font-medium">⚠️ {GRADING_ERRORS[reason][language]}</div>
+);
+
+// 手寫測驗的作答方式：螢幕手寫板（每題一格）或上傳紙本相片
+type AnswerInput = 'PAD' | 'PHOTO';
+
+const AnswerInputToggle: React.FC<{ mode: AnswerInput, onChange: (mode: AnswerInput) => void, disabled: boolean, language: Language }> = ({ mode, onChange, disabled, language }) => {
+  const labels: Record<AnswerInput, string> = language === 'ZH'
+    ? { PAD: "✏️ 在螢幕上書寫", PHOTO: "📷 上傳紙本相片" }
+    : { PAD: "✏️ Write on screen", PHOTO: "📷 Upload a photo" };
+  return (
+    <div className="flex justify-center mb-6">
+      <div className="bg-slate-100 p-1 rounded-full flex">
+        {(['PAD', 'PHOTO'] as AnswerInput[]).map(m => (
+          <button key={m} onClick={() => onChange(m)} disabled={disabled} className={`px-4 py-2 rounded-full text-sm font-bold transition-all ${mode === m ? 'bg-white text-indigo-600 shadow' : 'text-slate-500 hover:text-slate-700'}`}>{labels[m]}</button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// 保存作答以供老師覆核：手寫板存筆畫，相片存已壓縮的版本
+const submissionOf = (outcome: GradingOutcome & { ok: true }, strokes?: HandwritingStroke[][]): HandwrittenSubmission | undefined =>
+  strokes ? { kind: 'PAD', strokes } : outcome.images?.[0] ? { kind: 'PHOTO', image: outcome.images[0] } : undefined;
+
+// 老師覆核後的更改紀錄
+const GradeChangeLog: React.FC<{ result?: HandwrittenTestResult, language: Language }> = ({ result, language }) => {
+  if (!result?.reviewedBy) return null;
+  const isZH = language === 'ZH';
+  return (
+    <div className="bg-amber-50 border border-amber-200 p-6 rounded-2xl text-left">
+      <h3 className="font-bold text-amber-800 mb-2">{isZH ? "老師覆核" : "Teacher review"}</h3>
+      {result.changes?.length ? (
+        <ul className="space-y-1 text-sm text-amber-900">{result.changes.map((c, i) => <li key={i}>{describeChange(c, language)}</li>)}</ul>
+      ) : (
+        <p className="text-sm text-amber-900">{isZH ? `${result.reviewedBy} 已覆核，成績不變。` : `Reviewed by ${result.reviewedBy}. No changes.`}</p>
+      )}
+    </div>
+  );
 };
 
+const readAsDataURL = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
 const FormulaPractice: React.FC<Props> = ({ onBack, language, user, onUserUpdate, onProgressUpdate }) => {
   const [activeStage, setActiveStage] = useState(0); 
   const [completedStages, setCompletedStages] = useState<number[]>([]);
@@ -144,14 +127,14 @@ const FormulaPractice: React.FC<Props> = ({ onBack, language, user, onUserUpdate
       case 1: return <Stage1_Ordering onComplete={() => handleStageComplete(1)} onBack={() => setActiveStage(0)} language={language} />;
       case 2: return <Stage2_Writing1to20 onComplete={() => handleStageComplete(2)} onBack={() => setActiveStage(0)} language={language} />;
       case 3: return <Stage3_WritingMetals onComplete={() => handleStageComplete(3)} onBack={() => setActiveStage(0)} language={language} />;
-      case 4: return <Stage4_MasteryTest onComplete={() => handleStageComplete(4)} onBack={() => setActiveStage(0)} language={language} />;
+      case 4: return <Stage4_MasteryTest onComplete={() => handleStageComplete(4)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
       case 5: return <Stage5_OneTimeTest onComplete={() => handleStageComplete(5)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
-      case 6: return <MemoryGameStage difficulty="EASY" stageNum={6} onComplete={() => handleStageComplete(6)} onBack={() => setActiveStage(0)} language={language} />;
-      case 7: return <MemoryGameStage difficulty="MEDIUM" stageNum={7} onComplete={() => handleStageComplete(7)} onBack={() => setActiveStage(0)} language={language} />;
-      case 8: return <MemoryGameStage difficulty="HARD" stageNum={8} onComplete={() => handleStageComplete(8)} onBack={() => setActiveStage(0)} language={language} />;
+      case 6: return <MemoryGameStage difficulty="EASY" stageNum={6} onComplete={() => handleStageComplete(6)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
+      case 7: return <MemoryGameStage difficulty="MEDIUM" stageNum={7} onComplete={() => handleStageComplete(7)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
+      case 8: return <MemoryGameStage difficulty="HARD" stageNum={8} onComplete={() => handleStageComplete(8)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
       case 9: return <Stage9_SynthesisTest onComplete={() => handleStageComplete(9)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
-      case 10: return <Stage10_CompoundWriting onComplete={() => handleStageComplete(10)} onBack={() => setActiveStage(0)} language={language} />;
-      case 11: return <Stage11_AdvancedCompounds onComplete={() => handleStageComplete(11)} onBack={() => setActiveStage(0)} language={language} />;
+      case 10: return <Stage10_CompoundWriting onComplete={() => handleStageComplete(10)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
+      case 11: return <Stage11_AdvancedCompounds onComplete={() => handleStageComplete(11)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
       case 12: return <Stage12_FinalCompoundHandwrittenTest onComplete={() => handleStageComplete(12)} onBack={() => setActiveStage(0)} language={language} user={user} onUserUpdate={onUserUpdate} />;
       default: return (
         <StageMenu 
@@ -419,27 +402,29 @@ const Stage3_WritingMetals: React.FC<{ onComplete: () => void, onBack: () => voi
   );
 };
 
-const Stage4_MasteryTest: React.FC<{ onComplete: () => void, onBack: () => void, language: Language }> = ({ onComplete, onBack, language }) => {
+const Stage4_MasteryTest: React.FC<{ onComplete: () => void, onBack: () => void, language: Language, user: UserProfile, onUserUpdate: (u: UserProfile) => void }> = ({ onComplete, onBack, language, user, onUserUpdate }) => {
   const isZH = language === 'ZH';
   const [questions, setQuestions] = useState<MasteryQuestion[]>([]);
   const [inputs, setInputs] = useState<{[key: number]: string}>({});
-  const [results, setResults] = useState<{[key: number]: 'correct' | 'wrong' | 'none'}>({});
+  const [results, setResults] = useState<{[key: number]: 'correct' | 'spelling' | 'wrong' | 'none'}>({});
   const [submitted, setSubmitted] = useState(false);
 
   useEffect(() => {
-    const allItems = [...ELEMENTS_1_20, ...METALS_STAGE_3];
-    const shuffled = allItems.sort(() => 0.5 - Math.random()).slice(0, 15);
-    const qs: MasteryQuestion[] = shuffled.map(el => ({ el, mode: Math.random() > 0.5 ? 'TO_SYMBOL' : 'TO_NAME' }));
-    setQuestions(qs);
+    const picked = pickMasteryElements(user);
+    setQuestions(picked.map(el => ({ el, mode: Math.random() > 0.5 ? 'TO_SYMBOL' : 'TO_NAME' })));
+    onUserUpdate(rememberSeen(user, 'ELEMENTS', picked.map(el => el.symbol)));
   }, []);
 
   const checkAnswers = () => {
-    const newResults: {[key: number]: 'correct' | 'wrong'} = {};
+    const newResults: {[key: number]: 'correct' | 'spelling' | 'wrong'} = {};
     questions.forEach((q, idx) => {
       const userVal = (inputs[idx] || '').trim();
-      let correctVal = q.mode === 'TO_SYMBOL' ? q.el.symbol : (isZH ? q.el.zh : q.el.en);
-      const isCorrect = q.mode === 'TO_SYMBOL' ? userVal === correctVal : userVal.toLowerCase() === correctVal.toLowerCase();
-      newResults[idx] = isCorrect ? 'correct' : 'wrong';
+      if (q.mode === 'TO_SYMBOL') {
+        newResults[idx] = userVal === q.el.symbol ? 'correct' : 'wrong';
+        return;
+      }
+      const { verdict } = checkName(userVal, isZH ? q.el.zh : q.el.en);
+      newResults[idx] = verdict === 'CORRECT' ? 'correct' : verdict === 'SPELLING' ? 'spelling' : 'wrong';
     });
     setResults(newResults);
     setSubmitted(true);
@@ -452,15 +437,20 @@ const Stage4_MasteryTest: React.FC<{ onComplete: () => void, onBack: () => void,
       <Header title={isZH ? "階段 4: 綜合精通練習" : "Stage 4: Mastery Practice"} step="4/12" onBack={onBack} instruction={isZH ? "寫出對應的符號或名稱 (注意符號大小寫需正確)。" : "Write symbol/name (Symbols must be correctly cased)."} />
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-10">
         {questions.map((q, idx) => (
-          <div key={idx} className={`p-4 rounded-xl border-2 transition-all bg-white flex flex-col ${results[idx] === 'correct' ? 'border-emerald-200 bg-emerald-50' : results[idx] === 'wrong' ? 'border-rose-200 bg-rose-50' : 'border-slate-100'}`}>
+          <div key={idx} className={`p-4 rounded-xl border-2 transition-all bg-white flex flex-col ${results[idx] === 'correct' ? 'border-emerald-200 bg-emerald-50' : results[idx] === 'wrong' ? 'border-rose-200 bg-rose-50' : results[idx] === 'spelling' ? 'border-amber-200 bg-amber-50' : 'border-slate-100'}`}>
             <div className="text-slate-400 text-xs font-bold mb-2">#{idx + 1}</div>
             <div className="text-2xl font-bold text-slate-800 mb-3 text-center py-2">{q.mode === 'TO_SYMBOL' ? (isZH ? q.el.zh : q.el.en) : q.el.symbol}</div>
-            <input type="text" className={`w-full p-2 border-2 rounded-lg outline-none transition-all text-center ${results[idx] === 'wrong' ? 'border-rose-300' : results[idx] === 'correct' ? 'border-emerald-300 bg-white' : 'border-slate-200 focus:border-indigo-400'}`} value={inputs[idx] || ''} onChange={(e) => { setInputs({...inputs, [idx]: e.target.value}); if (submitted) setResults({...results, [idx]: 'none'}); }} placeholder={q.mode === 'TO_SYMBOL' ? (isZH ? "輸入符號" : "Symbol") : (isZH ? "輸入名稱" : "Name")} />
+            <input type="text" className={`w-full p-2 border-2 rounded-lg outline-none transition-all text-center ${results[idx] === 'wrong' ? 'border-rose-300' : results[idx] === 'spelling' ? 'border-amber-300' : results[idx] === 'correct' ? 'border-emerald-300 bg-white' : 'border-slate-200 focus:border-indigo-400'}`} value={inputs[idx] || ''} onChange={(e) => { setInputs({...inputs, [idx]: e.target.value}); if (submitted) setResults({...results, [idx]: 'none'}); }} placeholder={q.mode === 'TO_SYMBOL' ? (isZH ? "輸入符號" : "Symbol") : (isZH ? "輸入名稱" : "Name")} />
             {results[idx] === 'wrong' && (
               <div className="mt-2 text-[11px] text-rose-500 font-bold text-center normal-case">
                 {isZH ? "正確：" : "Correct: "} <span className="font-mono">{q.mode === 'TO_SYMBOL' ? q.el.symbol : (isZH ? q.el.zh : q.el.en)}</span>
               </div>
             )}
+            {results[idx] === 'spelling' && (
+              <div className="mt-2 text-[11px] text-amber-600 font-bold text-center normal-case">
+                {isZH ? "差不多！請檢查寫法：" : "Almost! Check your spelling: "} <span className="font-mono">{isZH ? q.el.zh : q.el.en}</span>
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -489,10 +479,9 @@ const Stage5_OneTimeTest: React.FC<{ onComplete: () => void, onBack: () => void,
 
   useEffect(() => {
     if (!user.stage5Result && questions.length === 0) {
-      const allItems = [...ELEMENTS_1_20, ...METALS_STAGE_3];
-      const shuffled = allItems.sort(() => 0.5 - Math.random()).slice(0, 15);
-      const qs: MasteryQuestion[] = shuffled.map(el => ({ el, mode: Math.random() > 0.5 ? 'TO_SYMBOL' : 'TO_NAME' }));
-      setQuestions(qs);
+      const picked = pickMasteryElements(user);
+      setQuestions(picked.map(el => ({ el, mode: Math.random() > 0.5 ? 'TO_SYMBOL' : 'TO_NAME' })));
+      onUserUpdate(rememberSeen(user, 'ELEMENTS', picked.map(el => el.symbol)));
     }
   }, [user.stage5Result]);
 
@@ -512,9 +501,10 @@ const Stage5_OneTimeTest: React.FC<{ onComplete: () => void, onBack: () => void,
     const details: Stage5Answer[] = questions.map((q, idx) => {
       const userVal = (inputs[idx] || '').trim();
       const correctVal = q.mode === 'TO_SYMBOL' ? q.el.symbol : (isZH ? q.el.zh : q.el.en);
-      const isCorrect = q.mode === 'TO_SYMBOL' ? userVal === correctVal : userVal.toLowerCase() === correctVal.toLowerCase();
+      const verdict = q.mode === 'TO_SYMBOL' ? (userVal === correctVal ? 'CORRECT' : 'WRONG') : checkName(userVal, correctVal).verdict;
+      const isCorrect = verdict === 'CORRECT';
       if (isCorrect) score++;
-      return { question: q.mode === 'TO_SYMBOL' ? (isZH ? q.el.zh : q.el.en) : q.el.symbol, expected: correctVal, userAnswer: userVal || (isZH ? "(未填寫)" : "(Blank)"), isCorrect };
+      return { question: q.mode === 'TO_SYMBOL' ? (isZH ? q.el.zh : q.el.en) : q.el.symbol, expected: correctVal, userAnswer: userVal || (isZH ? "(未填寫)" : "(Blank)"), isCorrect, isSpellingSlip: verdict === 'SPELLING' };
     });
     const result = { score, timeTaken: 240 - timeLeft, timestamp: Date.now(), details };
     onUserUpdate({ ...user, stage5Result: result });
@@ -544,6 +534,7 @@ const Stage5_OneTimeTest: React.FC<{ onComplete: () => void, onBack: () => void,
                   </div>
                   <div><span className="text-slate-500">{isZH ? "你的答案：" : "Yours: "}</span> {d.userAnswer}</div>
                   {!d.isCorrect && <div className="text-emerald-700 font-bold">{isZH ? "正確答案：" : "Expected: "} {d.expected}</div>}
+                  {d.isSpellingSlip && <div className="text-amber-600 text-xs font-bold">{isZH ? "只是寫法錯誤，化學上是正確的物質。" : "Spelling slip only: the right substance, misspelt."}</div>}
                 </div>
               ))}
             </div>
@@ -566,7 +557,7 @@ const Stage5_OneTimeTest: React.FC<{ onComplete: () => void, onBack: () => void,
                        <span className={`w-6 font-bold ${i < 3 ? 'text-amber-500' : 'text-slate-400'}`}>{i + 1}</span>
                        <span className="font-bold text-slate-700 ml-2">{u.name}</span>
                      </div>
-                     <div className="text-right font-black text-indigo-600">{u.stage5Result!.score}</div>
+                     <div className="text-right font-black text-indigo-600">{u.score}</div>
                    </div>
                  ))}
                </div>
@@ -609,7 +600,7 @@ const Stage5_OneTimeTest: React.FC<{ onComplete: () => void, onBack: () => void,
 
 // --- STAGE COMPONENTS 6-8 (MEMORY GAME) ---
 
-const MemoryGameStage: React.FC<{ difficulty: 'EASY' | 'MEDIUM' | 'HARD', stageNum: number, onComplete: () => void, onBack: () => void, language: Language }> = ({ difficulty, stageNum, onComplete, onBack, language }) => {
+const MemoryGameStage: React.FC<{ difficulty: 'EASY' | 'MEDIUM' | 'HARD', stageNum: number, onComplete: () => void, onBack: () => void, language: Language, user: UserProfile, onUserUpdate: (u: UserProfile) => void }> = ({ difficulty, stageNum, onComplete, onBack, language, user, onUserUpdate }) => {
   const isZH = language === 'ZH';
   const [cards, setCards] = useState<GameCard[]>([]);
   const [flipped, setFlipped] = useState<string[]>([]);
@@ -621,7 +612,9 @@ const MemoryGameStage: React.FC<{ difficulty: 'EASY' | 'MEDIUM' | 'HARD', stageN
   useEffect(() => {
     const initGame = async () => {
       const count = difficulty === 'EASY' ? 4 : difficulty === 'MEDIUM' ? 6 : 8;
-      const ions = await generateIons(count, 'medium', difficulty === 'EASY' ? 'MONO' : 'MIXED');
+      const ions = await generateIons(count, difficulty.toLowerCase(), difficulty === 'EASY' ? 'MONO' : 'MIXED', getRecentlySeen(user, 'IONS'));
+      // 出題期間用戶資料可能已更新，要記在最新的資料上
+      onUserUpdate(rememberSeen(getUser(user.name) || user, 'IONS', ions.map(ion => ion.formula)));
       const cardPairs: GameCard[] = [];
       ions.forEach((ion, index) => {
         cardPairs.push({ id: `f-${index}`, ionIndex: index, content: ion.formula, type: 'FORMULA', isFlipped: false, isMatched: false });
@@ -708,6 +701,8 @@ const Stage9_SynthesisTest: React.FC<{ onComplete: () => void, onBack: () => voi
   const isZH = language === 'ZH';
   const [questions, setQuestions] = useState<Ion[]>([]);
   const [evalResult, setEvalResult] = useState<EvaluationResult | null>(null);
+  const [gradingError, setGradingError] = useState<GradingFailure | null>(null);
+  const [inputMode, setInputMode] = useState<AnswerInput>('PAD');
   const [loading, setLoading] = useState(false);
   const [isStarted, setIsStarted] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -715,25 +710,33 @@ const Stage9_SynthesisTest: React.FC<{ onComplete: () => void, onBack: () => voi
 
   useEffect(() => {
     if (!isFinished && !isStarted) {
-        const init = async () => { const q = await generateIons(15, 'hard', 'MIXED'); setQuestions(q); };
+        const init = async () => {
+          const q = await generateIons(15, 'hard', 'MIXED', getRecentlySeen(user, 'IONS'));
+          setQuestions(q);
+          onUserUpdate(rememberSeen(getUser(user.name) || user, 'IONS', q.map(ion => ion.formula)));
+        };
         init();
     }
   }, [isFinished, isStarted]);
 
+  const submitAnswers = async (images: string[], strokes?: HandwritingStroke[][]) => {
+    setLoading(true); setGradingError(null);
+    let outcome: GradingOutcome;
+    try {
+      const payload = questions.map(q => ({ zh: q.chineseName, en: q.englishName, formula: q.formula }));
+      outcome = await evaluateHandwrittenAnswers(images, payload, language);
+    } catch (err) { setGradingError('FAILED'); return; } finally { setLoading(false); }
+    if ('reason' in outcome) { setGradingError(outcome.reason); return; }
+    // 儲存在批改之外：寫入失敗由儲存提示列處理，不會被當成批改失敗
+    setEvalResult(outcome.result);
+    onUserUpdate({ ...user, stage9Result: toTestResult(outcome.result, submissionOf(outcome, strokes)) });
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = ''; // 容許重新選擇同一張相片
     if (!file) return;
-    setLoading(true);
-    const reader = new FileReader();
-    reader.onload = async () => {
-      try {
-        const payload = questions.map(q => ({ zh: q.chineseName, en: q.englishName, formula: q.formula }));
-        const result = await evaluateHandwrittenAnswers(reader.result as string, payload);
-        onUserUpdate({ ...user, stage9Result: { score: result.score, timestamp: Date.now() } });
-        setEvalResult(result);
-      } catch (err) { alert("Evaluation failed. Please try again."); } finally { setLoading(false); }
-    };
-    reader.readAsDataURL(file);
+    try { await submitAnswers([await readAsDataURL(file)]); } catch (err) { setGradingError('FAILED'); }
   };
 
   if (isFinished) {
@@ -746,6 +749,7 @@ const Stage9_SynthesisTest: React.FC<{ onComplete: () => void, onBack: () => voi
                     <div className="text-lg font-bold opacity-80 mb-2 uppercase tracking-widest">{isZH ? "你的得分" : "Your Score"}</div>
                     <div className="text-8xl font-black">{user.stage9Result?.score} / 15</div>
                 </div>
+                {user.stage9Result?.reviewedBy && <div className="md:col-span-2"><GradeChangeLog result={user.stage9Result} language={language} /></div>}
                 <div className="bg-white p-8 rounded-3xl shadow-xl border border-slate-200">
                     <h3 className="text-xl font-bold mb-6 flex items-center text-indigo-600">🏆 {isZH ? "全服即時龍虎榜" : "Global Leaderboard"}</h3>
                     <div className="space-y-3">
@@ -755,7 +759,7 @@ const Stage9_SynthesisTest: React.FC<{ onComplete: () => void, onBack: () => voi
                             <span className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${i < 3 ? 'bg-amber-400 text-white' : 'bg-slate-200 text-slate-500'}`}>{i + 1}</span>
                             <span className="font-bold text-slate-700 ml-3 truncate">{u.name}</span>
                             </div>
-                            <div className="font-black text-indigo-600">{u.stage9Result!.score}</div>
+                            <div className="font-black text-indigo-600">{u.score}</div>
                         </div>
                         ))}
                     </div>
@@ -772,18 +776,28 @@ const Stage9_SynthesisTest: React.FC<{ onComplete: () => void, onBack: () => voi
 
   return (
     <div className="max-w-4xl mx-auto px-4 mb-20">
-      <Header title={isZH ? "階段 9: 離子手寫綜合測試" : "Stage 9: Ion Synthesis Test"} step="9/12" onBack={onBack} instruction={isZH ? "請在紙上寫下這 15 個離子的化學式，拍照並上傳。" : "Write the formulas for these 15 ions on paper, then upload a photo."} />
+      <Header title={isZH ? "階段 9: 離子手寫綜合測試" : "Stage 9: Ion Synthesis Test"} step="9/12" onBack={onBack} instruction={inputMode === 'PAD'
+        ? (isZH ? "請在每格寫下該離子的化學式，然後提交批改。" : "Write the formula of each ion in its box, then submit for marking.")
+        : (isZH ? "請在紙上寫下這 15 個離子的化學式，拍照並上傳。" : "Write the formulas for these 15 ions on paper, then upload a photo.")} />
       {!evalResult ? (
         <div className="bg-white p-8 rounded-2xl shadow-xl border border-slate-200">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-            {questions.map((q, i) => (<div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100 font-medium text-slate-800">{i+1}. {isZH ? q.chineseName : q.englishName}</div>))}
+          <AnswerInputToggle mode={inputMode} onChange={setInputMode} disabled={loading} language={language} />
+          {/* 切換作答方式時保留手寫板上的筆畫 */}
+          <div className={inputMode === 'PAD' ? '' : 'hidden'}>
+            {questions.length > 0 && <HandwritingPad questions={questions.map(q => isZH ? q.chineseName : q.englishName)} language={language} loading={loading} submitLabel={loading ? (isZH ? "分析中..." : "Analyzing...") : (isZH ? "提交批改" : "Submit for marking")} onSubmit={(strokes, images) => submitAnswers(images, strokes)} />}
           </div>
-          <div className="text-center">
-            <input type="file" accept="image/*" className="hidden" ref={fileInputRef} onChange={handleFileUpload} />
-            <button onClick={() => fileInputRef.current?.click()} disabled={loading} className={`px-10 py-5 bg-indigo-600 text-white rounded-2xl font-bold shadow-xl ${loading ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105 transition-transform'}`}>
-              {loading ? (isZH ? "分析中..." : "Analyzing...") : (isZH ? "📷 上傳手寫照片" : "📷 Upload Photo")}
-            </button>
+          <div className={inputMode === 'PHOTO' ? '' : 'hidden'}>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+              {questions.map((q, i) => (<div key={i} className="bg-slate-50 p-3 rounded-lg border border-slate-100 font-medium text-slate-800">{i+1}. {isZH ? q.chineseName : q.englishName}</div>))}
+            </div>
+            <div className="text-center">
+              <input type="file" accept="image/*" className="hidden" ref={fileInputRef} onChange={handleFileUpload} />
+              <button onClick={() => fileInputRef.current?.click()} disabled={loading} className={`px-10 py-5 bg-indigo-600 text-white rounded-2xl font-bold shadow-xl ${loading ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105 transition-transform'}`}>
+                {loading ? (isZH ? "分析中..." : "Analyzing...") : (isZH ? "📷 上傳手寫照片" : "📷 Upload Photo")}
+              </button>
+            </div>
           </div>
+          {gradingError && <div className="text-center"><GradingError reason={gradingError} language={language} /></div>}
         </div>
       ) : (
         <div className="animate-pop text-center">
@@ -801,20 +815,26 @@ const Stage9_SynthesisTest: React.FC<{ onComplete: () => void, onBack: () => voi
 
 // --- STAGE 10: COMPOUND WRITING ---
 
-const Stage10_CompoundWriting: React.FC<{ onComplete: () => void, onBack: () => void, language: Language }> = ({ onComplete, onBack, language }) => {
+const Stage10_CompoundWriting: React.FC<{ onComplete: () => void, onBack: () => void, language: Language, user: UserProfile, onUserUpdate: (u: UserProfile) => void }> = ({ onComplete, onBack, language, user, onUserUpdate }) => {
   const isZH = language === 'ZH';
   const [questions, setQuestions] = useState<CompoundQuestion[]>([]);
   const [inputs, setInputs] = useState<{[key: number]: string}>({});
   const [submitted, setSubmitted] = useState(false);
   const [status, setStatus] = useState<{[key: number]: 'correct' | 'error' | 'none'}>({});
-  useEffect(() => { setQuestions([...COMPOUNDS_DATA].sort(() => 0.5 - Math.random()).slice(0, 10)); }, []);
+  const [syntaxHints, setSyntaxHints] = useState<{[key: number]: string[]}>({});
+  useEffect(() => {
+    const picked = generateCompounds(10, { difficulties: ['easy', 'medium'] }, getRecentlySeen(user, 'COMPOUNDS'));
+    setQuestions(picked);
+    onUserUpdate(rememberSeen(user, 'COMPOUNDS', picked.map(c => c.formula)));
+  }, []);
   const checkAll = () => {
     const newStatus: {[key: number]: 'correct' | 'error' | 'none'} = {}; let allCorrect = true;
+    const newHints: {[key: number]: string[]} = {};
     questions.forEach((q, idx) => {
       const userVal = (inputs[idx] || '').trim().replace(/\s+/g, '');
-      if (userVal === q.formula) newStatus[idx] = 'correct'; else { newStatus[idx] = 'error'; allCorrect = false; }
+      if (userVal === q.formula) newStatus[idx] = 'correct'; else { newStatus[idx] = 'error'; allCorrect = false; newHints[idx] = formulaErrorMessages(userVal, language); }
     });
-    setStatus(newStatus); setSubmitted(true);
+    setStatus(newStatus); setSyntaxHints(newHints); setSubmitted(true);
   };
   const allCorrect = submitted && questions.every((q, i) => (inputs[i] || '').trim().replace(/\s+/g, '') === q.formula);
   return (
@@ -836,7 +856,11 @@ const Stage10_CompoundWriting: React.FC<{ onComplete: () => void, onBack: () =>
                 <span className="text-slate-400 text-xs mr-3">{isZH ? "預覽:" : "Preview:"}</span>
                 <div className="text-lg">{inputs[idx] ? formatFormula(inputs[idx]) : <span className="text-slate-300 italic text-sm">-</span>}</div>
               </div>
-              {status[idx] === 'error' && <div className="mt-1 text-xs text-rose-500 font-bold pl-2 normal-case">{isZH ? '正確：' : 'Expected: '} <span className="font-mono">{q.formula}</span></div>}
+              {status[idx] === 'error' && (syntaxHints[idx]?.length ? (
+                syntaxHints[idx].map((hint, i) => <div key={i} className="mt-1 text-xs text-rose-500 font-bold pl-2 normal-case">{hint}</div>)
+              ) : (
+                <div className="mt-1 text-xs text-rose-500 font-bold pl-2 normal-case">{isZH ? '正確：' : 'Expected: '} <span className="font-mono">{q.formula}</span></div>
+              ))}
             </div>
           ))}
         </div>
@@ -855,25 +879,33 @@ const Stage10_CompoundWriting: React.FC<{ onComplete: () => void, onBack: () =>
 
 // --- STAGE 11: ADVANCED COMPOUNDS ---
 
-const Stage11_AdvancedCompounds: React.FC<{ onComplete: () => void, onBack: () => void, language: Language }> = ({ onComplete, onBack, language }) => {
+const Stage11_AdvancedCompounds: React.FC<{ onComplete: () => void, onBack: () => void, language: Language, user: UserProfile, onUserUpdate: (u: UserProfile) => void }> = ({ onComplete, onBack, language, user, onUserUpdate }) => {
   const isZH = language === 'ZH';
   const [questions, setQuestions] = useState<AdvancedCompoundQuestion[]>([]);
   const [inputs, setInputs] = useState<{[key: number]: string}>({});
   const [submitted, setSubmitted] = useState(false);
-  const [status, setStatus] = useState<{[key: number]: 'correct' | 'error' | 'none'}>({});
+  const [status, setStatus] = useState<{[key: number]: 'correct' | 'spelling' | 'error' | 'none'}>({});
+  const [syntaxHints, setSyntaxHints] = useState<{[key: number]: string[]}>({});
   useEffect(() => {
-    const shuffledCompounds = [...ADVANCED_COMPOUNDS].sort(() => 0.5 - Math.random()).slice(0, 10);
+    const shuffledCompounds = generateCompounds(10, { requirePolyatomic: true }, getRecentlySeen(user, 'COMPOUNDS'));
+    onUserUpdate(rememberSeen(user, 'COMPOUNDS', shuffledCompounds.map(c => c.formula)));
     const qList: AdvancedCompoundQuestion[] = shuffledCompounds.map((q, idx) => ({ ...q, mode: idx < 7 ? 'NAME_TO_FORMULA' : 'FORMULA_TO_NAME' }));
     setQuestions(qList.sort(() => 0.5 - Math.random()));
   }, []);
   const checkAll = () => {
-    const newStatus: {[key: number]: 'correct' | 'error' | 'none'} = {}; let allCorrect = true;
+    const newStatus: {[key: number]: 'correct' | 'spelling' | 'error' | 'none'} = {};
+    const newHints: {[key: number]: string[]} = {};
     questions.forEach((q, idx) => {
       const userVal = (inputs[idx] || '').trim();
-      const target = q.mode === 'NAME_TO_FORMULA' ? q.formula : (isZH ? q.nameZH : q.nameEN);
-      if (userVal.replace(/\s+/g, '').toLowerCase() === target.replace(/\s+/g, '').toLowerCase()) newStatus[idx] = 'correct'; else { newStatus[idx] = 'error'; allCorrect = false; }
+      if (q.mode === 'NAME_TO_FORMULA') {
+        newStatus[idx] = userVal.replace(/\s+/g, '').toLowerCase() === q.formula.replace(/\s+/g, '').toLowerCase() ? 'correct' : 'error';
+        if (newStatus[idx] === 'error') newHints[idx] = formulaErrorMessages(userVal, language);
+        return;
+      }
+      const { verdict } = checkName(userVal, isZH ? q.nameZH : q.nameEN);
+      newStatus[idx] = verdict === 'CORRECT' ? 'correct' : verdict === 'SPELLING' ? 'spelling' : 'error';
     });
-    setStatus(newStatus); setSubmitted(true);
+    setStatus(newStatus); setSyntaxHints(newHints); setSubmitted(true);
   };
   const allCorrect = submitted && Object.values(status).every(s => s === 'correct');
   return (
@@ -881,16 +913,23 @@ const Stage11_AdvancedCompounds: React.FC<{ onComplete: () => void, onBack: () =
       <Header title={isZH ? "階段 11: 進階離子化合物特訓" : "Stage 11: Advanced Compounds Mastery"} step="11/12" onBack={onBack} instruction={isZH ? "挑戰更複雜的多原子離子化合物。請根據提示寫出對應的名稱或化學式。" : "Challenge complex polyatomic ionic compounds. Write the formula or name."} />
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-10">
         {questions.map((q, idx) => (
-          <div key={idx} className={`p-6 rounded-2xl border-2 transition-all bg-white flex flex-col shadow-sm ${status[idx] === 'correct' ? 'border-emerald-200 bg-emerald-50' : status[idx] === 'error' ? 'border-rose-200 bg-rose-50' : 'border-slate-100 focus-within:border-indigo-400'}`}>
+          <div key={idx} className={`p-6 rounded-2xl border-2 transition-all bg-white flex flex-col shadow-sm ${status[idx] === 'correct' ? 'border-emerald-200 bg-emerald-50' : status[idx] === 'error' ? 'border-rose-200 bg-rose-50' : status[idx] === 'spelling' ? 'border-amber-200 bg-amber-50' : 'border-slate-100 focus-within:border-indigo-400'}`}>
             <div className="flex justify-between items-center mb-4">
               <span className="text-slate-400 text-xs font-bold uppercase tracking-widest">#{idx + 1} - {q.mode === 'NAME_TO_FORMULA' ? (isZH ? '寫出化學式' : 'Write Formula') : (isZH ? '寫出名稱' : 'Write Name')}</span>
               {status[idx] === 'correct' && <span className="text-emerald-500 font-bold">✓</span>}
-              {status[idx] === 'error' && <span className="text-rose-500 font-bold">✗</span>}
+              {(status[idx] === 'error' || status[idx] === 'spelling') && <span className={`font-bold ${status[idx] === 'spelling' ? 'text-amber-500' : 'text-rose-500'}`}>✗</span>}
             </div>
             <div className="text-2xl font-bold text-slate-800 mb-4 text-center">{q.mode === 'NAME_TO_FORMULA' ? (isZH ? q.nameZH : q.nameEN) : formatFormula(q.formula)}</div>
             <input type="text" className={`w-full p-4 border-2 rounded-xl outline-none font-medium text-lg text-center transition-all ${status[idx] === 'error' ? 'border-rose-300' : 'border-slate-100 focus:bg-white focus:border-indigo-300'}`} value={inputs[idx] || ''} onChange={(e) => { setInputs({...inputs, [idx]: e.target.value}); if (submitted) setStatus({...status, [idx]: 'none'}); }} placeholder={q.mode === 'NAME_TO_FORMULA' ? "e.g. KMnO4" : "e.g. Potassium..."} />
             {q.mode === 'NAME_TO_FORMULA' && inputs[idx] && (<div className="mt-3 flex items-center justify-center p-2 bg-white/60 rounded-lg border border-dashed border-indigo-100"><span className="text-xs text-slate-400 mr-3">{isZH ? '預覽:' : 'Preview:'}</span><div className="text-xl">{formatFormula(inputs[idx])}</div></div>)}
-            {status[idx] === 'error' && (<div className="mt-3 text-sm text-rose-600 font-bold text-center normal-case">{isZH ? '正確答案：' : 'Correct: '} {q.mode === 'NAME_TO_FORMULA' ? q.formula : (isZH ? q.nameZH : q.nameEN)}</div>)}
+            {status[idx] === 'error' && (syntaxHints[idx]?.length ? (
+              syntaxHints[idx].map((hint, i) => <div key={i} className="mt-3 text-sm text-rose-600 font-bold text-center normal-case">{hint}</div>)
+            ) : (
+              <div className="mt-3 text-sm text-rose-600 font-bold text-center normal-case">{isZH ? '正確答案：' : 'Correct: '} {q.mode === 'NAME_TO_FORMULA' ? q.formula : (isZH ? q.nameZH : q.nameEN)}</div>
+            ))}
+            {status[idx] === 'spelling' && (
+              <div className="mt-3 text-sm text-amber-600 font-bold text-center normal-case">{isZH ? '物質正確，但寫法有誤：' : 'Right compound, but check the spelling: '} {isZH ? q.nameZH : q.nameEN}</div>
+            )}
           </div>
         ))}
       </div>
@@ -912,29 +951,38 @@ const Stage12_FinalCompoundHandwrittenTest: React.FC<{ onComplete: () => void, o
   const isZH = language === 'ZH';
   const [questions, setQuestions] = useState<CompoundQuestion[]>([]);
   const [evalResult, setEvalResult] = useState<EvaluationResult | null>(null);
+  const [gradingError, setGradingError] = useState<GradingFailure | null>(null);
+  const [inputMode, setInputMode] = useState<AnswerInput>('PAD');
   const [loading, setLoading] = useState(false);
   const [isStarted, setIsStarted] = useState(false);
   const [isFinished, setIsFinished] = useState(!!user.stage12Result);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  useEffect(() => { if (!isFinished && questions.length === 0) { setQuestions([...COMPOUNDS_DATA, ...ADVANCED_COMPOUNDS].sort(() => 0.5 - Math.random()).slice(0, 15)); } }, [isFinished, questions.length]);
+  useEffect(() => {
+    if (!isFinished && questions.length === 0) {
+      const picked = generateCompounds(15, {}, getRecentlySeen(user, 'COMPOUNDS'));
+      setQuestions(picked);
+      onUserUpdate(rememberSeen(user, 'COMPOUNDS', picked.map(c => c.formula)));
+    }
+  }, [isFinished, questions.length]);
+
+  const submitAnswers = async (images: string[], strokes?: HandwritingStroke[][]) => {
+    setLoading(true); setGradingError(null);
+    let outcome: GradingOutcome;
+    try {
+      const payload = questions.map(q => ({ zh: q.nameZH, en: q.nameEN, formula: q.formula }));
+      outcome = await evaluateHandwrittenAnswers(images, payload, language);
+    } catch (err) { setGradingError('FAILED'); return; } finally { setLoading(false); }
+    if ('reason' in outcome) { setGradingError(outcome.reason); return; }
+    setEvalResult(outcome.result); setIsFinished(true);
+    onUserUpdate({ ...user, stage12Result: toTestResult(outcome.result, submissionOf(outcome, strokes)) });
+  };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]; if (!file) return;
-    setLoading(true);
-    const reader = new FileReader();
-    reader.onload = async () => {
-      try {
-        const payload = questions.map(q => ({ zh: q.nameZH, en: q.nameEN, formula: q.formula }));
-        const result = await evaluateHandwrittenAnswers(reader.result as string, payload);
-        const savedResult = { score: result.score, timestamp: Date.now(), details: result.results.map(r => ({ question: r.question, expected: r.expected, userAnswer: r.studentWrote, isCorrect: r.isCorrect })) };
-        onUserUpdate({ ...user, stage12Result: savedResult });
-        setEvalResult(result); setIsFinished(true);
-      } catch (err) { alert("Evaluation failed. Please try again."); } finally { setLoading(false); }
-    };
-    reader.readAsDataURL(file);
+    const file = e.target.files?.[0]; e.target.value = ''; if (!file) return;
+    try { await submitAnswers([await readAsDataURL(file)]); } catch (err) { setGradingError('FAILED'); }
   };
 
-  const displayResult = evalResult || (user.stage12Result ? { score: user.stage12Result.score, overallFeedback: isZH ? "測驗已完成，這是你的評核紀錄。" : "Test completed. Here is your evaluation record.", results: user.stage12Result.details.map(d => ({ question: d.question, expected: d.expected, studentWrote: d.userAnswer, isCorrect: d.isCorrect })) } : null);
+  const displayResult = evalResult || (user.stage12Result ? { score: user.stage12Result.score, overallFeedback: isZH ? "測驗已完成，這是你的評核紀錄。" : "Test completed. Here is your evaluation record.", results: (user.stage12Result.details || []).map(d => ({ question: d.question, expected: d.expected, studentWrote: d.userAnswer, isCorrect: d.isCorrect })) } : null);
 
   if (isFinished && displayResult) {
     const leaderboard = getGlobalLeaderboard(12);
@@ -960,9 +1008,10 @@ const Stage12_FinalCompoundHandwrittenTest: React.FC<{ onComplete: () => void, o
                   ))}
                 </div>
               </div>
+              <GradeChangeLog result={user.stage12Result} language={language} />
            </div>
            <div className="space-y-8">
-              <div className="bg-white p-8 rounded-3xl shadow-xl border border-amber-200"><h3 className="text-xl font-black mb-6 flex items-center text-amber-600">🏆 龍虎榜</h3><div className="space-y-3">{leaderboard.map((u, i) => (<div key={i} className={`flex items-center justify-between p-3 rounded-xl ${u.name === user.name ? 'bg-indigo-50 border-2 border-indigo-200' : 'bg-slate-50 border border-slate-100'}`}><span className="font-bold">{i+1}. {u.name}</span><span className="font-black text-indigo-600">{u.stage12Result!.score}</span></div>))}</div></div>
+              <div className="bg-white p-8 rounded-3xl shadow-xl border border-amber-200"><h3 className="text-xl font-black mb-6 flex items-center text-amber-600">🏆 龍虎榜</h3><div className="space-y-3">{leaderboard.map((u, i) => (<div key={i} className={`flex items-center justify-between p-3 rounded-xl ${u.name === user.name ? 'bg-indigo-50 border-2 border-indigo-200' : 'bg-slate-50 border border-slate-100'}`}><span className="font-bold">{i+1}. {u.name}</span><span className="font-black text-indigo-600">{u.score}</span></div>))}</div></div>
               <button onClick={onComplete} className="w-full py-4 bg-emerald-600 text-white font-bold rounded-2xl shadow-lg">返回選單</button>
            </div>
         </div>
@@ -974,13 +1023,23 @@ const Stage12_FinalCompoundHandwrittenTest: React.FC<{ onComplete: () => void, o
 
   return (
     <div className="max-w-4xl mx-auto px-4 mb-20">
-      <Header title={isZH ? "階段 12: 化合物手寫終極測試" : "Stage 12: Final Compound Test"} step="12/12" onBack={onBack} instruction={isZH ? "請在紙上按順序寫下這 15 個化合物的化學式，然後拍照上傳讓 AI 評分。" : "Write chemical formulas for these 15 compounds on paper in order, then upload for AI grading."} />
+      <Header title={isZH ? "階段 12: 化合物手寫終極測試" : "Stage 12: Final Compound Test"} step="12/12" onBack={onBack} instruction={inputMode === 'PAD'
+        ? (isZH ? "請在每格寫下該化合物的化學式，然後提交讓 AI 評分。" : "Write the formula of each compound in its box, then submit for AI grading.")
+        : (isZH ? "請在紙上按順序寫下這 15 個化合物的化學式，然後拍照上傳讓 AI 評分。" : "Write chemical formulas for these 15 compounds on paper in order, then upload for AI grading.")} />
       <div className="bg-white p-8 rounded-2xl shadow-xl border border-slate-200">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3 mb-10">{questions.map((q, i) => (<div key={i} className="bg-slate-50 p-4 rounded-xl border border-slate-100 font-bold text-slate-800 flex justify-between shadow-sm"><span>{i+1}. {isZH ? q.nameZH : q.nameEN}</span></div>))}</div>
-        <div className="text-center p-8 bg-indigo-50/30 rounded-2xl border-2 border-dashed border-indigo-100">
-          <input type="file" accept="image/*" className="hidden" ref={fileInputRef} onChange={handleFileUpload} />
-          <button onClick={() => fileInputRef.current?.click()} disabled={loading} className={`px-12 py-6 bg-indigo-600 text-white rounded-2xl font-bold text-xl shadow-2xl transition-all ${loading ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105 active:scale-95'}`}>{loading ? "閱卷中..." : "📷 拍照上傳 (15題)"}</button>
+        <AnswerInputToggle mode={inputMode} onChange={setInputMode} disabled={loading} language={language} />
+        {/* 切換作答方式時保留手寫板上的筆畫 */}
+        <div className={inputMode === 'PAD' ? '' : 'hidden'}>
+          {questions.length > 0 && <HandwritingPad questions={questions.map(q => isZH ? q.nameZH : q.nameEN)} language={language} loading={loading} submitLabel={loading ? (isZH ? "閱卷中..." : "Marking...") : (isZH ? "提交批改 (15題)" : "Submit for marking (15)")} onSubmit={(strokes, images) => submitAnswers(images, strokes)} />}
+        </div>
+        <div className={inputMode === 'PHOTO' ? '' : 'hidden'}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3 mb-10">{questions.map((q, i) => (<div key={i} className="bg-slate-50 p-4 rounded-xl border border-slate-100 font-bold text-slate-800 flex justify-between shadow-sm"><span>{i+1}. {isZH ? q.nameZH : q.nameEN}</span></div>))}</div>
+          <div className="text-center p-8 bg-indigo-50/30 rounded-2xl border-2 border-dashed border-indigo-100">
+            <input type="file" accept="image/*" className="hidden" ref={fileInputRef} onChange={handleFileUpload} />
+            <button onClick={() => fileInputRef.current?.click()} disabled={loading} className={`px-12 py-6 bg-indigo-600 text-white rounded-2xl font-bold text-xl shadow-2xl transition-all ${loading ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105 active:scale-95'}`}>{loading ? "閱卷中..." : "📷 拍照上傳 (15題)"}</button>
+          </div>
         </div>
+        {gradingError && <div className="text-center"><GradingError reason={gradingError} language={language} /></div>}
       </div>
     </div>
   );
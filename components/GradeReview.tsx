@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { HandwritingStroke, Language, UserProfile } from '../types';
+import { formatFormula } from '../utils';
+import { PAD_WIDTH, PAD_HEIGHT, drawStrokes } from '../services/handwriting';
+import { HANDWRITTEN_STAGES, HandwrittenStage, ReviewItem, VerdictOverride, getReviewQueue, applyReview, describeChange } from '../services/gradeReview';
+import { getUser, listUsers, subscribeStorageChanges } from '../services/repository';
+
+interface Props {
+  onBack: () => void;
+  language: Language;
+  user: UserProfile; // 進行覆核的老師
+  onSaveUser: (user: UserProfile) => void;
+}
+
+// 手寫板作答的一格，以保存的筆畫重畫
+const StrokePreview: React.FC<{ strokes: HandwritingStroke[] }> = ({ strokes }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    drawStrokes(ctx, strokes, PAD_WIDTH, PAD_HEIGHT);
+  }, [strokes]);
+  return <canvas ref={canvasRef} width={PAD_WIDTH} height={PAD_HEIGHT} className="w-full rounded-lg border border-slate-200" style={{ aspectRatio: `${PAD_WIDTH} / ${PAD_HEIGHT}` }} />;
+};
+
+const GradeReview: React.FC<Props> = ({ onBack, language, user, onSaveUser }) => {
+  const [queue, setQueue] = useState<ReviewItem[]>(() => getReviewQueue(listUsers()));
+  const [selected, setSelected] = useState<{ userName: string, stage: HandwrittenStage } | null>(null);
+  const [overrides, setOverrides] = useState<Record<number, VerdictOverride>>({});
+  const [message, setMessage] = useState('');
+
+  const txt = {
+    ZH: {
+      back: "返回",
+      title: "覆核手寫測驗",
+      empty: "暫時沒有可覆核的手寫測驗。",
+      stage: (n: number) => `階段 ${n}`,
+      pending: "待覆核",
+      reviewed: (by: string) => `已由 ${by} 覆核`,
+      open: "覆核",
+      toQueue: "返回列表",
+      submission: "學生作答",
+      noSubmission: "此紀錄沒有保存作答圖片。",
+      expected: "答案",
+      read: "AI 讀出",
+      blank: "（空白）",
+      aiMarked: "AI 判定",
+      correct: "正確",
+      wrong: "錯誤",
+      markCorrect: "改為正確",
+      markWrong: "改為錯誤",
+      undo: "取消更改",
+      reason: "更改原因（學生會看到）",
+      save: "儲存覆核",
+      needReason: "每項更改都要填寫原因。",
+      saved: "已儲存覆核，分數已重新計算。",
+      history: "更改紀錄",
+      score: "分數"
+    },
+    EN: {
+      back: "Back",
+      title: "Review Handwritten Tests",
+      empty: "No handwritten tests to review.",
+      stage: (n: number) => `Stage ${n}`,
+      pending: "Pending",
+      reviewed: (by: string) => `Reviewed by ${by}`,
+      open: "Review",
+      toQueue: "Back to list",
+      submission: "Student's answers",
+      noSubmission: "No image was saved with this result.",
+      expected: "Answer",
+      read: "AI read",
+      blank: "(blank)",
+      aiMarked: "AI marked",
+      correct: "correct",
+      wrong: "wrong",
+      markCorrect: "Mark correct",
+      markWrong: "Mark wrong",
+      undo: "Undo change",
+      reason: "Reason for the change (shown to the student)",
+      save: "Save review",
+      needReason: "Every change needs a reason.",
+      saved: "Review saved and score recalculated.",
+      history: "Change log",
+      score: "Score"
+    }
+  }[language];
+
+  const refresh = () => setQueue(getReviewQueue(listUsers()));
+
+  // 學生在其他分頁提交或其他老師覆核後即時更新列表
+  useEffect(() => subscribeStorageChanges(stores => {
+    if (stores.includes('results')) refresh();
+  }), []);
+
+  const item = selected && queue.find(q => q.userName === selected.userName && q.stage === selected.stage);
+
+  const openItem = (next: ReviewItem) => {
+    setSelected({ userName: next.userName, stage: next.stage });
+    setOverrides({});
+    setMessage('');
+  };
+
+  const toggleOverride = (index: number, isCorrect: boolean) => {
+    setOverrides(prev => {
+      const { [index]: existing, ...rest } = prev;
+      return existing ? rest : { ...prev, [index]: { index, isCorrect: !isCorrect, reason: '' } };
+    });
+  };
+
+  const pending: VerdictOverride[] = Object.keys(overrides).map(index => overrides[Number(index)]);
+  const missingReason = pending.some(o => !o.reason.trim());
+
+  const handleSave = () => {
+    if (!item || missingReason) return;
+    const student = getUser(item.userName);
+    if (!student) return;
+    // 以最新的學生資料套用更改，以免覆蓋期間的其他進度
+    const key = HANDWRITTEN_STAGES[item.stage];
+    onSaveUser({ ...student, [key]: applyReview(student[key]!, pending, user.name) });
+    setOverrides({});
+    setMessage(txt.saved);
+    refresh();
+  };
+
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(language === 'ZH' ? 'zh-HK' : 'en-GB');
+
+  const header = (
+    <div className="flex justify-between items-center mb-8 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <button onClick={item ? () => setSelected(null) : onBack} className="text-slate-500 hover:text-slate-800 font-medium text-lg flex items-center">
+        <svg className="w-6 h-6 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+        {item ? txt.toQueue : txt.back}
+      </button>
+      <h1 className="text-2xl font-bold text-slate-800">{txt.title}</h1>
+      <div className="w-16" />
+    </div>
+  );
+
+  if (!item) {
+    return (
+      <div className="max-w-5xl mx-auto w-full px-2 mb-20 animate-fade-in">
+        {header}
+        {queue.length === 0 ? (
+          <p className="text-slate-400">{txt.empty}</p>
+        ) : (
+          <div className="space-y-3">
+            {queue.map(q => (
+              <div key={`${q.userName}-${q.stage}`} className="bg-white p-5 rounded-xl shadow-sm border border-slate-100 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs font-bold mb-1">
+                    <span className={q.result.reviewedBy ? 'bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded' : 'bg-amber-50 text-amber-700 px-2 py-0.5 rounded'}>{q.result.reviewedBy ? txt.reviewed(q.result.reviewedBy) : txt.pending}</span>
+                    <span className="text-slate-400">{txt.stage(q.stage)}</span>
+                    <span className="text-slate-400">· {formatDate(q.result.timestamp)}</span>
+                  </div>
+                  <div className="text-xl font-bold text-slate-700">{q.userName}</div>
+                </div>
+                <div className="text-2xl font-black text-indigo-600">{q.result.score} / {q.result.details.length}</div>
+                <button onClick={() => openItem(q)} className="px-4 py-2 rounded-lg text-sm font-bold text-amber-700 hover:bg-amber-50">{txt.open}</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const { result } = item;
+  const submission = result.submission;
+  const previewScore = result.details.filter((d, i) => overrides[i] ? overrides[i].isCorrect : d.isCorrect).length;
+
+  return (
+    <div className="max-w-6xl mx-auto w-full px-2 mb-20 animate-fade-in">
+      {header}
+      <div className="flex flex-wrap items-baseline justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-slate-800">{item.userName} · {txt.stage(item.stage)}</h2>
+        <div className="text-lg font-bold text-slate-500">{txt.score}: <span className="text-3xl font-black text-indigo-600">{previewScore} / {result.details.length}</span></div>
+      </div>
+
+      <div className={`grid gap-6 ${submission?.kind === 'PHOTO' ? 'lg:grid-cols-2' : ''}`}>
+        {submission?.kind === 'PHOTO' && (
+          <div>
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{txt.submission}</div>
+            <img src={submission.image} alt={txt.submission} className="w-full rounded-xl border border-slate-200 lg:sticky lg:top-4" />
+          </div>
+        )}
+        <div className="space-y-3">
+          {!submission && <p className="text-sm text-slate-400">{txt.noSubmission}</p>}
+          {result.details.map((d, i) => {
+            const override = overrides[i];
+            const isCorrect = override ? override.isCorrect : d.isCorrect;
+            return (
+              <div key={i} className={`bg-white p-4 rounded-xl border ${isCorrect ? 'border-emerald-200' : 'border-rose-200'}`}>
+                <div className={`grid gap-4 ${submission?.kind === 'PAD' ? 'md:grid-cols-2' : ''}`}>
+                  {submission?.kind === 'PAD' && <StrokePreview strokes={submission.strokes[i] || []} />}
+                  <div>
+                    <div className="font-bold text-slate-800 mb-1">{i + 1}. {d.question}</div>
+                    <div className="text-sm text-slate-500">{txt.expected}: <span className="font-bold text-slate-800">{formatFormula(d.expected)}</span></div>
+                    <div className="text-sm text-slate-500">{txt.read}: <span className="font-bold text-slate-800">{d.userAnswer ? formatFormula(d.userAnswer) : txt.blank}</span></div>
+                    {d.aiCorrect !== undefined && <div className="text-sm text-slate-500">{txt.aiMarked}: <span className={d.aiCorrect ? 'font-bold text-emerald-600' : 'font-bold text-rose-600'}>{d.aiCorrect ? txt.correct : txt.wrong}</span></div>}
+                    {d.feedback && <div className="text-sm text-slate-400 italic">{d.feedback}</div>}
+                    <button onClick={() => toggleOverride(i, d.isCorrect)} className={`mt-2 px-3 py-1 rounded-lg text-sm font-bold ${override ? 'text-slate-500 hover:bg-slate-100' : d.isCorrect ? 'text-rose-600 hover:bg-rose-50' : 'text-emerald-700 hover:bg-emerald-50'}`}>
+                      {override ? txt.undo : d.isCorrect ? txt.markWrong : txt.markCorrect}
+                    </button>
+                    {override && (
+                      <input type="text" placeholder={txt.reason} value={override.reason} onChange={(e) => setOverrides(prev => ({ ...prev, [i]: { ...override, reason: e.target.value } }))} className="w-full mt-2 p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-amber-200 focus:border-amber-400 outline-none text-sm" />
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-6">
+        <button onClick={handleSave} disabled={missingReason} className="px-8 py-3 rounded-xl font-bold text-white bg-amber-500 hover:bg-amber-600 disabled:bg-slate-300 disabled:cursor-not-allowed shadow-sm transition-colors">{txt.save}</button>
+        {missingReason && <span className="text-sm font-bold text-rose-600">{txt.needReason}</span>}
+        {message && <span className="text-sm font-bold text-slate-600">{message}</span>}
+      </div>
+
+      {!!result.changes?.length && (
+        <div className="mt-8">
+          <h3 className="text-lg font-bold text-slate-800 mb-2">{txt.history}</h3>
+          <ul className="space-y-1 text-sm text-slate-600">{result.changes.map((c, i) => <li key={i}>{describeChange(c, language)}</li>)}</ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GradeReview;
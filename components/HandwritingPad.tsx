@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { HandwritingStroke, Language } from '../types';
+import { PAD_WIDTH, PAD_HEIGHT, drawStrokes, renderStrokes } from '../services/handwriting';
+
+interface Props {
+  questions: string[]; // 每格上方顯示的題目
+  language: Language;
+  loading: boolean;
+  submitLabel: string;
+  onSubmit: (strokes: HandwritingStroke[][], images: string[]) => void; // 每題一組筆畫及一張圖片
+}
+
+type PointerLike = { clientX: number; clientY: number; pressure: number };
+
+// 不支援壓力的裝置（滑鼠、部分觸控屏）回傳 0 或固定 0.5
+const pressureOf = (e: PointerLike) => e.pressure > 0 ? e.pressure : 0.5;
+
+// 限制在格內並取三位小數，保存的筆畫較細小
+const clamp = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+
+/**
+ * 一題的書寫格：筆、觸控或滑鼠均可，筆畫以比例座標保存。
+ */
+const DrawingBox: React.FC<{ strokes: HandwritingStroke[], disabled: boolean, onChange: (strokes: HandwritingStroke[]) => void }> = ({ strokes, disabled, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const current = useRef<HandwritingStroke | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    drawStrokes(ctx, strokes, PAD_WIDTH, PAD_HEIGHT);
+  }, [strokes]);
+
+  // 按住筆拖出格外時仍會收到事件
+  const pointOf = (e: PointerLike) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height), pressure: clamp(pressureOf(e)) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    current.current = [pointOf(e)];
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawStrokes(ctx, [current.current], PAD_WIDTH, PAD_HEIGHT);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = current.current;
+    if (!stroke) return;
+    // 取回瀏覽器合併了的中間點，快速書寫時線條才夠平滑
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const points = (events.length ? events : [e]).map(pointOf);
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawStrokes(ctx, [[stroke[stroke.length - 1], ...points]], PAD_WIDTH, PAD_HEIGHT);
+    stroke.push(...points);
+  };
+
+  const handlePointerUp = () => {
+    if (!current.current) return;
+    onChange([...strokes, current.current]);
+    current.current = null;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={PAD_WIDTH}
+      height={PAD_HEIGHT}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`w-full bg-white rounded-lg border-2 border-slate-200 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+      style={{ aspectRatio: `${PAD_WIDTH} / ${PAD_HEIGHT}` }}
+    />
+  );
+};
+
+/**
+ * 螢幕手寫板：每題一格，可逐格復原或清除，提交時匯出筆畫及每題一張圖片。
+ * 題目載入後才顯示；換題時以新的 key 重新建立。
+ */
+const HandwritingPad: React.FC<Props> = ({ questions, language, loading, submitLabel, onSubmit }) => {
+  const [boxes, setBoxes] = useState<HandwritingStroke[][]>(() => questions.map(() => []));
+
+  const t = {
+    ZH: { undo: "復原", clear: "清除", blank: (n: number) => `尚有 ${n} 題未作答` },
+    EN: { undo: "Undo", clear: "Clear", blank: (n: number) => `${n} question${n === 1 ? '' : 's'} left blank` },
+  }[language];
+
+  const updateBox = (index: number, strokes: HandwritingStroke[]) =>
+    setBoxes(prev => prev.map((box, i) => i === index ? strokes : box));
+
+  const blankCount = boxes.filter(box => box.length === 0).length;
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {questions.map((question, i) => (
+          <div key={i} className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-bold text-slate-800">{i + 1}. {question}</span>
+              <div className="flex gap-1">
+                <button onClick={() => updateBox(i, boxes[i].slice(0, -1))} disabled={loading || !boxes[i].length} className="px-2 py-1 text-xs font-bold rounded-md bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 disabled:opacity-40">↶ {t.undo}</button>
+                <button onClick={() => updateBox(i, [])} disabled={loading || !boxes[i].length} className="px-2 py-1 text-xs font-bold rounded-md bg-white border border-slate-200 text-rose-600 hover:bg-rose-50 disabled:opacity-40">✕ {t.clear}</button>
+              </div>
+            </div>
+            <DrawingBox strokes={boxes[i]} disabled={loading} onChange={strokes => updateBox(i, strokes)} />
+          </div>
+        ))}
+      </div>
+      <div className="text-center">
+        {blankCount > 0 && <div className="text-sm text-slate-400 mb-3">{t.blank(blankCount)}</div>}
+        <button onClick={() => onSubmit(boxes, boxes.map(renderStrokes))} disabled={loading || blankCount === boxes.length} className={`px-12 py-5 bg-indigo-600 text-white rounded-2xl font-bold text-lg shadow-xl transition-all ${loading || blankCount === boxes.length ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105 active:scale-95'}`}>{submitLabel}</button>
+      </div>
+    </div>
+  );
+};
+
+export default HandwritingPad;
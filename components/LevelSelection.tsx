@@ -103,7 +103,9 @@ const LevelSelection: React.FC<Props> = ({ onSelectScreen, language, setLanguage
       level3Title: "第三關：方程式建構",
       level3Desc: "根據文字描述，選出正確的反應物和生成物，建構完整的化學方程式。",
       level3Example: "例如：鎂燃燒 → 選出 Mg, O₂ 和 MgO",
-      level3Btn: "開始建構"
+      level3Btn: "開始建構",
+      authoring: "編寫題目",
+      review: "覆核成績"
     },
     EN: {
       title: "Chemistry Master",
@@ -122,7 +124,9 @@ const LevelSelection: React.FC<Props> = ({ onSelectScreen, language, setLanguage
       level3Title: "Level 3: Equation Builder",
       level3Desc: "Construct the full chemical equation from a text description by selecting the correct species.",
       level3Example: "Ex: Burning Magnesium → Pick Mg, O₂, MgO",
-      level3Btn: "Start Building"
+      level3Btn: "Start Building",
+      authoring: "Author Questions",
+      review: "Review Grades"
     }
   };
 
@@ -155,6 +159,24 @@ const LevelSelection: React.FC<Props> = ({ onSelectScreen, language, setLanguage
               </button>
            </div>
 
+           {/* Teacher Tools */}
+           {user.role === 'TEACHER' && (
+             <button
+               onClick={() => onSelectScreen(Screen.TEACHER_AUTHORING)}
+               className="bg-white/80 backdrop-blur-sm px-4 py-2 rounded-full shadow-sm border border-amber-200 text-amber-700 font-bold text-sm hover:bg-amber-50 transition-colors"
+             >
+               {t.authoring}
+             </button>
+           )}
+           {user.role === 'TEACHER' && (
+             <button
+               onClick={() => onSelectScreen(Screen.TEACHER_REVIEW)}
+               className="bg-white/80 backdrop-blur-sm px-4 py-2 rounded-full shadow-sm border border-amber-200 text-amber-700 font-bold text-sm hover:bg-amber-50 transition-colors"
+             >
+               {t.review}
+             </button>
+           )}
+
            {/* Language Toggle */}
            <div className="bg-white p-1 rounded-full shadow-sm border border-slate-200 flex">
             <button
@@ -1,19 +1,25 @@
 import React, { useState } from 'react';
 import { Language } from '../types';
+import { isTeacherLoginEnabled } from '../services/teacherCode';
 
 interface Props {
-  onLogin: (name: string) => void;
+  onLogin: (name: string, teacherCode?: string) => Promise<boolean>; // 教師密碼錯誤時回傳 false
   language: Language;
   setLanguage: (lang: Language) => void;
 }
 
 const LoginScreen: React.FC<Props> = ({ onLogin, language, setLanguage }) => {
   const [name, setName] = useState('');
+  const [isTeacher, setIsTeacher] = useState(false);
+  const [teacherCode, setTeacherCode] = useState('');
+  const [codeError, setCodeError] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const teacherLoginEnabled = isTeacherLoginEnabled();
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim()) {
-      onLogin(name.trim());
+      setCodeError(!(await onLogin(name.trim(), isTeacher ? teacherCode : undefined)));
     }
   };
 
@@ -23,14 +29,20 @@ const LoginScreen: React.FC<Props> = ({ onLogin, language, setLanguage }) => {
       enterName: "請輸入您的名字開始遊戲",
       placeholder: "您的名字 (例如: Peter)",
       start: "開始學習",
-      desc: "我們會記錄您的學習進度，下次回來可以繼續挑戰！"
+      desc: "我們會記錄您的學習進度，下次回來可以繼續挑戰！",
+      teacher: "我是老師",
+      teacherCode: "教師密碼",
+      codeError: "教師密碼不正確。"
     },
     EN: {
       welcome: "Welcome to Chemistry Master",
       enterName: "Enter your name to start",
       placeholder: "Your Name (e.g. Peter)",
       start: "Start Learning",
-      desc: "We will save your progress so you can continue later!"
+      desc: "We will save your progress so you can continue later!",
+      teacher: "I am a teacher",
+      teacherCode: "Teacher passcode",
+      codeError: "Incorrect teacher passcode."
     }
   }[language];
 
@@ -85,6 +97,31 @@ const LoginScreen: React.FC<Props> = ({ onLogin, language, setLanguage }) => {
             />
           </div>
 
+          {teacherLoginEnabled && (
+            <div className="text-left space-y-3">
+              <label className="flex items-center text-sm font-bold text-slate-600 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={isTeacher}
+                  onChange={(e) => { setIsTeacher(e.target.checked); setCodeError(false); }}
+                  className="mr-2 w-4 h-4 accent-indigo-600"
+                />
+                {t.teacher}
+              </label>
+              {isTeacher && (
+                <input
+                  type="password"
+                  required
+                  className="block w-full px-3 py-3 border border-slate-300 rounded-xl bg-slate-50 placeholder-slate-400 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all"
+                  placeholder={t.teacherCode}
+                  value={teacherCode}
+                  onChange={(e) => { setTeacherCode(e.target.value); setCodeError(false); }}
+                />
+              )}
+              {codeError && <p className="text-sm text-rose-600 font-bold">{t.codeError}</p>}
+            </div>
+          )}
+
           <button
             type="submit"
             className="w-full flex justify-center py-4 px-4 border border-transparent text-lg font-bold rounded-xl text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-lg transition-transform active:scale-95"
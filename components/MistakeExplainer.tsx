@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Language, UserProfile } from '../types';
+import { MistakeExplanation, MistakeRequest } from '../services/aiProvider';
+import { requestExplanation, remainingExplanations, countExplanation, ExplanationFailure } from '../services/mistakeExplainer';
+import { getUser } from '../services/repository';
+
+interface Props {
+  request: MistakeRequest; // 換了錯誤答案時，父元件應以新的 key 重新建立
+  language: Language;
+  user: UserProfile;
+  onUserUpdate: (user: UserProfile) => void;
+}
+
+/**
+ * 「解釋我的錯誤」按鈕及 AI 的中英文解釋。
+ */
+const MistakeExplainer: React.FC<Props> = ({ request, language, user, onUserUpdate }) => {
+  const [loading, setLoading] = useState(false);
+  const [explanation, setExplanation] = useState<MistakeExplanation | null>(null);
+  const [failure, setFailure] = useState<ExplanationFailure | null>(null);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => { mounted.current = false; };
+  }, []);
+
+  const txt = {
+    ZH: {
+      explain: "🤖 解釋我的錯誤",
+      remaining: (n: number) => `今日尚餘 ${n} 次`,
+      loading: "正在分析...",
+      errors: {
+        NO_BUDGET: "今日的 AI 解釋次數已用完，明天再試吧。之前問過的錯誤仍可即時查看。",
+        OFFLINE: "未有設定 AI 服務，暫時無法解釋。",
+        FAILED: "暫時無法取得解釋，請稍後再試。"
+      }
+    },
+    EN: {
+      explain: "🤖 Explain my mistake",
+      remaining: (n: number) => `${n} left today`,
+      loading: "Thinking...",
+      errors: {
+        NO_BUDGET: "You have used today's AI explanations. Try again tomorrow. Mistakes you asked about before still show instantly.",
+        OFFLINE: "No AI service is set up, so explanations are not available.",
+        FAILED: "Could not get an explanation. Please try again later."
+      }
+    }
+  }[language];
+
+  const handleExplain = async () => {
+    setLoading(true);
+    setFailure(null);
+    const outcome = await requestExplanation(user, request);
+    // 等待期間練習進度可能已更新，用量要計入最新的用戶資料；已離開題目仍須計算
+    if ('explanation' in outcome && !outcome.cached) onUserUpdate(countExplanation(getUser(user.name) || user));
+    if (!mounted.current) return;
+    setLoading(false);
+    if ('reason' in outcome) {
+      setFailure(outcome.reason);
+      return;
+    }
+    setExplanation(outcome.explanation);
+  };
+
+  if (explanation) {
+    const [main, other] = language === 'ZH' ? [explanation.zh, explanation.en] : [explanation.en, explanation.zh];
+    return (
+      <div className="max-w-2xl mb-6 bg-indigo-50 border border-indigo-100 px-6 py-4 rounded-xl text-left animate-pop">
+        <p className="text-indigo-900 font-medium">{main}</p>
+        <p className="text-sm text-indigo-400 mt-2">{other}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center mb-6">
+      <button onClick={handleExplain} disabled={loading} className="px-5 py-2 text-indigo-600 bg-white border border-indigo-200 font-bold rounded-xl hover:bg-indigo-50 transition-all disabled:opacity-50">
+        {loading ? txt.loading : txt.explain} <span className="text-xs font-medium text-slate-400 ml-1">{txt.remaining(remainingExplanations(user))}</span>
+      </button>
+      {failure && <p className="text-sm text-slate-500 mt-2 max-w-md text-center">{txt.errors[failure]}</p>}
+    </div>
+  );
+};
+
+export default MistakeExplainer;
@@ -0,0 +1,420 @@
+import React, { useState, useMemo } from 'react';
+import { CustomQuestion, EquationComponent, EquationTopic, Language, ReactionCondition, UserProfile } from '../types';
+import { formatFormula, formatArrow } from '../utils';
+import { describeEquationError, serializeEquation } from '../services/equationParser';
+import { substanceName } from '../services/equationBank';
+import { checkAuthoredEquation, getCustomQuestions, saveCustomQuestion, deleteCustomQuestion, nextCustomId, customToEquation, EQUATION_TOPICS } from '../services/customContent';
+import BankTransfer from './BankTransfer';
+
+interface Props {
+  onBack: () => void;
+  language: Language;
+  user: UserProfile;
+}
+
+const DIFFICULTIES: CustomQuestion['difficulty'][] = ['easy', 'medium', 'hard'];
+const SIMPLE_CONDITIONS: ReactionCondition['type'][] = ['HEAT', 'LIGHT', 'UV_LIGHT'];
+
+const QuestionAuthoring: React.FC<Props> = ({ onBack, language, user }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [equationText, setEquationText] = useState('');
+  const [descriptionZH, setDescriptionZH] = useState('');
+  const [descriptionEN, setDescriptionEN] = useState('');
+  const [topic, setTopic] = useState<EquationTopic>('TOPIC_3_METALS');
+  const [difficulty, setDifficulty] = useState<CustomQuestion['difficulty']>('medium');
+  const [conditionTypes, setConditionTypes] = useState<ReactionCondition['type'][]>([]);
+  const [catalyst, setCatalyst] = useState('');
+  const [names, setNames] = useState<Record<string, [string, string]>>({});
+  const [saved, setSaved] = useState<CustomQuestion[]>(getCustomQuestions());
+  const [message, setMessage] = useState('');
+
+  const txt = {
+    ZH: {
+      back: "返回",
+      title: "編寫題目",
+      equation: "方程式",
+      equationHint: "例如：2Mg(s) + O2(g) -> 2MgO(s)，係數 1 可省略。",
+      preview: "預覽",
+      check: "即時檢查",
+      balanced: "原子及電荷均已平衡。",
+      unbalanced: "未平衡：",
+      left: "左",
+      right: "右",
+      charge: "電荷",
+      notLowest: "係數須為最簡整數比。",
+      notUnique: "此方程式沒有唯一的平衡答案，學生將無法使用提示或顯示答案。",
+      duplicate: "題庫中已有相同的方程式：",
+      names: "物質名稱",
+      nameZH: "中文名稱",
+      nameEN: "英文名稱",
+      descZH: "中文描述",
+      descEN: "英文描述",
+      topic: "課題",
+      difficulty: "難度",
+      conditions: "反應條件",
+      catalyst: "催化劑（化學式，可留空）",
+      save: "儲存題目",
+      update: "更新題目",
+      cancelEdit: "取消編輯",
+      missingFields: "請填寫中英文描述及所有物質的中英文名稱。",
+      savedMsg: "已儲存",
+      savedTitle: "已儲存的自訂題目",
+      noSaved: "尚未有自訂題目。",
+      edit: "編輯",
+      remove: "刪除",
+      by: "作者：",
+      builderNote: "氧化還原課題的題目只會出現在方程式平衡。",
+      difficultyNames: { easy: "容易", medium: "中等", hard: "困難" },
+      conditionNames: { HEAT: "加熱", LIGHT: "光", UV_LIGHT: "紫外光", CATALYST: "催化劑", TEXT: "" },
+      topicNames: {
+        TOPIC_1_2_EARTH_MICRO: "課題 1 & 2 地球與微觀世界",
+        TOPIC_1_EARTH: "課題 1 地球",
+        TOPIC_2_MICRO: "課題 2 微觀世界",
+        TOPIC_3_METALS: "課題 3 金屬",
+        TOPIC_4_ACIDS: "課題 4 酸和鹼",
+        TOPIC_6_ORGANIC: "課題 6 化石燃料和碳化合物",
+        TOPIC_7_PERIODICITY: "課題 7 週期律",
+        TOPIC_8_ENERGETICS: "課題 8 化學反應中的能量變化",
+        REDOX_HALF: "半反應式",
+        REDOX_FULL: "氧化還原反應式"
+      } as Record<string, string>
+    },
+    EN: {
+      back: "Back",
+      title: "Author Questions",
+      equation: "Equation",
+      equationHint: "e.g. 2Mg(s) + O2(g) -> 2MgO(s). A coefficient of 1 can be left out.",
+      preview: "Preview",
+      check: "Live Check",
+      balanced: "Atoms and charges are balanced.",
+      unbalanced: "Unbalanced: ",
+      left: "L",
+      right: "R",
+      charge: "Charge",
+      notLowest: "Coefficients must be in the lowest whole-number ratio.",
+      notUnique: "This equation has no unique balanced answer, so hints and Show Answer will not work.",
+      duplicate: "The same equation is already in the bank: ",
+      names: "Substance Names",
+      nameZH: "Chinese name",
+      nameEN: "English name",
+      descZH: "Chinese description",
+      descEN: "English description",
+      topic: "Topic",
+      difficulty: "Difficulty",
+      conditions: "Conditions",
+      catalyst: "Catalyst (formula, optional)",
+      save: "Save Question",
+      update: "Update Question",
+      cancelEdit: "Cancel Edit",
+      missingFields: "Fill in both descriptions and the Chinese and English name of every substance.",
+      savedMsg: "Saved",
+      savedTitle: "Saved Custom Questions",
+      noSaved: "No custom questions yet.",
+      edit: "Edit",
+      remove: "Delete",
+      by: "By ",
+      builderNote: "Redox questions only appear in Equation Balancing.",
+      difficultyNames: { easy: "Easy", medium: "Medium", hard: "Hard" },
+      conditionNames: { HEAT: "heat", LIGHT: "light", UV_LIGHT: "UV light", CATALYST: "catalyst", TEXT: "" },
+      topicNames: {
+        TOPIC_1_2_EARTH_MICRO: "Topic 1 & 2 Planet Earth & Micro World",
+        TOPIC_1_EARTH: "Topic 1 Planet Earth",
+        TOPIC_2_MICRO: "Topic 2 Microscopic World",
+        TOPIC_3_METALS: "Topic 3 Metals",
+        TOPIC_4_ACIDS: "Topic 4 Acids and Bases",
+        TOPIC_6_ORGANIC: "Topic 6 Fossil Fuels and Carbon Compounds",
+        TOPIC_7_PERIODICITY: "Topic 7 Periodicity",
+        TOPIC_8_ENERGETICS: "Topic 8 Chemical Reactions and Energy",
+        REDOX_HALF: "Half equation",
+        REDOX_FULL: "Full redox equation"
+      } as Record<string, string>
+    }
+  }[language];
+
+  const check = useMemo(() => checkAuthoredEquation(equationText, editingId || undefined), [equationText, editingId, saved]);
+
+  // 方程式中需要名稱的物質（電子除外），不重複
+  const species = useMemo(() => {
+    if (!check.equation) return [];
+    const all = [...check.equation.reactants, ...check.equation.products].filter(c => c.formula !== 'e^-');
+    return all.filter((c, i) => all.findIndex(other => other.formula === c.formula) === i);
+  }, [check]);
+
+  // 教師未修改的名稱以物質名稱表或離子命名推算
+  const nameOf = (component: EquationComponent): [string, string] => {
+    if (names[component.formula]) return names[component.formula];
+    const found = substanceName(component.formula, component.state);
+    return found ? [found.nameZH, found.nameEN] : ['', ''];
+  };
+
+  const conditions: ReactionCondition[] = [
+    ...conditionTypes.map(type => ({ type })),
+    ...(catalyst.trim() ? [{ type: 'CATALYST' as const, detail: catalyst.trim() }] : []),
+  ];
+
+  const formatCharge = (charge: number) => charge > 0 ? `+${charge}` : `${charge}`;
+
+  const checkMessages = (): { ok: boolean; text: string }[] => {
+    if (equationText.trim() === '') return [];
+    if (!check.equation) return check.parseErrors.map(e => ({ ok: false, text: describeEquationError(e, language) }));
+    const messages: { ok: boolean; text: string }[] = [];
+    const report = check.imbalance!;
+    if (report.isBalanced) {
+      messages.push({ ok: true, text: txt.balanced });
+    } else {
+      const issues = report.elements.map(e => `${e.element} (${txt.left} ${e.left}, ${txt.right} ${e.right})`);
+      if (report.chargeLeft !== report.chargeRight) {
+        issues.push(`${txt.charge} (${txt.left} ${formatCharge(report.chargeLeft)}, ${txt.right} ${formatCharge(report.chargeRight)})`);
+      }
+      messages.push({ ok: false, text: `${txt.unbalanced}${issues.join('; ')}` });
+    }
+    if (!check.lowestRatio) messages.push({ ok: false, text: txt.notLowest });
+    if (!check.uniqueAnswer) messages.push({ ok: false, text: txt.notUnique });
+    if (check.duplicateOf) messages.push({ ok: false, text: `${txt.duplicate}${check.duplicateOf}` });
+    return messages;
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setEquationText('');
+    setDescriptionZH('');
+    setDescriptionEN('');
+    setConditionTypes([]);
+    setCatalyst('');
+    setNames({});
+  };
+
+  const handleSave = () => {
+    if (!check.isValid || !check.equation) return;
+    const speciesNames: Record<string, [string, string]> = {};
+    species.forEach(c => { speciesNames[c.formula] = nameOf(c).map(n => n.trim()) as [string, string]; });
+    const missingName = Object.values(speciesNames).some(([zh, en]) => !zh || !en);
+    if (!descriptionZH.trim() || !descriptionEN.trim() || missingName) {
+      setMessage(txt.missingFields);
+      return;
+    }
+    const previous = saved.find(q => q.id === editingId);
+    const question: CustomQuestion = {
+      id: editingId || nextCustomId(),
+      equation: serializeEquation(check.equation, '->'),
+      difficulty,
+      topic,
+      descriptionZH: descriptionZH.trim(),
+      descriptionEN: descriptionEN.trim(),
+      names: speciesNames,
+      author: previous ? previous.author : user.name,
+      createdAt: previous ? previous.createdAt : Date.now(),
+    };
+    if (conditions.length > 0) question.conditions = conditions;
+    saveCustomQuestion(question);
+    setSaved(getCustomQuestions());
+    setMessage(`${txt.savedMsg} ${question.id}`);
+    resetForm();
+  };
+
+  const handleEdit = (question: CustomQuestion) => {
+    setEditingId(question.id);
+    setEquationText(question.equation);
+    setDescriptionZH(question.descriptionZH);
+    setDescriptionEN(question.descriptionEN);
+    setTopic(question.topic);
+    setDifficulty(question.difficulty);
+    const loaded = question.conditions || [];
+    setConditionTypes(loaded.filter(c => c.type !== 'CATALYST').map(c => c.type));
+    setCatalyst(loaded.find(c => c.type === 'CATALYST')?.detail || '');
+    setNames(question.names);
+    setMessage('');
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCustomQuestion(id);
+    setSaved(getCustomQuestions());
+    if (editingId === id) resetForm();
+  };
+
+  const toggleCondition = (type: ReactionCondition['type']) => {
+    setConditionTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const renderSide = (list: EquationComponent[]) => list.map((c, i) => (
+    <React.Fragment key={i}>
+      {i > 0 && <span className="mx-2 text-slate-400">+</span>}
+      {c.coefficient !== 1 && <span className="mr-0.5">{c.coefficient}</span>}
+      {formatFormula(c.state ? `${c.formula}(${c.state})` : c.formula)}
+    </React.Fragment>
+  ));
+
+  const inputClass = "w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-amber-200 focus:border-amber-400 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2";
+
+  return (
+    <div className="max-w-5xl mx-auto w-full px-2 mb-20 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-8 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <button onClick={onBack} className="text-slate-500 hover:text-slate-800 font-medium text-lg flex items-center">
+          <svg className="w-6 h-6 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+          {txt.back}
+        </button>
+        <h1 className="text-2xl font-bold text-slate-800">{txt.title}</h1>
+        <div className="w-16" />
+      </div>
+
+      <div className="bg-white p-8 rounded-2xl shadow-md border-l-4 border-amber-500 mb-10 space-y-6">
+        {/* Equation */}
+        <div>
+          <label className={labelClass}>{txt.equation}</label>
+          <input
+            type="text"
+            value={equationText}
+            onChange={(e) => { setEquationText(e.target.value); setMessage(''); }}
+            className={`${inputClass} font-mono text-xl`}
+          />
+          <p className="text-xs text-slate-400 mt-2">{txt.equationHint}</p>
+        </div>
+
+        {/* Preview & Live Check */}
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <div className={labelClass}>{txt.preview}</div>
+            <div className="min-h-[3rem] text-2xl text-slate-700 font-bold flex flex-wrap items-center">
+              {check.equation && (
+                <>
+                  {renderSide(check.equation.reactants)}
+                  <span className="mx-3">{formatArrow(conditions, language)}</span>
+                  {renderSide(check.equation.products)}
+                </>
+              )}
+            </div>
+          </div>
+          <div>
+            <div className={labelClass}>{txt.check}</div>
+            <ul className="space-y-1 text-sm font-bold">
+              {checkMessages().map((m, i) => (
+                <li key={i} className={m.ok ? 'text-emerald-600' : 'text-rose-600'}>{m.ok ? '✓' : '✗'} {m.text}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {/* Substance Names */}
+        {species.length > 0 && (
+          <div>
+            <div className={labelClass}>{txt.names}</div>
+            <div className="space-y-2">
+              {species.map(c => {
+                const [zh, en] = nameOf(c);
+                return (
+                  <div key={c.formula} className="grid grid-cols-[8rem_1fr_1fr] gap-3 items-center">
+                    <span className="text-xl font-bold text-slate-700">{formatFormula(c.formula)}</span>
+                    <input type="text" placeholder={txt.nameZH} value={zh} onChange={(e) => setNames(prev => ({ ...prev, [c.formula]: [e.target.value, en] }))} className={inputClass} />
+                    <input type="text" placeholder={txt.nameEN} value={en} onChange={(e) => setNames(prev => ({ ...prev, [c.formula]: [zh, e.target.value] }))} className={inputClass} />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Descriptions */}
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <label className={labelClass}>{txt.descZH}</label>
+            <textarea rows={2} value={descriptionZH} onChange={(e) => setDescriptionZH(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{txt.descEN}</label>
+            <textarea rows={2} value={descriptionEN} onChange={(e) => setDescriptionEN(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        {/* Topic, Difficulty & Conditions */}
+        <div className="grid md:grid-cols-3 gap-6">
+          <div>
+            <label className={labelClass}>{txt.topic}</label>
+            <select value={topic} onChange={(e) => setTopic(e.target.value as EquationTopic)} className={inputClass}>
+              {EQUATION_TOPICS.map(id => <option key={id} value={id}>{txt.topicNames[id]}</option>)}
+            </select>
+            {topic.startsWith('REDOX') && <p className="text-xs text-slate-400 mt-2">{txt.builderNote}</p>}
+          </div>
+          <div>
+            <label className={labelClass}>{txt.difficulty}</label>
+            <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as CustomQuestion['difficulty'])} className={inputClass}>
+              {DIFFICULTIES.map(d => <option key={d} value={d}>{txt.difficultyNames[d]}</option>)}
+            </select>
+          </div>
+          <div>
+            <div className={labelClass}>{txt.conditions}</div>
+            <div className="flex flex-wrap gap-4 mb-2">
+              {SIMPLE_CONDITIONS.map(type => (
+                <label key={type} className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer select-none">
+                  <input type="checkbox" checked={conditionTypes.includes(type)} onChange={() => toggleCondition(type)} className="w-4 h-4 accent-amber-500" />
+                  {txt.conditionNames[type]}
+                </label>
+              ))}
+            </div>
+            <input type="text" placeholder={txt.catalyst} value={catalyst} onChange={(e) => setCatalyst(e.target.value)} className={`${inputClass} font-mono`} />
+          </div>
+        </div>
+
+        {/* Save */}
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            onClick={handleSave}
+            disabled={!check.isValid}
+            className="px-8 py-3 rounded-xl font-bold text-white bg-amber-500 hover:bg-amber-600 disabled:bg-slate-300 disabled:cursor-not-allowed shadow-sm transition-colors"
+          >
+            {editingId ? `${txt.update} ${editingId}` : txt.save}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="px-6 py-3 rounded-xl font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+              {txt.cancelEdit}
+            </button>
+          )}
+          {message && <span className="text-sm font-bold text-slate-600">{message}</span>}
+        </div>
+      </div>
+
+      <BankTransfer language={language} user={user} onImported={() => setSaved(getCustomQuestions())} />
+
+      {/* Saved Questions */}
+      <h2 className="text-xl font-bold text-slate-800 mb-4">{txt.savedTitle}</h2>
+      {saved.length === 0 ? (
+        <p className="text-slate-400">{txt.noSaved}</p>
+      ) : (
+        <div className="space-y-3">
+          {saved.map(q => {
+            const equation = customToEquation(q);
+            return (
+              <div key={q.id} className="bg-white p-5 rounded-xl shadow-sm border border-slate-100 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs font-bold mb-2">
+                    <span className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded">{q.id}</span>
+                    <span className="text-slate-400">{txt.topicNames[q.topic]}</span>
+                    <span className="text-slate-400">· {txt.difficultyNames[q.difficulty]}</span>
+                    <span className="text-slate-400">· {txt.by}{q.author}</span>
+                  </div>
+                  <div className="text-xl font-bold text-slate-700 flex flex-wrap items-center mb-1">
+                    {equation ? (
+                      <>
+                        {renderSide(equation.reactants)}
+                        <span className="mx-3">{formatArrow(equation.conditions, language)}</span>
+                        {renderSide(equation.products)}
+                      </>
+                    ) : q.equation}
+                  </div>
+                  <p className="text-sm text-slate-500">{language === 'ZH' ? q.descriptionZH : q.descriptionEN}</p>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => handleEdit(q)} className="px-4 py-2 rounded-lg text-sm font-bold text-amber-700 hover:bg-amber-50">{txt.edit}</button>
+                  <button onClick={() => handleDelete(q.id)} className="px-4 py-2 rounded-lg text-sm font-bold text-rose-600 hover:bg-rose-50">{txt.remove}</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionAuthoring;
@@ -0,0 +1,56 @@
+import React, { useState, useEffect } from 'react';
+import { Language } from '../types';
+import { StorageStatus, getStorageStatus, subscribeStorageStatus, retrySaves } from '../services/repository';
+
+interface Props {
+  language: Language;
+}
+
+/**
+ * 進度未能儲存時的提示列：空間不足、寫入失敗，或瀏覽器不容許任何儲存。
+ * 未寫入的進度仍保留在此分頁，學生可以處理後按重試。
+ */
+const StorageWarning: React.FC<Props> = ({ language }) => {
+  const [status, setStatus] = useState<StorageStatus>(getStorageStatus);
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => subscribeStorageStatus(setStatus), []);
+
+  const txt = {
+    ZH: {
+      QUOTA: "瀏覽器儲存空間已滿，最新進度未能儲存。請清理瀏覽器空間（或請老師刪除部分自訂題目）後按重試，重試成功前請勿關閉此分頁。",
+      FAILED: "最新進度未能儲存。請按重試，重試成功前請勿關閉此分頁。",
+      memory: "此瀏覽器不容許儲存資料（可能是私隱模式），關閉分頁後進度會消失。",
+      retry: "重試",
+      retrying: "正在重試..."
+    },
+    EN: {
+      QUOTA: "Browser storage is full, so your latest progress was not saved. Free some space (or ask your teacher to delete some custom questions), then press Retry. Keep this tab open until it succeeds.",
+      FAILED: "Your latest progress was not saved. Press Retry, and keep this tab open until it succeeds.",
+      memory: "This browser does not allow saving data (private mode?). Progress will be lost when you close the tab.",
+      retry: "Retry",
+      retrying: "Retrying..."
+    }
+  }[language];
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    await retrySaves();
+    setRetrying(false);
+  };
+
+  if (status.problem) {
+    return (
+      <div className="sticky top-0 z-50 bg-rose-50 border-b border-rose-200 text-rose-700 px-4 py-3 flex flex-wrap items-center justify-center gap-3 text-sm font-medium">
+        <span>⚠️ {txt[status.problem]}</span>
+        <button onClick={handleRetry} disabled={retrying} className="px-4 py-1 rounded-lg bg-rose-600 text-white font-bold hover:bg-rose-700 disabled:opacity-50">{retrying ? txt.retrying : txt.retry}</button>
+      </div>
+    );
+  }
+  if (status.backend === 'memory') {
+    return <div className="bg-amber-50 border-b border-amber-200 text-amber-700 px-4 py-2 text-center text-sm font-medium">⚠️ {txt.memory}</div>;
+  }
+  return null;
+};
+
+export default StorageWarning;
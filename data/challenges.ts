@@ -0,0 +1,134 @@
+import { EquationChallenge, EquationTopic } from '../types';
+
+// 各課題組對應的方程式課題
+export const CHALLENGE_TOPICS: Record<string, EquationTopic> = {
+  TOPIC_1_2: 'TOPIC_1_2_EARTH_MICRO',
+  TOPIC_3: 'TOPIC_3_METALS',
+  TOPIC_4: 'TOPIC_4_ACIDS',
+  TOPIC_6: 'TOPIC_6_ORGANIC',
+  TOPIC_7: 'TOPIC_7_PERIODICITY',
+  TOPIC_8: 'TOPIC_8_ENERGETICS',
+};
+
+// 分課題存儲挑戰題目，每題同時包含中英文描述
+export const CHALLENGES_BY_TOPIC: Record<string, EquationChallenge[]> = {
+  TOPIC_1_2: [
+    {
+      id: "B12-001",
+      descriptionZH: "加熱碳酸鈣固體，發生熱分解生成氧化鈣和二氧化碳。",
+      descriptionEN: "Heating calcium carbonate solid to undergo thermal decomposition, forming calcium oxide and carbon dioxide.",
+      reactants: [{ formula: "CaCO3", coefficient: 1, state: "s" }],
+      products: [{ formula: "CaO", coefficient: 1, state: "s" }, { formula: "CO2", coefficient: 1, state: "g" }],
+      conditions: [{ type: "HEAT" }]
+    },
+    {
+      id: "B12-002",
+      descriptionZH: "碳酸鈣與水及二氧化碳反應，生成碳酸氫鈣。",
+      descriptionEN: "Calcium carbonate reacts with water and carbon dioxide to form calcium hydrogencarbonate.",
+      reactants: [{ formula: "CaCO3", coefficient: 1, state: "s" }, { formula: "H2O", coefficient: 1, state: "l" }, { formula: "CO2", coefficient: 1, state: "g" }],
+      products: [{ formula: "Ca(HCO3)2", coefficient: 1, state: "aq" }]
+    },
+    {
+      id: "B12-003",
+      descriptionZH: "鈉在氯氣中燃燒生成氯化鈉。",
+      descriptionEN: "Sodium burns in chlorine to form sodium chloride.",
+      reactants: [{ formula: "Na", coefficient: 2, state: "s" }, { formula: "Cl2", coefficient: 1, state: "g" }],
+      products: [{ formula: "NaCl", coefficient: 2, state: "s" }]
+    }
+  ],
+  TOPIC_3: [
+    {
+      id: "B3-001",
+      descriptionZH: "鎂在氧氣中燃燒生成氧化鎂。",
+      descriptionEN: "Magnesium burns in oxygen to form magnesium oxide.",
+      reactants: [{ formula: "Mg", coefficient: 2, state: "s" }, { formula: "O2", coefficient: 1, state: "g" }],
+      products: [{ formula: "MgO", coefficient: 2, state: "s" }]
+    },
+    {
+      id: "B3-002",
+      descriptionZH: "鋁在氯氣中燃燒生成氯化鋁。",
+      descriptionEN: "Aluminium burns in chlorine to form aluminium chloride.",
+      reactants: [{ formula: "Al", coefficient: 2, state: "s" }, { formula: "Cl2", coefficient: 3, state: "g" }],
+      products: [{ formula: "AlCl3", coefficient: 2, state: "s" }]
+    },
+    {
+      id: "B3-003",
+      descriptionZH: "銅片放入硝酸銀溶液中，置換出銀並生成硝酸銅(II)。",
+      descriptionEN: "A copper strip is placed in silver nitrate solution, displacing silver and forming copper(II) nitrate.",
+      reactants: [{ formula: "Cu", coefficient: 1, state: "s" }, { formula: "AgNO3", coefficient: 2, state: "aq" }],
+      products: [{ formula: "Cu(NO3)2", coefficient: 1, state: "aq" }, { formula: "Ag", coefficient: 2, state: "s" }]
+    }
+  ],
+  TOPIC_4: [
+    {
+      id: "B4-001",
+      descriptionZH: "鋅與稀鹽酸反應，生成氯化鋅和氫氣。",
+      descriptionEN: "Zinc reacts with dilute hydrochloric acid to produce zinc chloride and hydrogen gas.",
+      reactants: [{ formula: "Zn", coefficient: 1, state: "s" }, { formula: "HCl", coefficient: 2, state: "aq" }],
+      products: [{ formula: "ZnCl2", coefficient: 1, state: "aq" }, { formula: "H2", coefficient: 1, state: "g" }]
+    },
+    {
+      id: "B4-002",
+      descriptionZH: "氫氧化鈉溶液與稀硫酸反應，發生中和反應生成硫酸鈉和水。",
+      descriptionEN: "Sodium hydroxide solution neutralises dilute sulphuric acid to form sodium sulphate and water.",
+      reactants: [{ formula: "NaOH", coefficient: 2, state: "aq" }, { formula: "H2SO4", coefficient: 1, state: "aq" }],
+      products: [{ formula: "Na2SO4", coefficient: 1, state: "aq" }, { formula: "H2O", coefficient: 2, state: "l" }]
+    },
+    {
+      id: "B4-003",
+      descriptionZH: "碳酸氫鈉與鹽酸反應，生成氯化鈉、二氧化碳和水。",
+      descriptionEN: "Sodium hydrogencarbonate reacts with hydrochloric acid to form sodium chloride, carbon dioxide and water.",
+      reactants: [{ formula: "NaHCO3", coefficient: 1, state: "s" }, { formula: "HCl", coefficient: 1, state: "aq" }],
+      products: [{ formula: "NaCl", coefficient: 1, state: "aq" }, { formula: "CO2", coefficient: 1, state: "g" }, { formula: "H2O", coefficient: 1, state: "l" }]
+    }
+  ],
+  TOPIC_6: [
+    {
+      id: "B6-001",
+      descriptionZH: "甲烷在氧氣中完全燃燒，生成二氧化碳和水。",
+      descriptionEN: "Methane burns completely in oxygen to produce carbon dioxide and water.",
+      reactants: [{ formula: "CH4", coefficient: 1, state: "g" }, { formula: "O2", coefficient: 2, state: "g" }],
+      products: [{ formula: "CO2", coefficient: 1, state: "g" }, { formula: "H2O", coefficient: 2, state: "l" }]
+    },
+    {
+      id: "B6-002",
+      descriptionZH: "乙烯在氧氣中完全燃燒，生成二氧化碳和水。",
+      descriptionEN: "Ethene burns completely in oxygen to produce carbon dioxide and water.",
+      reactants: [{ formula: "C2H4", coefficient: 1, state: "g" }, { formula: "O2", coefficient: 3, state: "g" }],
+      products: [{ formula: "CO2", coefficient: 2, state: "g" }, { formula: "H2O", coefficient: 2, state: "l" }]
+    }
+  ],
+  TOPIC_7: [
+    {
+      id: "B7-001",
+      descriptionZH: "氯氣與溴化鉀溶液反應，置換出溴並生成氯化鉀。",
+      descriptionEN: "Chlorine reacts with potassium bromide solution, displacing bromine and forming potassium chloride.",
+      reactants: [{ formula: "Cl2", coefficient: 1, state: "aq" }, { formula: "KBr", coefficient: 2, state: "aq" }],
+      products: [{ formula: "Br2", coefficient: 1, state: "aq" }, { formula: "KCl", coefficient: 2, state: "aq" }]
+    },
+    {
+      id: "B7-002",
+      descriptionZH: "鈉與水劇烈反應，生成氫氧化鈉和氫氣。",
+      descriptionEN: "Sodium reacts vigorously with water to form sodium hydroxide and hydrogen gas.",
+      reactants: [{ formula: "Na", coefficient: 2, state: "s" }, { formula: "H2O", coefficient: 2, state: "l" }],
+      products: [{ formula: "NaOH", coefficient: 2, state: "aq" }, { formula: "H2", coefficient: 1, state: "g" }]
+    }
+  ],
+  TOPIC_8: [
+    {
+      id: "B8-001",
+      descriptionZH: "氫氣在氧氣中燃燒生成水。",
+      descriptionEN: "Hydrogen burns in oxygen to form water.",
+      reactants: [{ formula: "H2", coefficient: 2, state: "g" }, { formula: "O2", coefficient: 1, state: "g" }],
+      products: [{ formula: "H2O", coefficient: 2, state: "l" }]
+    },
+    {
+      id: "B8-002",
+      descriptionZH: "光合作用：二氧化碳和水在光照下生成葡萄糖和氧氣。",
+      descriptionEN: "Photosynthesis: carbon dioxide and water form glucose and oxygen in sunlight.",
+      reactants: [{ formula: "CO2", coefficient: 6, state: "g" }, { formula: "H2O", coefficient: 6, state: "l" }],
+      products: [{ formula: "C6H12O6", coefficient: 1, state: "aq" }, { formula: "O2", coefficient: 6, state: "g" }],
+      conditions: [{ type: "LIGHT" }]
+    }
+  ]
+};
@@ -0,0 +1,23 @@
+import { EquationEntry, EquationTopic } from '../../types';
+import { TOPIC_1_EARTH } from './topic1Earth';
+import { TOPIC_2_MICRO } from './topic2Micro';
+import { TOPIC_3_METALS } from './topic3Metals';
+import { TOPIC_4_ACIDS } from './topic4Acids';
+import { TOPIC_6_ORGANIC } from './topic6Organic';
+import { TOPIC_7_PERIODICITY } from './topic7Periodicity';
+import { TOPIC_8_ENERGETICS } from './topic8Energetics';
+import { REDOX_HALF } from './redoxHalf';
+import { REDOX_FULL } from './redoxFull';
+
+// 各課題的題庫內容；合併課題（如 TOPIC_1_2_EARTH_MICRO）由 services/equationBank.ts 組合
+export const EQUATION_ENTRIES: Partial<Record<EquationTopic, EquationEntry[]>> = {
+  TOPIC_1_EARTH,
+  TOPIC_2_MICRO,
+  TOPIC_3_METALS,
+  TOPIC_4_ACIDS,
+  TOPIC_6_ORGANIC,
+  TOPIC_7_PERIODICITY,
+  TOPIC_8_ENERGETICS,
+  REDOX_HALF,
+  REDOX_FULL,
+};
@@ -0,0 +1,22 @@
+import { EquationEntry } from '../../types';
+
+// 氧化還原全反應式（離子方程式）
+export const REDOX_FULL: EquationEntry[] = [
+  { id: 'RF-001', equation: 'MnO4^-(aq) + 8H^+(aq) + 5Fe^2+(aq) -> Mn^2+(aq) + 4H2O(l) + 5Fe^3+(aq)', difficulty: 'hard' },
+  { id: 'RF-002', equation: 'Cr2O7^2-(aq) + 14H^+(aq) + 6Fe^2+(aq) -> 2Cr^3+(aq) + 6Fe^3+(aq) + 7H2O(l)', difficulty: 'hard' },
+  { id: 'RF-003', equation: 'Cl2(aq) + 2Fe^2+(aq) -> 2Cl^-(aq) + 2Fe^3+(aq)', difficulty: 'easy' },
+  { id: 'RF-004', equation: '2Fe^3+(aq) + 2I^-(aq) -> 2Fe^2+(aq) + I2(aq)', difficulty: 'easy' },
+  { id: 'RF-005', equation: 'Zn(s) + Cu^2+(aq) -> Zn^2+(aq) + Cu(s)', difficulty: 'easy' },
+  { id: 'RF-006', equation: 'Cl2(aq) + 2Br^-(aq) -> 2Cl^-(aq) + Br2(aq)', difficulty: 'easy' },
+  { id: 'RF-007', equation: '2MnO4^-(aq) + 16H^+(aq) + 10Cl^-(aq) -> 2Mn^2+(aq) + 5Cl2(g) + 8H2O(l)', difficulty: 'hard' },
+  { id: 'RF-008', equation: 'Cr2O7^2-(aq) + 8H^+(aq) + 3SO3^2-(aq) -> 2Cr^3+(aq) + 3SO4^2-(aq) + 4H2O(l)', difficulty: 'hard' },
+  { id: 'RF-009', equation: '2MnO4^-(aq) + 6H^+(aq) + 5SO3^2-(aq) -> 2Mn^2+(aq) + 5SO4^2-(aq) + 3H2O(l)', difficulty: 'hard' },
+  { id: 'RF-010', equation: '3Cu(s) + 8H^+(aq) + 2NO3^-(aq) -> 3Cu^2+(aq) + 2NO(g) + 4H2O(l)', difficulty: 'hard' },
+  { id: 'RF-011', equation: 'Cu(s) + 4H^+(aq) + 2NO3^-(aq) -> Cu^2+(aq) + 2NO2(g) + 2H2O(l)', difficulty: 'medium' },
+  { id: 'RF-012', equation: '2Fe^3+(aq) + SO3^2-(aq) + H2O(l) -> 2Fe^2+(aq) + SO4^2-(aq) + 2H^+(aq)', difficulty: 'medium' },
+  { id: 'RF-013', equation: 'I2(aq) + 2S2O3^2-(aq) -> 2I^-(aq) + S4O6^2-(aq)', difficulty: 'medium' },
+  { id: 'RF-014', equation: 'H2O2(aq) + 2Fe^2+(aq) + 2H^+(aq) -> 2Fe^3+(aq) + 2H2O(l)', difficulty: 'medium' },
+  { id: 'RF-015', equation: 'Mg(s) + 2H^+(aq) -> Mg^2+(aq) + H2(g)', difficulty: 'easy' },
+  { id: 'RF-016', equation: '2Al(s) + 3Cu^2+(aq) -> 2Al^3+(aq) + 3Cu(s)', difficulty: 'medium' },
+  { id: 'RF-017', equation: 'ClO^-(aq) + 2I^-(aq) + H2O(l) -> Cl^-(aq) + I2(aq) + 2OH^-(aq)', difficulty: 'medium' },
+];
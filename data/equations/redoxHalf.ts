@@ -0,0 +1,23 @@
+import { EquationEntry } from '../../types';
+
+// 氧化還原半反應式
+export const REDOX_HALF: EquationEntry[] = [
+  { id: 'RH-001', equation: 'MnO4^-(aq) + 8H^+(aq) + 5e^- -> Mn^2+(aq) + 4H2O(l)', difficulty: 'hard' },
+  { id: 'RH-002', equation: 'Cr2O7^2-(aq) + 14H^+(aq) + 6e^- -> 2Cr^3+(aq) + 7H2O(l)', difficulty: 'hard' },
+  { id: 'RH-003', equation: 'Fe^2+(aq) -> Fe^3+(aq) + e^-', difficulty: 'easy' },
+  { id: 'RH-004', equation: 'H2C2O4(aq) -> 2CO2(g) + 2H^+(aq) + 2e^-', difficulty: 'medium' },
+  { id: 'RH-005', equation: 'Cl2(aq) + 2e^- -> 2Cl^-(aq)', difficulty: 'easy' },
+  { id: 'RH-006', equation: '2I^-(aq) -> I2(aq) + 2e^-', difficulty: 'easy' },
+  { id: 'RH-007', equation: 'Zn(s) -> Zn^2+(aq) + 2e^-', difficulty: 'easy' },
+  { id: 'RH-008', equation: 'Cu^2+(aq) + 2e^- -> Cu(s)', difficulty: 'easy' },
+  { id: 'RH-009', equation: 'SO3^2-(aq) + H2O(l) -> SO4^2-(aq) + 2H^+(aq) + 2e^-', difficulty: 'medium' },
+  { id: 'RH-010', equation: 'H2O2(aq) + 2H^+(aq) + 2e^- -> 2H2O(l)', difficulty: 'medium' },
+  { id: 'RH-011', equation: 'H2O2(aq) -> O2(g) + 2H^+(aq) + 2e^-', difficulty: 'medium' },
+  { id: 'RH-012', equation: 'NO3^-(aq) + 4H^+(aq) + 3e^- -> NO(g) + 2H2O(l)', difficulty: 'hard' },
+  { id: 'RH-013', equation: 'NO3^-(aq) + 2H^+(aq) + e^- -> NO2(g) + H2O(l)', difficulty: 'hard' },
+  { id: 'RH-014', equation: 'SO4^2-(aq) + 4H^+(aq) + 2e^- -> SO2(g) + 2H2O(l)', difficulty: 'hard' },
+  { id: 'RH-015', equation: '2S2O3^2-(aq) -> S4O6^2-(aq) + 2e^-', difficulty: 'medium' },
+  { id: 'RH-016', equation: 'O2(g) + 2H2O(l) + 4e^- -> 4OH^-(aq)', difficulty: 'medium' },
+  { id: 'RH-017', equation: '2H^+(aq) + 2e^- -> H2(g)', difficulty: 'easy' },
+  { id: 'RH-018', equation: 'ClO^-(aq) + H2O(l) + 2e^- -> Cl^-(aq) + 2OH^-(aq)', difficulty: 'hard' },
+];
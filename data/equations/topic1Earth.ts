@@ -0,0 +1,23 @@
+import { EquationEntry } from '../../types';
+
+// 課題 1 地球：空氣、海洋、岩石及礦物、石灰石
+export const TOPIC_1_EARTH: EquationEntry[] = [
+  { id: 'T1-001', equation: '6CO2(g) + 6H2O(l) -> C6H12O6(aq) + 6O2(g)', difficulty: 'hard', conditions: [{ type: 'LIGHT' }] },
+  { id: 'T1-002', equation: 'CaCO3(s) -> CaO(s) + CO2(g)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T1-003', equation: 'CaCO3(s) + H2O(l) + CO2(g) -> Ca(HCO3)2(aq)', difficulty: 'medium' },
+  { id: 'T1-004', equation: 'CuSO4·5H2O(s) -> CuSO4(s) + 5H2O(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T1-005', equation: 'CaO(s) + H2O(l) -> Ca(OH)2(s)', difficulty: 'easy' },
+  { id: 'T1-006', equation: 'Ca(OH)2(aq) + CO2(g) -> CaCO3(s) + H2O(l)', difficulty: 'easy' },
+  { id: 'T1-007', equation: 'CaCO3(s) + 2HCl(aq) -> CaCl2(aq) + CO2(g) + H2O(l)', difficulty: 'medium' },
+  { id: 'T1-008', equation: '2NaCl(l) -> 2Na(l) + Cl2(g)', difficulty: 'medium' },
+  { id: 'T1-009', equation: 'Ca(HCO3)2(aq) -> CaCO3(s) + H2O(l) + CO2(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T1-010', equation: 'CuSO4(s) + 5H2O(l) -> CuSO4·5H2O(s)', difficulty: 'easy' },
+  { id: 'T1-011', equation: 'CoCl2(s) + 6H2O(l) -> CoCl2·6H2O(s)', difficulty: 'medium' },
+  { id: 'T1-012', equation: '2H2O(l) -> 2H2(g) + O2(g)', difficulty: 'easy' },
+  { id: 'T1-013', equation: 'N2(g) + O2(g) -> 2NO(g)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T1-014', equation: '2NO(g) + O2(g) -> 2NO2(g)', difficulty: 'easy' },
+  { id: 'T1-015', equation: 'S(s) + O2(g) -> SO2(g)', difficulty: 'easy' },
+  { id: 'T1-016', equation: '2SO2(g) + O2(g) + 2H2O(l) -> 2H2SO4(aq)', difficulty: 'hard' },
+  { id: 'T1-017', equation: 'MgCO3(s) -> MgO(s) + CO2(g)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T1-018', equation: 'Na2CO3·10H2O(s) -> Na2CO3·H2O(s) + 9H2O(g)', difficulty: 'hard' },
+];
@@ -0,0 +1,22 @@
+import { EquationEntry } from '../../types';
+
+// 課題 2 微觀世界：元素生成離子化合物及共價化合物
+export const TOPIC_2_MICRO: EquationEntry[] = [
+  { id: 'T2-001', equation: '2Na(s) + Cl2(g) -> 2NaCl(s)', difficulty: 'easy' },
+  { id: 'T2-002', equation: '2Mg(s) + O2(g) -> 2MgO(s)', difficulty: 'easy' },
+  { id: 'T2-003', equation: '4Li(s) + O2(g) -> 2Li2O(s)', difficulty: 'easy' },
+  { id: 'T2-004', equation: '2K(s) + 2H2O(l) -> 2KOH(aq) + H2(g)', difficulty: 'medium' },
+  { id: 'T2-005', equation: 'H2(g) + Cl2(g) -> 2HCl(g)', difficulty: 'easy' },
+  { id: 'T2-006', equation: 'N2(g) + 3H2(g) -> 2NH3(g)', difficulty: 'medium' },
+  { id: 'T2-007', equation: '4Al(s) + 3O2(g) -> 2Al2O3(s)', difficulty: 'medium' },
+  { id: 'T2-008', equation: '2Al(s) + 3Cl2(g) -> 2AlCl3(s)', difficulty: 'medium' },
+  { id: 'T2-009', equation: '3Mg(s) + N2(g) -> Mg3N2(s)', difficulty: 'medium' },
+  { id: 'T2-010', equation: '2Ca(s) + O2(g) -> 2CaO(s)', difficulty: 'easy' },
+  { id: 'T2-011', equation: 'Zn(s) + S(s) -> ZnS(s)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T2-012', equation: 'Fe(s) + S(s) -> FeS(s)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T2-013', equation: 'C(s) + O2(g) -> CO2(g)', difficulty: 'easy' },
+  { id: 'T2-014', equation: 'P4(s) + 5O2(g) -> P4O10(s)', difficulty: 'hard' },
+  { id: 'T2-015', equation: '2Fe(s) + 3Cl2(g) -> 2FeCl3(s)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T2-016', equation: 'Si(s) + O2(g) -> SiO2(s)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T2-017', equation: '2H2(g) + O2(g) -> 2H2O(l)', difficulty: 'easy' },
+];
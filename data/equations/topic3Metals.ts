@@ -0,0 +1,22 @@
+import { EquationEntry } from '../../types';
+
+// 課題 3 金屬：金屬的提取、活性序及腐蝕
+export const TOPIC_3_METALS: EquationEntry[] = [
+  { id: 'T3-001', equation: 'Fe2O3(s) + 3CO(g) -> 2Fe(l) + 3CO2(g)', difficulty: 'hard', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-002', equation: '2Na(s) + 2H2O(l) -> 2NaOH(aq) + H2(g)', difficulty: 'medium' },
+  { id: 'T3-003', equation: 'Ca(s) + 2H2O(l) -> Ca(OH)2(aq) + H2(g)', difficulty: 'medium' },
+  { id: 'T3-004', equation: 'Mg(s) + H2O(g) -> MgO(s) + H2(g)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-005', equation: '3Fe(s) + 4H2O(g) -> Fe3O4(s) + 4H2(g)', difficulty: 'hard', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-006', equation: 'Zn(s) + H2O(g) -> ZnO(s) + H2(g)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-007', equation: '2CuO(s) + C(s) -> 2Cu(s) + CO2(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-008', equation: '2PbO(s) + C(s) -> 2Pb(s) + CO2(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-009', equation: '2Ag2O(s) -> 4Ag(s) + O2(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-010', equation: '2HgO(s) -> 2Hg(l) + O2(g)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-011', equation: 'Fe(s) + CuSO4(aq) -> FeSO4(aq) + Cu(s)', difficulty: 'easy' },
+  { id: 'T3-012', equation: 'Zn(s) + 2AgNO3(aq) -> Zn(NO3)2(aq) + 2Ag(s)', difficulty: 'medium' },
+  { id: 'T3-013', equation: '2Al2O3(l) -> 4Al(l) + 3O2(g)', difficulty: 'medium' },
+  { id: 'T3-014', equation: '4Fe(s) + 3O2(g) + 6H2O(l) -> 4Fe(OH)3(s)', difficulty: 'hard' },
+  { id: 'T3-015', equation: 'C(s) + CO2(g) -> 2CO(g)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-016', equation: 'CuO(s) + H2(g) -> Cu(s) + H2O(l)', difficulty: 'easy', conditions: [{ type: 'HEAT' }] },
+  { id: 'T3-017', equation: '2Al(s) + Fe2O3(s) -> Al2O3(s) + 2Fe(l)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+];
@@ -0,0 +1,23 @@
+import { EquationEntry } from '../../types';
+
+// 課題 4 酸和鹼：酸的反應、中和作用及沉澱
+export const TOPIC_4_ACIDS: EquationEntry[] = [
+  { id: 'T4-001', equation: 'Zn(s) + 2H^+(aq) -> Zn^2+(aq) + H2(g)', difficulty: 'medium' },
+  { id: 'T4-002', equation: 'Mg(s) + 2HCl(aq) -> MgCl2(aq) + H2(g)', difficulty: 'medium' },
+  { id: 'T4-003', equation: 'Fe(s) + H2SO4(aq) -> FeSO4(aq) + H2(g)', difficulty: 'medium' },
+  { id: 'T4-004', equation: 'Zn(s) + 2CH3COOH(aq) -> (CH3COO)2Zn(aq) + H2(g)', difficulty: 'hard' },
+  { id: 'T4-005', equation: 'Mg(s) + 2CH3COOH(aq) -> (CH3COO)2Mg(aq) + H2(g)', difficulty: 'hard' },
+  { id: 'T4-006', equation: 'CuO(s) + H2SO4(aq) -> CuSO4(aq) + H2O(l)', difficulty: 'medium' },
+  { id: 'T4-007', equation: 'Mg(OH)2(s) + 2HCl(aq) -> MgCl2(aq) + 2H2O(l)', difficulty: 'medium' },
+  { id: 'T4-008', equation: 'CaCO3(s) + 2HCl(aq) -> CaCl2(aq) + CO2(g) + H2O(l)', difficulty: 'hard' },
+  { id: 'T4-009', equation: 'NaHCO3(aq) + HCl(aq) -> NaCl(aq) + CO2(g) + H2O(l)', difficulty: 'medium' },
+  { id: 'T4-010', equation: '2NaOH(aq) + CO2(g) -> Na2CO3(aq) + H2O(l)', difficulty: 'medium' },
+  { id: 'T4-011', equation: 'NH4Cl(aq) + NaOH(aq) -> NH3(g) + NaCl(aq) + H2O(l)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T4-012', equation: 'Cu^2+(aq) + 2OH^-(aq) -> Cu(OH)2(s)', difficulty: 'easy' },
+  { id: 'T4-013', equation: '2NaOH(aq) + H2SO4(aq) -> Na2SO4(aq) + 2H2O(l)', difficulty: 'easy' },
+  { id: 'T4-014', equation: 'HNO3(aq) + KOH(aq) -> KNO3(aq) + H2O(l)', difficulty: 'easy' },
+  { id: 'T4-015', equation: 'K2CO3(aq) + 2HNO3(aq) -> 2KNO3(aq) + CO2(g) + H2O(l)', difficulty: 'medium' },
+  { id: 'T4-016', equation: '(NH4)2SO4(s) + 2NaOH(aq) -> Na2SO4(aq) + 2NH3(g) + 2H2O(l)', difficulty: 'hard', conditions: [{ type: 'HEAT' }] },
+  { id: 'T4-017', equation: 'Fe^3+(aq) + 3OH^-(aq) -> Fe(OH)3(s)', difficulty: 'easy' },
+  { id: 'T4-018', equation: 'Ba^2+(aq) + SO4^2-(aq) -> BaSO4(s)', difficulty: 'easy' },
+];
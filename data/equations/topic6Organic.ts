@@ -0,0 +1,22 @@
+import { EquationEntry } from '../../types';
+
+// 課題 6 化石燃料和碳化合物：燃燒、取代、裂解及加成反應
+export const TOPIC_6_ORGANIC: EquationEntry[] = [
+  { id: 'T6-001', equation: 'CH4(g) + 2O2(g) -> CO2(g) + 2H2O(l)', difficulty: 'easy' },
+  { id: 'T6-002', equation: 'C3H8(g) + 5O2(g) -> 3CO2(g) + 4H2O(l)', difficulty: 'medium' },
+  { id: 'T6-003', equation: '2C4H10(g) + 13O2(g) -> 8CO2(g) + 10H2O(l)', difficulty: 'hard' },
+  { id: 'T6-004', equation: 'C2H5OH(l) + 3O2(g) -> 2CO2(g) + 3H2O(l)', difficulty: 'medium' },
+  { id: 'T6-005', equation: '2C8H18(l) + 25O2(g) -> 16CO2(g) + 18H2O(l)', difficulty: 'hard' },
+  { id: 'T6-006', equation: '2CH4(g) + 3O2(g) -> 2CO(g) + 4H2O(l)', difficulty: 'medium' },
+  { id: 'T6-007', equation: 'CH4(g) + Cl2(g) -> CH3Cl(g) + HCl(g)', difficulty: 'easy', conditions: [{ type: 'UV_LIGHT' }] },
+  { id: 'T6-008', equation: 'CH3Cl(g) + Cl2(g) -> CH2Cl2(l) + HCl(g)', difficulty: 'easy', conditions: [{ type: 'UV_LIGHT' }] },
+  { id: 'T6-009', equation: 'C2H6(g) + Cl2(g) -> C2H5Cl(g) + HCl(g)', difficulty: 'easy', conditions: [{ type: 'UV_LIGHT' }] },
+  { id: 'T6-010', equation: 'C10H22(l) -> C8H18(l) + C2H4(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }, { type: 'CATALYST', detail: 'Al2O3' }] },
+  { id: 'T6-011', equation: 'C2H4(g) + H2(g) -> C2H6(g)', difficulty: 'easy', conditions: [{ type: 'CATALYST', detail: 'Ni' }] },
+  { id: 'T6-012', equation: 'C2H4(g) + Br2(l) -> C2H4Br2(l)', difficulty: 'easy' },
+  { id: 'T6-013', equation: 'C2H4(g) + H2O(g) -> C2H5OH(g)', difficulty: 'medium', conditions: [{ type: 'CATALYST', detail: 'H3PO4' }] },
+  { id: 'T6-014', equation: 'C3H6(g) + H2(g) -> C3H8(g)', difficulty: 'easy', conditions: [{ type: 'CATALYST', detail: 'Ni' }] },
+  { id: 'T6-015', equation: 'C6H12O6(aq) -> 2C2H5OH(aq) + 2CO2(g)', difficulty: 'medium' },
+  { id: 'T6-016', equation: '2C2H6(g) + 7O2(g) -> 4CO2(g) + 6H2O(l)', difficulty: 'medium' },
+  { id: 'T6-017', equation: 'CH4(g) + H2O(g) -> CO(g) + 3H2(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }, { type: 'CATALYST', detail: 'Ni' }] },
+];
@@ -0,0 +1,22 @@
+import { EquationEntry } from '../../types';
+
+// 課題 7 週期律：第 1 族、第 17 族及第三週期元素的氧化物和氯化物
+export const TOPIC_7_PERIODICITY: EquationEntry[] = [
+  { id: 'T7-001', equation: '2Li(s) + 2H2O(l) -> 2LiOH(aq) + H2(g)', difficulty: 'easy' },
+  { id: 'T7-002', equation: 'Cl2(aq) + 2KBr(aq) -> 2KCl(aq) + Br2(aq)', difficulty: 'easy' },
+  { id: 'T7-003', equation: 'Cl2(aq) + 2NaI(aq) -> 2NaCl(aq) + I2(aq)', difficulty: 'easy' },
+  { id: 'T7-004', equation: 'Br2(aq) + 2KI(aq) -> 2KBr(aq) + I2(aq)', difficulty: 'easy' },
+  { id: 'T7-005', equation: 'Cl2(g) + 2NaOH(aq) -> NaCl(aq) + NaClO(aq) + H2O(l)', difficulty: 'medium' },
+  { id: 'T7-006', equation: 'Cl2(g) + H2O(l) -> HCl(aq) + HOCl(aq)', difficulty: 'easy' },
+  { id: 'T7-007', equation: 'Na2O(s) + H2O(l) -> 2NaOH(aq)', difficulty: 'easy' },
+  { id: 'T7-008', equation: 'MgO(s) + 2HCl(aq) -> MgCl2(aq) + H2O(l)', difficulty: 'easy' },
+  { id: 'T7-009', equation: 'Al2O3(s) + 6HCl(aq) -> 2AlCl3(aq) + 3H2O(l)', difficulty: 'medium' },
+  { id: 'T7-010', equation: 'Al2O3(s) + 2NaOH(aq) + 3H2O(l) -> 2NaAl(OH)4(aq)', difficulty: 'hard' },
+  { id: 'T7-011', equation: 'SiO2(s) + 2NaOH(aq) -> Na2SiO3(aq) + H2O(l)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T7-012', equation: 'SO2(g) + H2O(l) -> H2SO3(aq)', difficulty: 'easy' },
+  { id: 'T7-013', equation: 'P4O10(s) + 6H2O(l) -> 4H3PO4(aq)', difficulty: 'medium' },
+  { id: 'T7-014', equation: 'SO3(g) + H2O(l) -> H2SO4(aq)', difficulty: 'easy' },
+  { id: 'T7-015', equation: 'H2(g) + F2(g) -> 2HF(g)', difficulty: 'easy' },
+  { id: 'T7-016', equation: 'SiCl4(l) + 2H2O(l) -> SiO2(s) + 4HCl(aq)', difficulty: 'hard' },
+  { id: 'T7-017', equation: 'PCl5(s) + 4H2O(l) -> H3PO4(aq) + 5HCl(aq)', difficulty: 'hard' },
+];
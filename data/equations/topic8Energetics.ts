@@ -0,0 +1,21 @@
+import { EquationEntry } from '../../types';
+
+// 課題 8 化學反應中的能量變化：生成、燃燒及中和反應
+export const TOPIC_8_ENERGETICS: EquationEntry[] = [
+  { id: 'T8-001', equation: 'H^+(aq) + OH^-(aq) -> H2O(l)', difficulty: 'easy' },
+  { id: 'T8-002', equation: 'C(s) + 2H2(g) -> CH4(g)', difficulty: 'easy' },
+  { id: 'T8-003', equation: '2C(s) + 2H2(g) -> C2H4(g)', difficulty: 'easy' },
+  { id: 'T8-004', equation: '2C(s) + O2(g) -> 2CO(g)', difficulty: 'easy' },
+  { id: 'T8-005', equation: '2CO(g) + O2(g) -> 2CO2(g)', difficulty: 'easy' },
+  { id: 'T8-006', equation: '3C(s) + 4H2(g) -> C3H8(g)', difficulty: 'medium' },
+  { id: 'T8-007', equation: '6C(s) + 3H2(g) -> C6H6(l)', difficulty: 'medium' },
+  { id: 'T8-008', equation: 'C2H4(g) + 3O2(g) -> 2CO2(g) + 2H2O(l)', difficulty: 'easy' },
+  { id: 'T8-009', equation: '2CH3OH(l) + 3O2(g) -> 2CO2(g) + 4H2O(l)', difficulty: 'medium' },
+  { id: 'T8-010', equation: 'C6H12O6(s) + 6O2(g) -> 6CO2(g) + 6H2O(l)', difficulty: 'medium' },
+  { id: 'T8-011', equation: '2C6H6(l) + 15O2(g) -> 12CO2(g) + 6H2O(l)', difficulty: 'hard' },
+  { id: 'T8-012', equation: '2C3H7OH(l) + 9O2(g) -> 6CO2(g) + 8H2O(l)', difficulty: 'hard' },
+  { id: 'T8-013', equation: 'NaOH(aq) + HCl(aq) -> NaCl(aq) + H2O(l)', difficulty: 'easy' },
+  { id: 'T8-014', equation: 'Mg(s) + CuSO4(aq) -> MgSO4(aq) + Cu(s)', difficulty: 'easy' },
+  { id: 'T8-015', equation: '2NaHCO3(s) -> Na2CO3(s) + H2O(l) + CO2(g)', difficulty: 'medium', conditions: [{ type: 'HEAT' }] },
+  { id: 'T8-016', equation: 'CH3COOH(aq) + NaOH(aq) -> CH3COONa(aq) + H2O(l)', difficulty: 'easy' },
+];
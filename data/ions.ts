@@ -0,0 +1,104 @@
+import { IonData } from '../types';
+import { getElement, hasVariableCharge } from './periodicTable';
+
+const ROMAN = ['', 'I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII'];
+
+export const toRoman = (n: number): string => ROMAN[n] || String(n);
+
+const formatCharge = (charge: number) => {
+  const size = Math.abs(charge) === 1 ? '' : String(Math.abs(charge));
+  return `^${size}${charge > 0 ? '+' : '-'}`;
+};
+
+/**
+ * 由週期表資料建立單原子陽離子；可變電荷金屬自動加上羅馬數字。
+ */
+const metalCation = (symbol: string, charge: number, difficulty: IonData['difficulty'], roman: boolean = hasVariableCharge(symbol)): IonData => {
+  const el = getElement(symbol)!;
+  const suffix = roman ? `(${toRoman(charge)})` : '';
+  return {
+    formula: `${symbol}${formatCharge(charge)}`,
+    charge,
+    type: 'Cation',
+    polyatomic: false,
+    zh: `${el.zh}${suffix}離子`,
+    en: `${el.en}${suffix} ion`,
+    stemZH: `${el.zh}${suffix}`,
+    stemEN: `${el.en}${suffix}`,
+    difficulty,
+  };
+};
+
+/**
+ * 建立陰離子。單原子陰離子的化合物名稱為「氯化」/ "chloride"，多原子陰離子為「硫酸」/ "sulphate"。
+ */
+const anion = (formula: string, charge: number, zh: string, stemZH: string, stemEN: string, difficulty: IonData['difficulty']): IonData => ({
+  formula: `${formula}${formatCharge(charge)}`,
+  charge,
+  type: 'Anion',
+  polyatomic: !getElement(formula),
+  zh,
+  en: `${stemEN.charAt(0).toUpperCase()}${stemEN.slice(1)} ion`,
+  stemZH,
+  stemEN,
+  difficulty,
+});
+
+export const CATIONS: IonData[] = [
+  { formula: 'H^+', charge: 1, type: 'Cation', polyatomic: false, zh: '氫離子', en: 'Hydrogen ion', stemZH: '氫', stemEN: 'Hydrogen', difficulty: 'easy' },
+  metalCation('Li', 1, 'easy'),
+  metalCation('Na', 1, 'easy'),
+  metalCation('K', 1, 'easy'),
+  metalCation('Ag', 1, 'easy'),
+  { formula: 'NH4^+', charge: 1, type: 'Cation', polyatomic: true, zh: '銨離子', en: 'Ammonium ion', stemZH: '銨', stemEN: 'Ammonium', difficulty: 'easy' },
+  metalCation('Mg', 2, 'easy'),
+  metalCation('Ca', 2, 'easy'),
+  metalCation('Ba', 2, 'easy'),
+  metalCation('Zn', 2, 'easy'),
+  metalCation('Al', 3, 'easy'),
+  metalCation('Cu', 1, 'medium'),
+  metalCation('Cu', 2, 'medium'),
+  metalCation('Fe', 2, 'medium'),
+  metalCation('Fe', 3, 'medium'),
+  metalCation('Pb', 2, 'medium'),
+  metalCation('Mn', 2, 'medium'),
+  metalCation('Ni', 2, 'medium', true),
+  metalCation('Hg', 2, 'hard'),
+  metalCation('Co', 2, 'hard'),
+  metalCation('Sn', 2, 'hard'),
+  metalCation('Cr', 3, 'hard'),
+  { formula: 'Hg2^2+', charge: 2, type: 'Cation', polyatomic: true, zh: '汞(I)離子', en: 'Mercury(I) ion', stemZH: '汞(I)', stemEN: 'Mercury(I)', difficulty: 'hard' },
+  { formula: 'H3O^+', charge: 1, type: 'Cation', polyatomic: true, zh: '水合氫離子', en: 'Oxonium ion', stemZH: '水合氫', stemEN: 'Oxonium', difficulty: 'hard' },
+];
+
+// 代表酸的陽離子，不與陰離子組成離子化合物
+export const ACID_CATIONS = ['H^+', 'H3O^+'];
+
+export const ANIONS: IonData[] = [
+  anion('F', -1, '氟離子', '氟化', 'fluoride', 'easy'),
+  anion('Cl', -1, '氯離子', '氯化', 'chloride', 'easy'),
+  anion('Br', -1, '溴離子', '溴化', 'bromide', 'easy'),
+  anion('I', -1, '碘離子', '碘化', 'iodide', 'easy'),
+  anion('O', -2, '氧離子', '氧化', 'oxide', 'easy'),
+  anion('S', -2, '硫離子', '硫化', 'sulphide', 'easy'),
+  anion('OH', -1, '氫氧根離子', '氫氧化', 'hydroxide', 'easy'),
+  anion('NO3', -1, '硝酸根離子', '硝酸', 'nitrate', 'easy'),
+  anion('SO4', -2, '硫酸根離子', '硫酸', 'sulphate', 'easy'),
+  anion('CO3', -2, '碳酸根離子', '碳酸', 'carbonate', 'easy'),
+  anion('N', -3, '氮離子', '氮化', 'nitride', 'medium'),
+  anion('HCO3', -1, '碳酸氫根離子', '碳酸氫', 'hydrogencarbonate', 'medium'),
+  anion('NO2', -1, '亞硝酸根離子', '亞硝酸', 'nitrite', 'medium'),
+  anion('SO3', -2, '亞硫酸根離子', '亞硫酸', 'sulphite', 'medium'),
+  anion('PO4', -3, '磷酸根離子', '磷酸', 'phosphate', 'medium'),
+  anion('HSO4', -1, '硫酸氫根離子', '硫酸氫', 'hydrogensulphate', 'hard'),
+  anion('MnO4', -1, '高錳酸根離子', '高錳酸', 'permanganate', 'hard'),
+  anion('CN', -1, '氰離子', '氰化', 'cyanide', 'hard'),
+  anion('ClO', -1, '次氯酸根離子', '次氯酸', 'hypochlorite', 'hard'),
+  anion('CH3COO', -1, '乙酸根離子', '乙酸', 'ethanoate', 'hard'),
+  anion('CrO4', -2, '鉻酸根離子', '鉻酸', 'chromate', 'hard'),
+  anion('Cr2O7', -2, '重鉻酸根離子', '重鉻酸', 'dichromate', 'hard'),
+];
+
+export const ALL_IONS: IonData[] = [...CATIONS, ...ANIONS];
+
+export const getIon = (formula: string): IonData | undefined => ALL_IONS.find(ion => ion.formula === formula);
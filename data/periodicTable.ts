@@ -0,0 +1,144 @@
+import { ElementData } from '../types';
+
+/**
+ * 完整週期表（1-118 號元素）。
+ * mass 為相對原子質量（放射性元素取最穩定同位素的質量數）；
+ * charges 為常見離子電荷，首項為最常見者，多於一項代表可變電荷；
+ * row / col 為週期表網格位置（H 依課本排法置於中間，鑭系及錒系置於第 9、10 行）。
+ */
+export const PERIODIC_TABLE: ElementData[] = [
+  { atomic: 1, symbol: 'H', zh: '氫', en: 'Hydrogen', mass: 1.008, group: 1, period: 1, block: 's', category: 'NON_METAL', charges: [1, -1], row: 1, col: 9 },
+  { atomic: 2, symbol: 'He', zh: '氦', en: 'Helium', mass: 4.003, group: 18, period: 1, block: 's', category: 'NOBLE_GAS', charges: [], row: 1, col: 18 },
+  { atomic: 3, symbol: 'Li', zh: '鋰', en: 'Lithium', mass: 6.94, group: 1, period: 2, block: 's', category: 'METAL', charges: [1], row: 2, col: 1 },
+  { atomic: 4, symbol: 'Be', zh: '鈹', en: 'Beryllium', mass: 9.012, group: 2, period: 2, block: 's', category: 'METAL', charges: [2], row: 2, col: 2 },
+  { atomic: 5, symbol: 'B', zh: '硼', en: 'Boron', mass: 10.81, group: 13, period: 2, block: 'p', category: 'METALLOID', charges: [3], row: 2, col: 13 },
+  { atomic: 6, symbol: 'C', zh: '碳', en: 'Carbon', mass: 12.01, group: 14, period: 2, block: 'p', category: 'NON_METAL', charges: [], row: 2, col: 14 },
+  { atomic: 7, symbol: 'N', zh: '氮', en: 'Nitrogen', mass: 14.01, group: 15, period: 2, block: 'p', category: 'NON_METAL', charges: [-3], row: 2, col: 15 },
+  { atomic: 8, symbol: 'O', zh: '氧', en: 'Oxygen', mass: 16.00, group: 16, period: 2, block: 'p', category: 'NON_METAL', charges: [-2], row: 2, col: 16 },
+  { atomic: 9, symbol: 'F', zh: '氟', en: 'Fluorine', mass: 19.00, group: 17, period: 2, block: 'p', category: 'NON_METAL', charges: [-1], row: 2, col: 17 },
+  { atomic: 10, symbol: 'Ne', zh: '氖', en: 'Neon', mass: 20.18, group: 18, period: 2, block: 'p', category: 'NOBLE_GAS', charges: [], row: 2, col: 18 },
+  { atomic: 11, symbol: 'Na', zh: '鈉', en: 'Sodium', mass: 22.99, group: 1, period: 3, block: 's', category: 'METAL', charges: [1], row: 3, col: 1 },
+  { atomic: 12, symbol: 'Mg', zh: '鎂', en: 'Magnesium', mass: 24.31, group: 2, period: 3, block: 's', category: 'METAL', charges: [2], row: 3, col: 2 },
+  { atomic: 13, symbol: 'Al', zh: '鋁', en: 'Aluminium', mass: 26.98, group: 13, period: 3, block: 'p', category: 'METAL', charges: [3], row: 3, col: 13 },
+  { atomic: 14, symbol: 'Si', zh: '硅', en: 'Silicon', mass: 28.09, group: 14, period: 3, block: 'p', category: 'METALLOID', charges: [], row: 3, col: 14 },
+  { atomic: 15, symbol: 'P', zh: '磷', en: 'Phosphorus', mass: 30.97, group: 15, period: 3, block: 'p', category: 'NON_METAL', charges: [-3], row: 3, col: 15 },
+  { atomic: 16, symbol: 'S', zh: '硫', en: 'Sulphur', mass: 32.06, group: 16, period: 3, block: 'p', category: 'NON_METAL', charges: [-2], row: 3, col: 16 },
+  { atomic: 17, symbol: 'Cl', zh: '氯', en: 'Chlorine', mass: 35.45, group: 17, period: 3, block: 'p', category: 'NON_METAL', charges: [-1], row: 3, col: 17 },
+  { atomic: 18, symbol: 'Ar', zh: '氬', en: 'Argon', mass: 39.95, group: 18, period: 3, block: 'p', category: 'NOBLE_GAS', charges: [], row: 3, col: 18 },
+  { atomic: 19, symbol: 'K', zh: '鉀', en: 'Potassium', mass: 39.10, group: 1, period: 4, block: 's', category: 'METAL', charges: [1], row: 4, col: 1 },
+  { atomic: 20, symbol: 'Ca', zh: '鈣', en: 'Calcium', mass: 40.08, group: 2, period: 4, block: 's', category: 'METAL', charges: [2], row: 4, col: 2 },
+  { atomic: 21, symbol: 'Sc', zh: '鈧', en: 'Scandium', mass: 44.96, group: 3, period: 4, block: 'd', category: 'METAL', charges: [3], row: 4, col: 3 },
+  { atomic: 22, symbol: 'Ti', zh: '鈦', en: 'Titanium', mass: 47.87, group: 4, period: 4, block: 'd', category: 'METAL', charges: [4, 3], row: 4, col: 4 },
+  { atomic: 23, symbol: 'V', zh: '釩', en: 'Vanadium', mass: 50.94, group: 5, period: 4, block: 'd', category: 'METAL', charges: [3, 2], row: 4, col: 5 },
+  { atomic: 24, symbol: 'Cr', zh: '鉻', en: 'Chromium', mass: 52.00, group: 6, period: 4, block: 'd', category: 'METAL', charges: [3, 2], row: 4, col: 6 },
+  { atomic: 25, symbol: 'Mn', zh: '錳', en: 'Manganese', mass: 54.94, group: 7, period: 4, block: 'd', category: 'METAL', charges: [2, 4], row: 4, col: 7 },
+  { atomic: 26, symbol: 'Fe', zh: '鐵', en: 'Iron', mass: 55.85, group: 8, period: 4, block: 'd', category: 'METAL', charges: [2, 3], row: 4, col: 8 },
+  { atomic: 27, symbol: 'Co', zh: '鈷', en: 'Cobalt', mass: 58.93, group: 9, period: 4, block: 'd', category: 'METAL', charges: [2, 3], row: 4, col: 9 },
+  { atomic: 28, symbol: 'Ni', zh: '鎳', en: 'Nickel', mass: 58.69, group: 10, period: 4, block: 'd', category: 'METAL', charges: [2], row: 4, col: 10 },
+  { atomic: 29, symbol: 'Cu', zh: '銅', en: 'Copper', mass: 63.55, group: 11, period: 4, block: 'd', category: 'METAL', charges: [2, 1], row: 4, col: 11 },
+  { atomic: 30, symbol: 'Zn', zh: '鋅', en: 'Zinc', mass: 65.38, group: 12, period: 4, block: 'd', category: 'METAL', charges: [2], row: 4, col: 12 },
+  { atomic: 31, symbol: 'Ga', zh: '鎵', en: 'Gallium', mass: 69.72, group: 13, period: 4, block: 'p', category: 'METAL', charges: [3], row: 4, col: 13 },
+  { atomic: 32, symbol: 'Ge', zh: '鍺', en: 'Germanium', mass: 72.63, group: 14, period: 4, block: 'p', category: 'METALLOID', charges: [], row: 4, col: 14 },
+  { atomic: 33, symbol: 'As', zh: '砷', en: 'Arsenic', mass: 74.92, group: 15, period: 4, block: 'p', category: 'METALLOID', charges: [], row: 4, col: 15 },
+  { atomic: 34, symbol: 'Se', zh: '硒', en: 'Selenium', mass: 78.97, group: 16, period: 4, block: 'p', category: 'NON_METAL', charges: [-2], row: 4, col: 16 },
+  { atomic: 35, symbol: 'Br', zh: '溴', en: 'Bromine', mass: 79.90, group: 17, period: 4, block: 'p', category: 'NON_METAL', charges: [-1], row: 4, col: 17 },
+  { atomic: 36, symbol: 'Kr', zh: '氪', en: 'Krypton', mass: 83.80, group: 18, period: 4, block: 'p', category: 'NOBLE_GAS', charges: [], row: 4, col: 18 },
+  { atomic: 37, symbol: 'Rb', zh: '銣', en: 'Rubidium', mass: 85.47, group: 1, period: 5, block: 's', category: 'METAL', charges: [1], row: 5, col: 1 },
+  { atomic: 38, symbol: 'Sr', zh: '鍶', en: 'Strontium', mass: 87.62, group: 2, period: 5, block: 's', category: 'METAL', charges: [2], row: 5, col: 2 },
+  { atomic: 39, symbol: 'Y', zh: '釔', en: 'Yttrium', mass: 88.91, group: 3, period: 5, block: 'd', category: 'METAL', charges: [3], row: 5, col: 3 },
+  { atomic: 40, symbol: 'Zr', zh: '鋯', en: 'Zirconium', mass: 91.22, group: 4, period: 5, block: 'd', category: 'METAL', charges: [4], row: 5, col: 4 },
+  { atomic: 41, symbol: 'Nb', zh: '鈮', en: 'Niobium', mass: 92.91, group: 5, period: 5, block: 'd', category: 'METAL', charges: [], row: 5, col: 5 },
+  { atomic: 42, symbol: 'Mo', zh: '鉬', en: 'Molybdenum', mass: 95.95, group: 6, period: 5, block: 'd', category: 'METAL', charges: [6], row: 5, col: 6 },
+  { atomic: 43, symbol: 'Tc', zh: '鍀', en: 'Technetium', mass: 98, group: 7, period: 5, block: 'd', category: 'METAL', charges: [], row: 5, col: 7 },
+  { atomic: 44, symbol: 'Ru', zh: '釕', en: 'Ruthenium', mass: 101.07, group: 8, period: 5, block: 'd', category: 'METAL', charges: [], row: 5, col: 8 },
+  { atomic: 45, symbol: 'Rh', zh: '銠', en: 'Rhodium', mass: 102.91, group: 9, period: 5, block: 'd', category: 'METAL', charges: [], row: 5, col: 9 },
+  { atomic: 46, symbol: 'Pd', zh: '鈀', en: 'Palladium', mass: 106.42, group: 10, period: 5, block: 'd', category: 'METAL', charges: [2], row: 5, col: 10 },
+  { atomic: 47, symbol: 'Ag', zh: '銀', en: 'Silver', mass: 107.87, group: 11, period: 5, block: 'd', category: 'METAL', charges: [1], row: 5, col: 11 },
+  { atomic: 48, symbol: 'Cd', zh: '鎘', en: 'Cadmium', mass: 112.41, group: 12, period: 5, block: 'd', category: 'METAL', charges: [2], row: 5, col: 12 },
+  { atomic: 49, symbol: 'In', zh: '銦', en: 'Indium', mass: 114.82, group: 13, period: 5, block: 'p', category: 'METAL', charges: [3], row: 5, col: 13 },
+  { atomic: 50, symbol: 'Sn', zh: '錫', en: 'Tin', mass: 118.71, group: 14, period: 5, block: 'p', category: 'METAL', charges: [2, 4], row: 5, col: 14 },
+  { atomic: 51, symbol: 'Sb', zh: '銻', en: 'Antimony', mass: 121.76, group: 15, period: 5, block: 'p', category: 'METALLOID', charges: [3], row: 5, col: 15 },
+  { atomic: 52, symbol: 'Te', zh: '碲', en: 'Tellurium', mass: 127.60, group: 16, period: 5, block: 'p', category: 'METALLOID', charges: [-2], row: 5, col: 16 },
+  { atomic: 53, symbol: 'I', zh: '碘', en: 'Iodine', mass: 126.90, group: 17, period: 5, block: 'p', category: 'NON_METAL', charges: [-1], row: 5, col: 17 },
+  { atomic: 54, symbol: 'Xe', zh: '氙', en: 'Xenon', mass: 131.29, group: 18, period: 5, block: 'p', category: 'NOBLE_GAS', charges: [], row: 5, col: 18 },
+  { atomic: 55, symbol: 'Cs', zh: '銫', en: 'Caesium', mass: 132.91, group: 1, period: 6, block: 's', category: 'METAL', charges: [1], row: 6, col: 1 },
+  { atomic: 56, symbol: 'Ba', zh: '鋇', en: 'Barium', mass: 137.33, group: 2, period: 6, block: 's', category: 'METAL', charges: [2], row: 6, col: 2 },
+  { atomic: 57, symbol: 'La', zh: '鑭', en: 'Lanthanum', mass: 138.91, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 3 },
+  { atomic: 58, symbol: 'Ce', zh: '鈰', en: 'Cerium', mass: 140.12, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 4 },
+  { atomic: 59, symbol: 'Pr', zh: '鐠', en: 'Praseodymium', mass: 140.91, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 5 },
+  { atomic: 60, symbol: 'Nd', zh: '釹', en: 'Neodymium', mass: 144.24, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 6 },
+  { atomic: 61, symbol: 'Pm', zh: '鉕', en: 'Promethium', mass: 145, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 7 },
+  { atomic: 62, symbol: 'Sm', zh: '釤', en: 'Samarium', mass: 150.36, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 8 },
+  { atomic: 63, symbol: 'Eu', zh: '銪', en: 'Europium', mass: 151.96, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 9 },
+  { atomic: 64, symbol: 'Gd', zh: '釓', en: 'Gadolinium', mass: 157.25, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 10 },
+  { atomic: 65, symbol: 'Tb', zh: '鋱', en: 'Terbium', mass: 158.93, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 11 },
+  { atomic: 66, symbol: 'Dy', zh: '鏑', en: 'Dysprosium', mass: 162.50, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 12 },
+  { atomic: 67, symbol: 'Ho', zh: '鈥', en: 'Holmium', mass: 164.93, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 13 },
+  { atomic: 68, symbol: 'Er', zh: '鉺', en: 'Erbium', mass: 167.26, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 14 },
+  { atomic: 69, symbol: 'Tm', zh: '銩', en: 'Thulium', mass: 168.93, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 15 },
+  { atomic: 70, symbol: 'Yb', zh: '鐿', en: 'Ytterbium', mass: 173.05, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 16 },
+  { atomic: 71, symbol: 'Lu', zh: '鎦', en: 'Lutetium', mass: 174.97, group: null, period: 6, block: 'f', category: 'METAL', charges: [3], row: 9, col: 17 },
+  { atomic: 72, symbol: 'Hf', zh: '鉿', en: 'Hafnium', mass: 178.49, group: 4, period: 6, block: 'd', category: 'METAL', charges: [], row: 6, col: 4 },
+  { atomic: 73, symbol: 'Ta', zh: '鉭', en: 'Tantalum', mass: 180.95, group: 5, period: 6, block: 'd', category: 'METAL', charges: [], row: 6, col: 5 },
+  { atomic: 74, symbol: 'W', zh: '鎢', en: 'Tungsten', mass: 183.84, group: 6, period: 6, block: 'd', category: 'METAL', charges: [6], row: 6, col: 6 },
+  { atomic: 75, symbol: 'Re', zh: '錸', en: 'Rhenium', mass: 186.21, group: 7, period: 6, block: 'd', category: 'METAL', charges: [], row: 6, col: 7 },
+  { atomic: 76, symbol: 'Os', zh: '鋨', en: 'Osmium', mass: 190.23, group: 8, period: 6, block: 'd', category: 'METAL', charges: [], row: 6, col: 8 },
+  { atomic: 77, symbol: 'Ir', zh: '銥', en: 'Iridium', mass: 192.22, group: 9, period: 6, block: 'd', category: 'METAL', charges: [], row: 6, col: 9 },
+  { atomic: 78, symbol: 'Pt', zh: '鉑', en: 'Platinum', mass: 195.08, group: 10, period: 6, block: 'd', category: 'METAL', charges: [2, 4], row: 6, col: 10 },
+  { atomic: 79, symbol: 'Au', zh: '金', en: 'Gold', mass: 196.97, group: 11, period: 6, block: 'd', category: 'METAL', charges: [3, 1], row: 6, col: 11 },
+  { atomic: 80, symbol: 'Hg', zh: '汞', en: 'Mercury', mass: 200.59, group: 12, period: 6, block: 'd', category: 'METAL', charges: [2, 1], row: 6, col: 12 },
+  { atomic: 81, symbol: 'Tl', zh: '鉈', en: 'Thallium', mass: 204.38, group: 13, period: 6, block: 'p', category: 'METAL', charges: [1, 3], row: 6, col: 13 },
+  { atomic: 82, symbol: 'Pb', zh: '鉛', en: 'Lead', mass: 207.2, group: 14, period: 6, block: 'p', category: 'METAL', charges: [2, 4], row: 6, col: 14 },
+  { atomic: 83, symbol: 'Bi', zh: '鉍', en: 'Bismuth', mass: 208.98, group: 15, period: 6, block: 'p', category: 'METAL', charges: [3], row: 6, col: 15 },
+  { atomic: 84, symbol: 'Po', zh: '釙', en: 'Polonium', mass: 209, group: 16, period: 6, block: 'p', category: 'METAL', charges: [], row: 6, col: 16 },
+  { atomic: 85, symbol: 'At', zh: '砈', en: 'Astatine', mass: 210, group: 17, period: 6, block: 'p', category: 'METALLOID', charges: [], row: 6, col: 17 },
+  { atomic: 86, symbol: 'Rn', zh: '氡', en: 'Radon', mass: 222, group: 18, period: 6, block: 'p', category: 'NOBLE_GAS', charges: [], row: 6, col: 18 },
+  { atomic: 87, symbol: 'Fr', zh: '鍅', en: 'Francium', mass: 223, group: 1, period: 7, block: 's', category: 'METAL', charges: [1], row: 7, col: 1 },
+  { atomic: 88, symbol: 'Ra', zh: '鐳', en: 'Radium', mass: 226, group: 2, period: 7, block: 's', category: 'METAL', charges: [2], row: 7, col: 2 },
+  { atomic: 89, symbol: 'Ac', zh: '錒', en: 'Actinium', mass: 227, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 3 },
+  { atomic: 90, symbol: 'Th', zh: '釷', en: 'Thorium', mass: 232.04, group: null, period: 7, block: 'f', category: 'METAL', charges: [4], row: 10, col: 4 },
+  { atomic: 91, symbol: 'Pa', zh: '鏷', en: 'Protactinium', mass: 231.04, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 5 },
+  { atomic: 92, symbol: 'U', zh: '鈾', en: 'Uranium', mass: 238.03, group: null, period: 7, block: 'f', category: 'METAL', charges: [6, 4], row: 10, col: 6 },
+  { atomic: 93, symbol: 'Np', zh: '錼', en: 'Neptunium', mass: 237, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 7 },
+  { atomic: 94, symbol: 'Pu', zh: '鈽', en: 'Plutonium', mass: 244, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 8 },
+  { atomic: 95, symbol: 'Am', zh: '鋂', en: 'Americium', mass: 243, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 9 },
+  { atomic: 96, symbol: 'Cm', zh: '鋦', en: 'Curium', mass: 247, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 10 },
+  { atomic: 97, symbol: 'Bk', zh: '鉳', en: 'Berkelium', mass: 247, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 11 },
+  { atomic: 98, symbol: 'Cf', zh: '鉲', en: 'Californium', mass: 251, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 12 },
+  { atomic: 99, symbol: 'Es', zh: '鑀', en: 'Einsteinium', mass: 252, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 13 },
+  { atomic: 100, symbol: 'Fm', zh: '鐨', en: 'Fermium', mass: 257, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 14 },
+  { atomic: 101, symbol: 'Md', zh: '鍆', en: 'Mendelevium', mass: 258, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 15 },
+  { atomic: 102, symbol: 'No', zh: '鍩', en: 'Nobelium', mass: 259, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 16 },
+  { atomic: 103, symbol: 'Lr', zh: '鐒', en: 'Lawrencium', mass: 266, group: null, period: 7, block: 'f', category: 'METAL', charges: [], row: 10, col: 17 },
+  { atomic: 104, symbol: 'Rf', zh: '鑪', en: 'Rutherfordium', mass: 267, group: 4, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 4 },
+  { atomic: 105, symbol: 'Db', zh: '𨧀', en: 'Dubnium', mass: 268, group: 5, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 5 },
+  { atomic: 106, symbol: 'Sg', zh: '𨭎', en: 'Seaborgium', mass: 269, group: 6, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 6 },
+  { atomic: 107, symbol: 'Bh', zh: '𨨏', en: 'Bohrium', mass: 270, group: 7, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 7 },
+  { atomic: 108, symbol: 'Hs', zh: '𨭆', en: 'Hassium', mass: 269, group: 8, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 8 },
+  { atomic: 109, symbol: 'Mt', zh: '䥑', en: 'Meitnerium', mass: 278, group: 9, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 9 },
+  { atomic: 110, symbol: 'Ds', zh: '鐽', en: 'Darmstadtium', mass: 281, group: 10, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 10 },
+  { atomic: 111, symbol: 'Rg', zh: '錀', en: 'Roentgenium', mass: 282, group: 11, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 11 },
+  { atomic: 112, symbol: 'Cn', zh: '鎶', en: 'Copernicium', mass: 285, group: 12, period: 7, block: 'd', category: 'METAL', charges: [], row: 7, col: 12 },
+  { atomic: 113, symbol: 'Nh', zh: '鉨', en: 'Nihonium', mass: 286, group: 13, period: 7, block: 'p', category: 'METAL', charges: [], row: 7, col: 13 },
+  { atomic: 114, symbol: 'Fl', zh: '鈇', en: 'Flerovium', mass: 289, group: 14, period: 7, block: 'p', category: 'METAL', charges: [], row: 7, col: 14 },
+  { atomic: 115, symbol: 'Mc', zh: '鏌', en: 'Moscovium', mass: 290, group: 15, period: 7, block: 'p', category: 'METAL', charges: [], row: 7, col: 15 },
+  { atomic: 116, symbol: 'Lv', zh: '鉝', en: 'Livermorium', mass: 293, group: 16, period: 7, block: 'p', category: 'METAL', charges: [], row: 7, col: 16 },
+  { atomic: 117, symbol: 'Ts', zh: '鿬', en: 'Tennessine', mass: 294, group: 17, period: 7, block: 'p', category: 'METAL', charges: [], row: 7, col: 17 },
+  { atomic: 118, symbol: 'Og', zh: '鿫', en: 'Oganesson', mass: 294, group: 18, period: 7, block: 'p', category: 'NOBLE_GAS', charges: [], row: 7, col: 18 },
+];
+
+const BY_SYMBOL: Record<string, ElementData> = Object.fromEntries(PERIODIC_TABLE.map(el => [el.symbol, el]));
+
+export const ELEMENT_SYMBOLS = new Set(PERIODIC_TABLE.map(el => el.symbol));
+
+export const getElement = (symbol: string): ElementData | undefined => BY_SYMBOL[symbol];
+
+export const getElementByAtomicNumber = (atomic: number): ElementData | undefined => PERIODIC_TABLE[atomic - 1];
+
+/**
+ * 是否為可變電荷的金屬（命名時需加羅馬數字，如 Iron(II)）。
+ */
+export const hasVariableCharge = (symbol: string): boolean => {
+  const el = BY_SYMBOL[symbol];
+  return !!el && el.category === 'METAL' && el.charges.length > 1;
+};
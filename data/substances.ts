@@ -0,0 +1,65 @@
+// 不能由離子組合命名的物質（分子物質、酸、有機化合物、水合物等）的中英文名稱
+// 可加上物態作鍵，如 "HCl(g)"，以區分氯化氫氣體和鹽酸
+export const SUBSTANCE_NAMES: Record<string, [string, string]> = {
+  'H2': ['氫氣', 'Hydrogen'],
+  'O2': ['氧氣', 'Oxygen'],
+  'N2': ['氮氣', 'Nitrogen'],
+  'F2': ['氟氣', 'Fluorine'],
+  'Cl2': ['氯氣', 'Chlorine'],
+  'Br2': ['溴', 'Bromine'],
+  'I2': ['碘', 'Iodine'],
+  'P4': ['磷', 'Phosphorus'],
+  'e^-': ['電子', 'Electron'],
+  'H2O': ['水', 'Water'],
+  'H2O2': ['過氧化氫', 'Hydrogen peroxide'],
+  'CO': ['一氧化碳', 'Carbon monoxide'],
+  'CO2': ['二氧化碳', 'Carbon dioxide'],
+  'NO': ['一氧化氮', 'Nitrogen monoxide'],
+  'NO2': ['二氧化氮', 'Nitrogen dioxide'],
+  'SO2': ['二氧化硫', 'Sulphur dioxide'],
+  'SO3': ['三氧化硫', 'Sulphur trioxide'],
+  'NH3': ['氨', 'Ammonia'],
+  'SiO2': ['二氧化矽', 'Silicon dioxide'],
+  'SiCl4': ['四氯化矽', 'Silicon tetrachloride'],
+  'PCl5': ['五氯化磷', 'Phosphorus pentachloride'],
+  'P4O10': ['十氧化四磷', 'Tetraphosphorus decaoxide'],
+  'Fe3O4': ['四氧化三鐵', 'Triiron tetraoxide'],
+  'HF': ['氟化氫', 'Hydrogen fluoride'],
+  'HCl': ['鹽酸', 'Hydrochloric acid'],
+  'HCl(g)': ['氯化氫', 'Hydrogen chloride'],
+  'HNO3': ['硝酸', 'Nitric acid'],
+  'H2SO4': ['硫酸', 'Sulphuric acid'],
+  'H2SO3': ['亞硫酸', 'Sulphurous acid'],
+  'H3PO4': ['磷酸', 'Phosphoric acid'],
+  'HOCl': ['次氯酸', 'Hypochlorous acid'],
+  'CH3COOH': ['乙酸', 'Ethanoic acid'],
+  'H2C2O4': ['乙二酸', 'Ethanedioic acid'],
+  'Na2SiO3': ['矽酸鈉', 'Sodium silicate'],
+  'NaAl(OH)4': ['四羥基合鋁酸鈉', 'Sodium tetrahydroxoaluminate'],
+  'S2O3^2-': ['硫代硫酸根離子', 'Thiosulphate ion'],
+  'S4O6^2-': ['連四硫酸根離子', 'Tetrathionate ion'],
+  'CuSO4·5H2O': ['五水合硫酸銅(II)', 'Copper(II) sulphate-5-water'],
+  'CoCl2·6H2O': ['六水合氯化鈷(II)', 'Cobalt(II) chloride-6-water'],
+  'Na2CO3·10H2O': ['十水合碳酸鈉', 'Sodium carbonate-10-water'],
+  'Na2CO3·H2O': ['一水合碳酸鈉', 'Sodium carbonate-1-water'],
+  'CH4': ['甲烷', 'Methane'],
+  'C2H6': ['乙烷', 'Ethane'],
+  'C3H8': ['丙烷', 'Propane'],
+  'C4H10': ['丁烷', 'Butane'],
+  'C5H12': ['戊烷', 'Pentane'],
+  'C6H14': ['己烷', 'Hexane'],
+  'C7H16': ['庚烷', 'Heptane'],
+  'C8H18': ['辛烷', 'Octane'],
+  'C10H22': ['癸烷', 'Decane'],
+  'C2H4': ['乙烯', 'Ethene'],
+  'C3H6': ['丙烯', 'Propene'],
+  'C6H6': ['苯', 'Benzene'],
+  'CH3OH': ['甲醇', 'Methanol'],
+  'C2H5OH': ['乙醇', 'Ethanol'],
+  'C3H7OH': ['丙-1-醇', 'Propan-1-ol'],
+  'C6H12O6': ['葡萄糖', 'Glucose'],
+  'CH3Cl': ['氯甲烷', 'Chloromethane'],
+  'CH2Cl2': ['二氯甲烷', 'Dichloromethane'],
+  'C2H5Cl': ['氯乙烷', 'Chloroethane'],
+  'C2H4Br2': ['1,2-二溴乙烷', '1,2-Dibromoethane'],
+};
@@ -1,15 +1,27 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { openStorage } from './services/repository';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// 開發模式下檢查所有內建題目，有問題時在主控台列出報告
+if (process.env.NODE_ENV !== 'production') {
+  import('./services/contentValidator').then(({ validateContent, formatContentReport }) => {
+    const report = validateContent();
+    if (report.problems.length > 0) console.warn(formatContentReport(report));
+  }).catch(e => console.error("Content check failed:", e));
+}
+
+// 所有資料先載入記憶體，介面之後可以同步讀取；開啟失敗時仍顯示介面，資料只保存在記憶體
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+openStorage()
+  .catch(e => console.error("Storage failed to open:", e))
+  .then(() => root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  ));
\ No newline at end of file
@@ -0,0 +1,48 @@
+// 檢查電荷寫法的轉換及手寫答案的本地評分；有錯誤時以非零狀態結束，可用於 CI
+// 用法：npm run check:notation
+import { normaliseCharge } from '../services/equationParser';
+import { isSameFormula } from '../services/handwriting';
+
+// 學生輸入的電荷寫法及應轉成的標準寫法
+const CHARGE_NOTATION: [string, string][] = [
+  ['Fe3+', 'Fe^3+'],
+  ['Cl-', 'Cl^-'],
+  ['e-', 'e^-'],
+  ['NH4+', 'NH4^+'],
+  ['SO42-', 'SO4^2-'],
+  ['Hg22+', 'Hg2^2+'],
+  ['Fe(CN)63-', 'Fe(CN)6^3-'],
+  ['Fe(CN)64-', 'Fe(CN)6^4-'],
+];
+
+// AI 從手寫讀出的答案、題目答案，以及本地評分應否判為正確
+const WRITTEN_ANSWERS: [string, string, boolean][] = [
+  ['Hg2 2+', 'Hg2^2+', true],
+  ['Hg22+', 'Hg2^2+', true],
+  ['Hg₂²⁺', 'Hg2^2+', true],
+  ['O²-', 'O^2-', true],
+  ['O²⁻', 'O^2-', true],
+  ['SO₄²⁻', 'SO4^2-', true],
+  ['SO4 2-', 'SO4^2-', true],
+  ['Fe³⁺', 'Fe^3+', true],
+  ['NH₄⁺', 'NH4^+', true],
+  ['CO3 2−', 'CO3^2-', true],
+  ['Ca (OH) 2', 'Ca(OH)2', true],
+  ['CaO2H2', 'Ca(OH)2', false],
+  ['Fe²⁺', 'Fe^3+', false],
+];
+
+const failures: string[] = [];
+CHARGE_NOTATION.forEach(([input, expected]) => {
+  const result = normaliseCharge(input);
+  if (result !== expected) failures.push(`  ${input}: read as ${result}, expected ${expected}`);
+});
+WRITTEN_ANSWERS.forEach(([written, expected, correct]) => {
+  if (isSameFormula(written, expected) !== correct) failures.push(`  ${written}: should be marked ${correct ? 'correct' : 'wrong'} for ${expected}`);
+});
+
+const checked = CHARGE_NOTATION.length + WRITTEN_ANSWERS.length;
+console.log(failures.length === 0
+  ? `Notation check passed: ${checked} cases.`
+  : [`Notation check failed ${failures.length} of ${checked} cases:`, ...failures].join('\n'));
+process.exit(failures.length > 0 ? 1 : 0);
@@ -0,0 +1,52 @@
+// 本地的 OpenAI 相容模擬伺服器：回覆固定、不需連網，用於測試 openai 後端
+// 用法：npm run mock:ai，然後設定 AI_PROVIDER=openai、AI_BASE_URL=http://localhost:8787/v1、AI_MODEL=mock
+import { createServer } from 'http';
+import { readPromptInput } from '../services/aiProvider';
+import { mockProvider } from '../services/mockProvider';
+
+const PORT = Number(process.env.MOCK_AI_PORT) || 8787;
+
+// 伺服器只讀取的 OpenAI chat completions 請求欄位；附有圖片時 content 為陣列
+interface ChatRequest {
+  model?: string;
+  messages?: { role: string; content: string | { type: string; text?: string }[] }[];
+}
+
+// 取出最後一則用戶訊息的文字
+const lastUserText = (body: ChatRequest): string => {
+  const message = [...(body.messages || [])].reverse().find(m => m.role === 'user');
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return (message.content || []).filter(part => part.type === 'text').map(part => part.text || '').join('\n');
+};
+
+const reply = async (body: ChatRequest): Promise<object> => {
+  const input = readPromptInput(lastUserText(body));
+  if (!input) throw new Error('prompt has no INPUT block');
+  switch (input.task) {
+    case 'GENERATE_QUESTIONS': return { questions: await mockProvider.generateQuestions(input) };
+    case 'GRADE_HANDWRITING': return mockProvider.gradeHandwriting({ images: [], ...input });
+    case 'EXPLAIN_MISTAKE': return mockProvider.explainMistake(input);
+  }
+};
+
+createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') { res.writeHead(204).end(); return; }
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) { res.writeHead(404).end(); return; }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', async () => {
+    try {
+      const body: ChatRequest = JSON.parse(raw);
+      const content = JSON.stringify(await reply(body));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ id: 'mock', object: 'chat.completion', model: body.model, choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] }));
+    } catch (e) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: (e as Error).message } }));
+    }
+  });
+}).listen(PORT, () => console.log(`Mock AI server listening on http://localhost:${PORT}/v1`));
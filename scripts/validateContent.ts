@@ -0,0 +1,7 @@
+// 檢查所有內建題目並輸出報告；有問題時以非零狀態結束，可用於 CI
+// 用法：npm run validate:content
+import { validateContent, formatContentReport } from '../services/contentValidator';
+
+const report = validateContent();
+console.log(formatContentReport(report));
+process.exit(report.problems.length > 0 ? 1 : 0);
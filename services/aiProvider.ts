@@ -0,0 +1,216 @@
+import { EquationTopic, Language, SessionDifficulty } from '../types';
+
+export type AIProviderName = 'gemini' | 'openai' | 'mock';
+
+export type AITask = 'GENERATE_QUESTIONS' | 'GRADE_HANDWRITING' | 'EXPLAIN_MISTAKE';
+
+export interface QuestionRequest {
+  topic: EquationTopic;
+  count: number;
+  difficulty: SessionDifficulty;
+  language: Language;
+}
+
+// AI 回傳的題目只是一行方程式文字，由呼叫者解析及檢查
+export interface GeneratedQuestion {
+  equation: string;    // 如 "2Mg(s) + O2(g) -> 2MgO(s)"
+  difficulty?: string;
+}
+
+// 手寫測驗的題目：學生看名稱寫出化學式
+export interface GradingQuestion {
+  zh: string;
+  en: string;
+  formula: string;
+}
+
+export interface GradingRequest {
+  images: string[]; // data URL 或純 base64：整頁相片一張，或每題一張
+  questions: GradingQuestion[];
+  language: Language;
+}
+
+export interface EvaluationResult {
+  score: number;
+  results: {
+    question: string;
+    expected: string;
+    studentWrote: string;
+    isCorrect: boolean;
+    aiCorrect?: boolean; // 本地重新評分後保留 AI 自己的判定
+    feedback?: string;
+  }[];
+  overallFeedback: string;
+}
+
+export interface MistakeRequest {
+  question: string;
+  expected: string;
+  studentAnswer: string;
+  issues: string[]; // 本地檢查找到的問題，如 "O: left 2, right 3"
+}
+
+// 解釋同時提供中英文，快取後兩種語言都可即時顯示
+export interface MistakeExplanation {
+  zh: string;
+  en: string;
+}
+
+/**
+ * AI 功能的統一介面；各後端只需實作這三項。
+ * 任何一項失敗時應拋出錯誤，由呼叫者改用離線內容。
+ */
+export interface AIProvider {
+  name: AIProviderName;
+  generateQuestions: (request: QuestionRequest) => Promise<GeneratedQuestion[]>;
+  gradeHandwriting: (request: GradingRequest) => Promise<EvaluationResult>;
+  explainMistake: (request: MistakeRequest) => Promise<MistakeExplanation>;
+}
+
+export interface ImagePart {
+  mimeType: string;
+  data: string;
+}
+
+// 以文字往返的後端（Gemini、OpenAI 相容伺服器）只需提供這個函數；schema 為回覆必須符合的 JSON Schema
+export type CompleteFn = (prompt: string, images?: ImagePart[], schema?: object) => Promise<string>;
+
+const stringField = { type: 'string' };
+
+// 批改結果的嚴格格式：所有欄位必填，不容許額外欄位
+export const GRADING_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['score', 'results', 'overallFeedback'],
+  properties: {
+    score: { type: 'integer' },
+    overallFeedback: stringField,
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['question', 'expected', 'studentWrote', 'isCorrect', 'feedback'],
+        properties: { question: stringField, expected: stringField, studentWrote: stringField, isCorrect: { type: 'boolean' }, feedback: stringField },
+      },
+    },
+  },
+};
+
+const INSTRUCTIONS: Record<AITask, string> = {
+  GENERATE_QUESTIONS:
+    'You write HKDSE Chemistry equation-balancing questions. Write `count` correct, balanced equations for `topic` ' +
+    'with the lowest whole-number coefficients and state symbols, one per line of text such as "2Mg(s) + O2(g) -> 2MgO(s)". ' +
+    'Write charges as Fe^3+ and electrons as e^-. Reply with JSON only: {"questions":[{"equation":"...","difficulty":"easy|medium|hard"}]}.',
+  GRADE_HANDWRITING:
+    'The images show a student\'s handwritten answers: either one image per question in the same order as `questions`, ' +
+    'or a single photo with the answers numbered in that order. For each question the student ' +
+    'was shown the name and had to write `formula`. Read exactly what was written and mark it; case and subscripts matter. ' +
+    'Give exactly one result per question, in order, with `expected` copied from `formula`; write "" for studentWrote if the answer is blank or unreadable. ' +
+    'Reply with JSON only: {"score":0,"results":[{"question":"...","expected":"...","studentWrote":"...","isCorrect":true,"feedback":"..."}],"overallFeedback":"..."}. ' +
+    'Write feedback in `language` (ZH = Traditional Chinese, EN = English).',
+  EXPLAIN_MISTAKE:
+    'A secondary school chemistry student answered `question` with `studentAnswer`; the correct answer is `expected`. ' +
+    '`issues` lists what the app already found wrong, such as atoms or charge that do not balance. ' +
+    'Explain the mistake in two or three short sentences without simply giving the answer. ' +
+    'Reply with JSON only: {"zh":"...","en":"..."}, the same explanation in Traditional Chinese and in English.',
+};
+
+const INPUT_MARKER = '\n\nINPUT:\n';
+
+// buildPrompt 放入提示的輸入，按任務區分
+export type PromptInput =
+  | ({ task: 'GENERATE_QUESTIONS' } & QuestionRequest)
+  | ({ task: 'GRADE_HANDWRITING' } & Omit<GradingRequest, 'images'>)
+  | ({ task: 'EXPLAIN_MISTAKE' } & MistakeRequest);
+
+const TASKS: AITask[] = ['GENERATE_QUESTIONS', 'GRADE_HANDWRITING', 'EXPLAIN_MISTAKE'];
+
+// 各後端檢查回覆格式時共用
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// 回覆中的文字欄位；不是字串時當作空白
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * 組合提示：固定指示加上以 JSON 表示的輸入，方便本地模擬伺服器讀回。
+ */
+export const buildPrompt = (input: PromptInput): string =>
+  `${INSTRUCTIONS[input.task]}${INPUT_MARKER}${JSON.stringify(input)}`;
+
+/**
+ * 從提示中取回 buildPrompt 放入的輸入；格式不符或任務不明時回傳 null。
+ */
+export const readPromptInput = (prompt: string): PromptInput | null => {
+  const index = prompt.lastIndexOf(INPUT_MARKER);
+  if (index === -1) return null;
+  try {
+    const input: unknown = JSON.parse(prompt.slice(index + INPUT_MARKER.length));
+    return isRecord(input) && TASKS.includes(input.task as AITask) ? input as PromptInput : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 解析模型回覆的 JSON，容許前後包有 ``` 代碼塊；無法解析時拋出錯誤。結構由呼叫者檢查。
+ */
+export const parseJSONReply = (reply: string): unknown => {
+  const trimmed = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error(`AI reply is not JSON: ${trimmed.slice(0, 80)}`);
+  }
+};
+
+// 把 data URL 拆成 MIME 類型及 base64 內容
+export const splitImage = (image: string): ImagePart => {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(image);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/jpeg', data: image };
+};
+
+/**
+ * 超時後拒絕的 Promise，避免網絡被封鎖時介面一直等待。
+ */
+export const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error(`AI request timed out after ${ms} ms`)), ms);
+  promise.then(
+    value => { clearTimeout(timer); resolve(value); },
+    error => { clearTimeout(timer); reject(error); },
+  );
+});
+
+/**
+ * 由文字往返函數建立完整的 AI 後端：負責組合提示及檢查回覆的結構。
+ */
+export const createTextProvider = (name: AIProviderName, complete: CompleteFn): AIProvider => ({
+  name,
+  generateQuestions: async (request) => {
+    const reply = parseJSONReply(await complete(buildPrompt({ task: 'GENERATE_QUESTIONS', ...request })));
+    if (!isRecord(reply) || !Array.isArray(reply.questions)) throw new Error('AI reply has no questions list');
+    return reply.questions
+      .filter((q): q is Record<string, unknown> => isRecord(q) && typeof q.equation === 'string')
+      .map(q => ({ equation: text(q.equation), ...(typeof q.difficulty === 'string' ? { difficulty: q.difficulty } : {}) }));
+  },
+  gradeHandwriting: async ({ images, ...input }) => {
+    const reply = parseJSONReply(await complete(buildPrompt({ task: 'GRADE_HANDWRITING', ...input }), images.map(splitImage), GRADING_SCHEMA));
+    if (!isRecord(reply) || typeof reply.score !== 'number' || !Array.isArray(reply.results) || !reply.results.every(isRecord)) {
+      throw new Error('AI reply is not a grading result');
+    }
+    const results = (reply.results as Record<string, unknown>[]).map(r => ({
+      question: text(r.question),
+      expected: text(r.expected),
+      studentWrote: text(r.studentWrote),
+      isCorrect: r.isCorrect === true,
+      ...(text(r.feedback) ? { feedback: text(r.feedback) } : {}),
+    }));
+    return { score: reply.score, results, overallFeedback: text(reply.overallFeedback) };
+  },
+  explainMistake: async (request) => {
+    const reply = parseJSONReply(await complete(buildPrompt({ task: 'EXPLAIN_MISTAKE', ...request })));
+    if (!isRecord(reply) || !text(reply.zh) || !text(reply.en)) throw new Error('AI reply has no explanation in both languages');
+    return { zh: text(reply.zh), en: text(reply.en) };
+  },
+});
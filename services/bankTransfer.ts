@@ -0,0 +1,415 @@
+import { CustomCompound, CustomQuestion, EquationChallenge, EquationTopic, Language, ReactionCondition } from '../types';
+import { EQUATION_ENTRIES } from '../data/equations';
+import { CHALLENGES_BY_TOPIC, CHALLENGE_TOPICS } from '../data/challenges';
+import { CATIONS, ANIONS } from '../data/ions';
+import { describeEquationError, serializeEquation } from './equationParser';
+import { validateFormula, describeFormulaError } from './formulaValidator';
+import { buildCompound, listCompounds } from './compoundBuilder';
+import { substanceName } from './equationBank';
+import {
+  EQUATION_TOPICS, checkAuthoredEquation, equationKey, nextCustomId,
+  getCustomQuestions, getCustomCompounds, saveCustomQuestions, saveCustomCompounds,
+} from './customContent';
+
+// 匯出檔的格式及版本，詳見 docs/question-bank-format.md
+export const BANK_FORMAT = 'chemistry-master-bank';
+export const BANK_VERSION = 1;
+
+export type BankSource = 'BUILT_IN' | 'CUSTOM';
+export type RowKind = 'equation' | 'challenge' | 'compound';
+
+// 方程式平衡題及方程式建構題共用的一行
+export interface EquationRow {
+  id: string;
+  topic: EquationTopic;
+  equation: string;                        // 如 "2Mg(s) + O2(g) -> 2MgO(s)"
+  difficulty?: CustomQuestion['difficulty'];
+  conditions?: ReactionCondition[];
+  descriptionZH?: string;
+  descriptionEN?: string;
+  names?: Record<string, [string, string]>; // 化學式 → [中文名, 英文名]，未列出的自動命名
+  source?: BankSource;                     // 只在匯出時標示
+}
+
+export interface CompoundRow {
+  formula: string;
+  cation: string;
+  anion: string;
+  nameZH: string;
+  nameEN: string;
+  source?: BankSource;
+}
+
+export interface BankFile {
+  format: string;
+  version: number;
+  exportedAt: string;
+  equations: EquationRow[];
+  challenges: EquationRow[];
+  compounds: CompoundRow[];
+}
+
+// 匯入時每一行的檢查結果
+export interface ImportRow {
+  kind: string;
+  position: number;      // CSV 行號，或 JSON 中該類別的第幾項
+  id: string;            // 題目編號或化學式
+  summary: string;       // 方程式或化學式原文
+  errors: string[];
+  question?: CustomQuestion;
+  compound?: CustomCompound;
+}
+
+export interface RawRow {
+  kind: string;
+  position: number;
+  fields: Record<string, unknown>;
+}
+
+export type BankParseResult =
+  | { ok: true; rows: RawRow[] }
+  | { ok: false; errors: string[] };
+
+const CSV_COLUMNS = ['kind', 'id', 'topic', 'equation', 'difficulty', 'conditions', 'descriptionZH', 'descriptionEN', 'names', 'formula', 'cation', 'anion', 'nameZH', 'nameEN', 'source'];
+const DIFFICULTIES: CustomQuestion['difficulty'][] = ['easy', 'medium', 'hard'];
+const CONDITION_TYPES: ReactionCondition['type'][] = ['HEAT', 'CATALYST', 'LIGHT', 'UV_LIGHT', 'TEXT'];
+
+// 匯入的內容不可信，逐層確認類型
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isConditionType = (value: unknown): value is ReactionCondition['type'] =>
+  CONDITION_TYPES.includes(value as ReactionCondition['type']);
+
+/**
+ * 內建建構題，每題一行。
+ */
+const builtInChallengeRows = (): EquationRow[] => Object.entries(CHALLENGES_BY_TOPIC).flatMap(([topicKey, challenges]) =>
+  challenges.map((challenge: EquationChallenge) => {
+    const row: EquationRow = {
+      id: challenge.id || '',
+      topic: CHALLENGE_TOPICS[topicKey],
+      equation: serializeEquation(challenge, '->'),
+      descriptionZH: challenge.descriptionZH,
+      descriptionEN: challenge.descriptionEN,
+      source: 'BUILT_IN',
+    };
+    if (challenge.conditions) row.conditions = challenge.conditions;
+    return row;
+  }));
+
+const customKey = (c: CustomCompound) => `${c.cation}|${c.anion}`;
+
+/**
+ * 匯出題庫；includeBuiltIn 為 false 時只匯出教師自訂內容。
+ */
+export const exportBank = (includeBuiltIn: boolean = true): BankFile => {
+  const equations: EquationRow[] = [];
+  if (includeBuiltIn) {
+    Object.entries(EQUATION_ENTRIES).forEach(([topic, entries]) => entries!.forEach(entry => {
+      const row: EquationRow = { id: entry.id, topic: topic as EquationTopic, equation: entry.equation, difficulty: entry.difficulty, source: 'BUILT_IN' };
+      if (entry.conditions) row.conditions = entry.conditions;
+      equations.push(row);
+    }));
+  }
+  getCustomQuestions().forEach(q => {
+    const row: EquationRow = {
+      id: q.id, topic: q.topic, equation: q.equation, difficulty: q.difficulty,
+      descriptionZH: q.descriptionZH, descriptionEN: q.descriptionEN, names: q.names, source: 'CUSTOM',
+    };
+    if (q.conditions) row.conditions = q.conditions;
+    equations.push(row);
+  });
+
+  const customKeys = new Set(getCustomCompounds().map(customKey));
+  const compounds: CompoundRow[] = listCompounds()
+    .map(c => ({
+      formula: c.formula, cation: c.cation.formula, anion: c.anion.formula, nameZH: c.nameZH, nameEN: c.nameEN,
+      source: (customKeys.has(customKey({ cation: c.cation.formula, anion: c.anion.formula })) ? 'CUSTOM' : 'BUILT_IN') as BankSource,
+    }))
+    .filter(c => includeBuiltIn || c.source === 'CUSTOM');
+
+  return {
+    format: BANK_FORMAT,
+    version: BANK_VERSION,
+    exportedAt: new Date().toISOString(),
+    equations,
+    challenges: includeBuiltIn ? builtInChallengeRows() : [],
+    compounds,
+  };
+};
+
+export const bankToJSON = (file: BankFile): string => JSON.stringify(file, null, 2);
+
+// --- CSV ---
+
+const formatConditionsCell = (conditions: ReactionCondition[] = []) => conditions.map(c => c.detail ? `${c.type}:${c.detail}` : c.type).join(';');
+const formatNamesCell = (names: Record<string, [string, string]> = {}) => Object.entries(names).map(([f, [zh, en]]) => `${f}=${zh}|${en}`).join(';');
+
+const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * 轉為一個 CSV 檔：每行以 kind 欄標示類別，加上 BOM 讓試算表以 UTF-8 開啟中文。
+ */
+export const bankToCSV = (file: BankFile): string => {
+  const lines = [CSV_COLUMNS.join(',')];
+  const push = (record: Record<string, string | undefined>) => lines.push(CSV_COLUMNS.map(col => csvCell(record[col] || '')).join(','));
+  const pushEquation = (kind: RowKind, row: EquationRow) => push({
+    kind, id: row.id, topic: row.topic, equation: row.equation, difficulty: row.difficulty,
+    conditions: formatConditionsCell(row.conditions), descriptionZH: row.descriptionZH, descriptionEN: row.descriptionEN,
+    names: formatNamesCell(row.names), source: row.source,
+  });
+  file.equations.forEach(row => pushEquation('equation', row));
+  file.challenges.forEach(row => pushEquation('challenge', row));
+  file.compounds.forEach(row => push({ kind: 'compound', id: row.formula, ...row }));
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+// 解析 CSV，支援引號內的逗號、換行及 "" 跳脫
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row);
+      row = []; cell = '';
+    } else cell += ch;
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows;
+};
+
+const parseConditionsCell = (cell: string): unknown => cell.trim() === '' ? undefined : cell.split(';').map(part => {
+  const [type, ...detail] = part.trim().split(':');
+  return detail.length > 0 ? { type, detail: detail.join(':') } : { type };
+});
+
+const parseNamesCell = (cell: string): unknown => {
+  if (cell.trim() === '') return undefined;
+  const names: Record<string, string[]> = {};
+  cell.split(';').forEach(part => {
+    const [formula, pair = ''] = part.split('=');
+    names[formula.trim()] = pair.split('|').map(n => n.trim());
+  });
+  return names;
+};
+
+/**
+ * 讀入 JSON 或 CSV 文字（以首個字元判斷），拆成待檢查的行；檔案本身格式錯誤時回傳錯誤。
+ */
+export const parseBankText = (text: string, language: Language): BankParseResult => {
+  const isZH = language === 'ZH';
+  const source = text.replace(/^\uFEFF/, '').trim();
+  if (source === '') return { ok: false, errors: [isZH ? '檔案是空的。' : 'The file is empty.'] };
+
+  if (source.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(source);
+    } catch (e) {
+      return { ok: false, errors: [isZH ? `JSON 格式錯誤：${(e as Error).message}` : `Invalid JSON: ${(e as Error).message}`] };
+    }
+    if (!isRecord(parsed)) return { ok: false, errors: [isZH ? 'JSON 最外層必須是物件。' : 'The JSON must be an object.'] };
+    const data = parsed;
+    if (data.format !== BANK_FORMAT) return { ok: false, errors: [isZH ? `format 必須是 "${BANK_FORMAT}"。` : `format must be "${BANK_FORMAT}".`] };
+    if (typeof data.version !== 'number' || data.version > BANK_VERSION) {
+      return { ok: false, errors: [isZH ? `不支援的版本：${data.version}。` : `Unsupported version: ${data.version}.`] };
+    }
+    const sections: [string, RowKind][] = [['equations', 'equation'], ['challenges', 'challenge'], ['compounds', 'compound']];
+    const errors = sections
+      .filter(([key]) => data[key] !== undefined && !Array.isArray(data[key]))
+      .map(([key]) => isZH ? `${key} 必須是陣列。` : `${key} must be an array.`);
+    if (errors.length > 0) return { ok: false, errors };
+    const rows = sections.flatMap(([key, kind]) => ((data[key] || []) as unknown[]).map((fields, index) => ({
+      kind, position: index + 1, fields: isRecord(fields) ? fields : {},
+    })));
+    return { ok: true, rows };
+  }
+
+  const [header, ...body] = parseCSV(source);
+  const missing = ['kind', 'id'].filter(col => !header.includes(col));
+  if (missing.length > 0) return { ok: false, errors: [isZH ? `CSV 缺少欄位：${missing.join(', ')}。` : `CSV is missing column(s): ${missing.join(', ')}.`] };
+  const rows = body
+    .map((cells, index) => ({ cells, position: index + 2 }))
+    .filter(({ cells }) => cells.some(c => c.trim() !== ''))
+    .map(({ cells, position }) => {
+      const fields: Record<string, unknown> = {};
+      header.forEach((col, i) => { if (cells[i] !== undefined && cells[i].trim() !== '') fields[col] = cells[i].trim(); });
+      if (typeof fields.conditions === 'string') fields.conditions = parseConditionsCell(fields.conditions);
+      if (typeof fields.names === 'string') fields.names = parseNamesCell(fields.names);
+      return { kind: String(fields.kind || ''), position, fields };
+    });
+  return { ok: true, rows };
+};
+
+// --- 匯入檢查 ---
+
+const field = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const checkConditions = (value: unknown, errors: string[], isZH: boolean): ReactionCondition[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(isZH ? 'conditions 格式錯誤。' : 'conditions is not a list.');
+    return undefined;
+  }
+  const conditions: ReactionCondition[] = [];
+  value.forEach((c: unknown) => {
+    const entry = isRecord(c) ? c : {};
+    if (!isConditionType(entry.type)) {
+      errors.push(isZH ? `未知的反應條件：${String(entry.type)}` : `Unknown condition: ${String(entry.type)}`);
+      return;
+    }
+    conditions.push(typeof entry.detail === 'string' && entry.detail ? { type: entry.type, detail: entry.detail } : { type: entry.type });
+  });
+  return conditions;
+};
+
+// 所有已使用的編號（題庫、內建建構題及自訂題目）
+const existingIds = (): Set<string> => new Set([
+  ...Object.values(EQUATION_ENTRIES).flatMap(entries => entries!.map(e => e.id)),
+  ...builtInChallengeRows().map(r => r.id),
+  ...getCustomQuestions().map(q => q.id),
+]);
+
+const checkEquationRow = (raw: RawRow, usedIds: Set<string>, usedKeys: Map<string, string>, isZH: boolean, language: Language): ImportRow => {
+  const f = raw.fields;
+  const equationText = field(f.equation);
+  const row: ImportRow = { kind: raw.kind, position: raw.position, id: field(f.id), summary: equationText, errors: [] };
+  const errors = row.errors;
+
+  if (row.id && usedIds.has(row.id)) errors.push(isZH ? `編號 ${row.id} 已被使用。` : `ID ${row.id} is already in use.`);
+  const topic = field(f.topic) as EquationTopic;
+  if (!EQUATION_TOPICS.includes(topic)) errors.push(isZH ? `未知的課題：${topic || '（空白）'}` : `Unknown topic: ${topic || '(blank)'}`);
+  const difficulty = (field(f.difficulty) || 'medium') as CustomQuestion['difficulty'];
+  if (!DIFFICULTIES.includes(difficulty)) errors.push(isZH ? `難度必須是 easy、medium 或 hard。` : `difficulty must be easy, medium or hard.`);
+  const descriptionZH = field(f.descriptionZH);
+  const descriptionEN = field(f.descriptionEN);
+  if (raw.kind === 'challenge' ? !descriptionZH || !descriptionEN : !descriptionZH !== !descriptionEN) {
+    errors.push(isZH ? '需要中英文描述。' : 'Both Chinese and English descriptions are needed.');
+  }
+  const conditions = checkConditions(f.conditions, errors, isZH);
+
+  // 與編寫畫面相同的檢查：格式、守恆、最簡整數比、答案唯一及重複
+  const check = checkAuthoredEquation(equationText);
+  check.parseErrors.forEach(e => errors.push(describeEquationError(e, language)));
+  if (check.imbalance && !check.imbalance.isBalanced) {
+    const issues = check.imbalance.elements.map(e => `${e.element} ${e.left}≠${e.right}`);
+    if (check.imbalance.chargeLeft !== check.imbalance.chargeRight) issues.push(`${isZH ? '電荷' : 'charge'} ${check.imbalance.chargeLeft}≠${check.imbalance.chargeRight}`);
+    errors.push(`${isZH ? '未平衡：' : 'Unbalanced: '}${issues.join(', ')}`);
+  }
+  if (check.equation && !check.lowestRatio) errors.push(isZH ? '係數須為最簡整數比。' : 'Coefficients are not in the lowest ratio.');
+  if (check.equation && !check.uniqueAnswer) errors.push(isZH ? '平衡答案不唯一。' : 'The balanced answer is not unique.');
+  if (check.duplicateOf) errors.push(isZH ? `與 ${check.duplicateOf} 相同。` : `Same equation as ${check.duplicateOf}.`);
+
+  const names: Record<string, [string, string]> = {};
+  if (check.equation) {
+    const key = equationKey(check.equation);
+    if (usedKeys.has(key)) errors.push(isZH ? `與本檔案的 ${usedKeys.get(key)} 相同。` : `Same equation as ${usedKeys.get(key)} in this file.`);
+    else usedKeys.set(key, row.id || `#${row.position}`);
+
+    const given = isRecord(f.names) ? f.names : {};
+    [...check.equation.reactants, ...check.equation.products].filter(c => c.formula !== 'e^-').forEach(c => {
+      const pair = Array.isArray(given[c.formula]) ? (given[c.formula] as unknown[]).map(field) : [];
+      const found = substanceName(c.formula, c.state);
+      const zh = pair[0] || found?.nameZH || '';
+      const en = pair[1] || found?.nameEN || '';
+      if (!zh || !en) errors.push(isZH ? `${c.formula} 缺少中英文名稱。` : `${c.formula} needs a Chinese and English name.`);
+      names[c.formula] = [zh, en];
+    });
+  }
+
+  if (errors.length === 0) {
+    if (row.id) usedIds.add(row.id);
+    row.question = {
+      id: row.id,
+      equation: serializeEquation(check.equation!, '->'),
+      difficulty,
+      topic,
+      descriptionZH,
+      descriptionEN,
+      names,
+      author: '',
+      createdAt: 0,
+    };
+    if (conditions && conditions.length > 0) row.question.conditions = conditions;
+  }
+  return row;
+};
+
+const checkCompoundRow = (raw: RawRow, usedFormulas: Set<string>, isZH: boolean, language: Language): ImportRow => {
+  const f = raw.fields;
+  const formula = field(f.formula) || field(f.id);
+  const row: ImportRow = { kind: raw.kind, position: raw.position, id: formula, summary: formula, errors: [] };
+  const errors = row.errors;
+
+  const validation = validateFormula(formula);
+  if ('errors' in validation) validation.errors.forEach(e => errors.push(describeFormulaError(e, language)));
+  const cation = CATIONS.find(ion => ion.formula === field(f.cation));
+  const anion = ANIONS.find(ion => ion.formula === field(f.anion));
+  if (!cation) errors.push(isZH ? `離子庫中沒有陽離子 ${field(f.cation) || '（空白）'}。` : `Cation ${field(f.cation) || '(blank)'} is not in the ion bank.`);
+  if (!anion) errors.push(isZH ? `離子庫中沒有陰離子 ${field(f.anion) || '（空白）'}。` : `Anion ${field(f.anion) || '(blank)'} is not in the ion bank.`);
+
+  if (cation && anion) {
+    // 以交叉法組成的化學式及名稱為準
+    const built = buildCompound(cation, anion);
+    if (formula && !('errors' in validation) && formula !== built.formula) {
+      errors.push(isZH ? `化學式應為 ${built.formula}。` : `The formula should be ${built.formula}.`);
+    }
+    if (field(f.nameZH) && field(f.nameZH) !== built.nameZH) errors.push(isZH ? `中文名稱應為 ${built.nameZH}。` : `The Chinese name should be ${built.nameZH}.`);
+    if (field(f.nameEN) && field(f.nameEN) !== built.nameEN) errors.push(isZH ? `英文名稱應為 ${built.nameEN}。` : `The English name should be ${built.nameEN}.`);
+    if (usedFormulas.has(built.formula)) errors.push(isZH ? `${built.formula} 已在化合物庫或本檔案中。` : `${built.formula} is already in the compound bank or this file.`);
+    if (errors.length === 0) {
+      usedFormulas.add(built.formula);
+      row.compound = { cation: cation.formula, anion: anion.formula };
+    }
+  }
+  return row;
+};
+
+/**
+ * 逐行檢查匯入內容，未合併前供預覽；沒有編號的題目會獲分配新的自訂編號。
+ */
+export const previewImport = (rows: RawRow[], language: Language): ImportRow[] => {
+  const isZH = language === 'ZH';
+  const usedIds = existingIds();
+  const usedKeys = new Map<string, string>();
+  const usedFormulas = new Set(listCompounds().map(c => c.formula));
+  let nextNumber = parseInt(nextCustomId().slice(2), 10);
+
+  return rows.map(raw => {
+    if (raw.kind === 'compound') return checkCompoundRow(raw, usedFormulas, isZH, language);
+    if (raw.kind !== 'equation' && raw.kind !== 'challenge') {
+      return { kind: raw.kind, position: raw.position, id: field(raw.fields.id), summary: '', errors: [isZH ? `未知的類別：${raw.kind || '（空白）'}` : `Unknown kind: ${raw.kind || '(blank)'}`] };
+    }
+    const row = checkEquationRow(raw, usedIds, usedKeys, isZH, language);
+    if (row.question && !row.question.id) {
+      let id = '';
+      do { id = `C-${String(nextNumber++).padStart(3, '0')}`; } while (usedIds.has(id));
+      usedIds.add(id);
+      row.id = row.question.id = id;
+    }
+    return row;
+  });
+};
+
+/**
+ * 合併通過檢查的行；有錯誤的行會被略過。回傳加入的題目及化合物數目。
+ */
+export const applyImport = (rows: ImportRow[], author: string): { questions: number; compounds: number } => {
+  const now = Date.now();
+  const questions = rows.filter(r => r.question).map(r => ({ ...r.question!, author, createdAt: now }));
+  const compounds = rows.filter(r => r.compound).map(r => r.compound!);
+  if (questions.length > 0) saveCustomQuestions(questions);
+  if (compounds.length > 0) saveCustomCompounds(compounds);
+  return { questions: questions.length, compounds: compounds.length };
+};
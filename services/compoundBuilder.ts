@@ -0,0 +1,137 @@
+import { IonData } from '../types';
+import { CATIONS, ANIONS, ACID_CATIONS } from '../data/ions';
+import { getCustomCompounds } from './customContent';
+import { orderByHistory } from './recentlySeen';
+
+export interface IonicCompound {
+  formula: string;
+  nameZH: string;
+  nameEN: string;
+  cation: IonData;
+  anion: IonData;
+}
+
+export interface CompoundOptions {
+  difficulties?: IonData['difficulty'][]; // 只使用這些難度的離子，預設全部
+  requirePolyatomic?: boolean;            // 每個化合物至少含一個多原子離子
+}
+
+const gcd = (a: number, b: number): number => {
+  a = Math.abs(a); b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+};
+
+// 只能與指定陽離子組成常見化合物的陰離子
+const ANION_PARTNERS: Record<string, string[]> = {
+  'HCO3^-': ['Na^+', 'K^+', 'NH4^+', 'Mg^2+', 'Ca^2+', 'Ba^2+'],
+  'HSO4^-': ['Na^+', 'K^+', 'NH4^+'],
+  'N^3-': ['Li^+', 'Mg^2+', 'Ca^2+', 'Al^3+'],
+  'CN^-': ['Na^+', 'K^+', 'Ag^+'],
+  'ClO^-': ['Li^+', 'Na^+', 'K^+', 'Ca^2+'],
+};
+
+// 習慣上把陰離子寫在前面的化學式，如 CH3COONa
+const ANION_FIRST = ['CH3COO^-'];
+
+// 只能與指定陰離子組成常見化合物的陽離子
+const CATION_PARTNERS: Record<string, string[]> = {
+  'Cu^+': ['Cl^-', 'Br^-', 'I^-', 'O^2-', 'S^2-'],
+  'Hg2^2+': ['Cl^-', 'Br^-', 'I^-', 'NO3^-', 'SO4^2-'],
+};
+
+// 不存在或會即時分解／發生氧化還原的組合
+const INCOMPATIBLE: Record<string, string[]> = {
+  'NH4^+': ['OH^-', 'O^2-'],
+  'Ag^+': ['OH^-'],
+  'Hg^2+': ['OH^-'],
+  'Al^3+': ['CO3^2-', 'SO3^2-', 'S^2-'],
+  'Cr^3+': ['CO3^2-', 'SO3^2-', 'S^2-'],
+  'Fe^3+': ['CO3^2-', 'SO3^2-', 'S^2-', 'I^-'],
+  'Cu^2+': ['I^-'],
+  'Fe^2+': ['MnO4^-', 'Cr2O7^2-', 'CrO4^2-', 'ClO^-'],
+  'Sn^2+': ['MnO4^-', 'Cr2O7^2-', 'CrO4^2-', 'ClO^-'],
+};
+
+/**
+ * 判斷兩個離子能否組成中學課程中常見的離子化合物。
+ * 含 H+（或 H3O+）的組合屬於酸，不作為離子化合物命名。
+ */
+export const isCommonCompound = (cation: IonData, anion: IonData): boolean => {
+  if (ACID_CATIONS.includes(cation.formula)) return false;
+  if (ANION_PARTNERS[anion.formula] && !ANION_PARTNERS[anion.formula].includes(cation.formula)) return false;
+  if (CATION_PARTNERS[cation.formula] && !CATION_PARTNERS[cation.formula].includes(anion.formula)) return false;
+  return !(INCOMPATIBLE[cation.formula] || []).includes(anion.formula);
+};
+
+const ionGroup = (ion: IonData, count: number): string => {
+  const body = ion.formula.split('^')[0];
+  if (count === 1) return body;
+  return ion.polyatomic ? `(${body})${count}` : `${body}${count}`;
+};
+
+/**
+ * 以交叉法（criss-cross）由陽離子及陰離子組成化學式，並產生中英文名稱。
+ * 例如 Fe^3+ 與 SO4^2- → Fe2(SO4)3、硫酸鐵(III)、Iron(III) sulphate。
+ */
+export const buildCompound = (cation: IonData, anion: IonData): IonicCompound => {
+  const g = gcd(cation.charge, anion.charge);
+  const cationCount = Math.abs(anion.charge) / g;
+  const anionCount = cation.charge / g;
+  return {
+    formula: ANION_FIRST.includes(anion.formula)
+      ? ionGroup(anion, anionCount) + ionGroup(cation, cationCount)
+      : ionGroup(cation, cationCount) + ionGroup(anion, anionCount),
+    nameZH: `${anion.stemZH}${cation.stemZH}`,
+    nameEN: `${cation.stemEN} ${anion.stemEN}`,
+    cation,
+    anion,
+  };
+};
+
+/**
+ * 列出符合條件的所有離子化合物，包括教師自訂的組合。
+ */
+export const listCompounds = (options: CompoundOptions = {}): IonicCompound[] => {
+  const allowed = (ion: IonData) => !options.difficulties || options.difficulties.includes(ion.difficulty);
+  const compounds: IonicCompound[] = [];
+  CATIONS.filter(allowed).forEach(cation => {
+    ANIONS.filter(allowed).forEach(anion => {
+      if (!isCommonCompound(cation, anion)) return;
+      if (options.requirePolyatomic && !cation.polyatomic && !anion.polyatomic) return;
+      compounds.push(buildCompound(cation, anion));
+    });
+  });
+  // 教師加入的組合（例如規則表排除的化合物）
+  getCustomCompounds().forEach(custom => {
+    const cation = CATIONS.find(ion => ion.formula === custom.cation);
+    const anion = ANIONS.find(ion => ion.formula === custom.anion);
+    if (!cation || !anion || !allowed(cation) || !allowed(anion)) return;
+    if (options.requirePolyatomic && !cation.polyatomic && !anion.polyatomic) return;
+    if (compounds.some(c => c.cation === cation && c.anion === anion)) return;
+    compounds.push(buildCompound(cation, anion));
+  });
+  return compounds;
+};
+
+/**
+ * 隨機抽取不重複的離子化合物作為題目。
+ * 同一組題目中每個陽離子最多出現兩次，避免題目過於集中；history 中的化學式排在最後。
+ */
+export const generateCompounds = (count: number, options: CompoundOptions = {}, history: string[] = []): IonicCompound[] => {
+  const pool = orderByHistory(listCompounds(options), compound => compound.formula, history);
+  const picked: IonicCompound[] = [];
+  const cationUse: Record<string, number> = {};
+  for (const compound of pool) {
+    if (picked.length >= count) break;
+    if ((cationUse[compound.cation.formula] || 0) >= 2) continue;
+    cationUse[compound.cation.formula] = (cationUse[compound.cation.formula] || 0) + 1;
+    picked.push(compound);
+  }
+  // 若限制太嚴而不足題數，以餘下的化合物補足
+  for (const compound of pool) {
+    if (picked.length >= count) break;
+    if (!picked.includes(compound)) picked.push(compound);
+  }
+  return picked;
+};
@@ -0,0 +1,178 @@
+import { EquationComponent, IonData, ReactionTemplate } from '../types';
+import { EQUATION_ENTRIES } from '../data/equations';
+import { CHALLENGES_BY_TOPIC } from '../data/challenges';
+import { ALL_IONS } from '../data/ions';
+import { parseFormula, getCharge } from '../utils';
+import { entryToEquation } from './equationBank';
+import { parseEquation, serializeEquation, describeEquationError } from './equationParser';
+import { validateFormula, describeFormulaError } from './formulaValidator';
+import { listCompounds, IonicCompound } from './compoundBuilder';
+import { generateFromTemplate, TEMPLATE_TOPICS } from './reactionTemplates';
+
+export type ContentSource = 'EQUATION_BANK' | 'BUILDER_CHALLENGES' | 'TEMPLATES' | 'COMPOUNDS' | 'IONS';
+
+export interface ContentProblem {
+  source: ContentSource;
+  id: string;       // 題目編號或化學式，方便在內容檔中搜尋
+  message: string;
+}
+
+export interface ContentReport {
+  checked: number;  // 已檢查的項目數目
+  problems: ContentProblem[];
+}
+
+const hasChinese = (text: string) => /[一-龥]/.test(text);
+
+// 以儲存的係數檢查原子及電荷是否守恆，回傳不守恆的項目描述
+const balanceIssues = (reactants: EquationComponent[], products: EquationComponent[]): string[] => {
+  const atoms: Record<string, number> = {};
+  let charge = 0;
+  const add = (list: EquationComponent[], sign: number) => list.forEach(c => {
+    Object.entries(parseFormula(c.formula)).forEach(([el, n]) => {
+      if (el !== 'e') atoms[el] = (atoms[el] || 0) + sign * n * c.coefficient;
+    });
+    charge += sign * getCharge(c.formula) * c.coefficient;
+  });
+  add(reactants, 1);
+  add(products, -1);
+  const issues = Object.entries(atoms).filter(([, n]) => n !== 0).map(([el, n]) => `${el} off by ${n}`);
+  if (charge !== 0) issues.push(`charge off by ${charge}`);
+  return issues;
+};
+
+const formulaIssues = (components: EquationComponent[]): string[] => components.flatMap(c => {
+  const result = validateFormula(c.formula);
+  return 'errors' in result ? result.errors.map(e => `${c.formula}: ${describeFormulaError(e, 'EN')}`) : [];
+});
+
+/**
+ * 一條生成的方程式（模板或 AI）的所有問題：化學式格式、原子及電荷守恆，以及每個物質都有中英文名稱。
+ * 沒有問題時回傳空陣列。
+ */
+export const generatedEquationIssues = (equation: { reactants: EquationComponent[]; products: EquationComponent[] }): string[] => {
+  const components = [...equation.reactants, ...equation.products];
+  const balance = balanceIssues(equation.reactants, equation.products);
+  return [
+    ...formulaIssues(components),
+    ...(balance.length > 0 ? [`unbalanced (${balance.join(', ')})`] : []),
+    ...components.filter(c => !c.nameZH || !c.nameEN).map(c => `${c.formula} is missing a ZH or EN name`),
+  ];
+};
+
+const checkEquationBank = (report: ContentReport) => {
+  const seen = new Set<string>();
+  Object.entries(EQUATION_ENTRIES).forEach(([topic, entries]) => {
+    entries!.forEach(entry => {
+      report.checked++;
+      const problem = (message: string) => report.problems.push({ source: 'EQUATION_BANK', id: `${topic}/${entry.id}`, message });
+      if (seen.has(entry.id)) problem('duplicate id');
+      seen.add(entry.id);
+
+      const parsed = parseEquation(entry.equation);
+      if ('errors' in parsed) {
+        problem(`cannot parse "${entry.equation}": ${parsed.errors.map(e => describeEquationError(e, 'EN')).join(' ')}`);
+        return;
+      }
+      const equation = entryToEquation(entry)!;
+      const issues = balanceIssues(equation.reactants, equation.products);
+      if (issues.length > 0) problem(`unbalanced (${issues.join(', ')}): ${entry.equation}`);
+      [...equation.reactants, ...equation.products].forEach(c => {
+        if (!c.nameZH !== !c.nameEN) problem(`${c.formula} has a name in only one language`);
+      });
+    });
+  });
+};
+
+const checkChallenges = (report: ContentReport) => {
+  const seen = new Set<string>();
+  Object.entries(CHALLENGES_BY_TOPIC).forEach(([topic, challenges]) => {
+    challenges.forEach((challenge, index) => {
+      report.checked++;
+      const text = serializeEquation(challenge);
+      const problem = (message: string) => report.problems.push({ source: 'BUILDER_CHALLENGES', id: challenge.id || `${topic}#${index + 1}`, message });
+      if (!challenge.id) problem('missing id');
+      else if (seen.has(challenge.id)) problem('duplicate id');
+      if (challenge.id) seen.add(challenge.id);
+      formulaIssues([...challenge.reactants, ...challenge.products]).forEach(problem);
+      const issues = balanceIssues(challenge.reactants, challenge.products);
+      if (issues.length > 0) problem(`unbalanced (${issues.join(', ')}): ${text}`);
+      if (!hasChinese(challenge.descriptionZH)) problem(`descriptionZH is not in Chinese (${text})`);
+      if (!challenge.descriptionEN || hasChinese(challenge.descriptionEN)) problem(`descriptionEN is missing or not in English (${text})`);
+    });
+  });
+};
+
+const checkTemplates = (report: ContentReport) => {
+  (Object.keys(TEMPLATE_TOPICS) as ReactionTemplate[]).forEach(template => {
+    const equations = generateFromTemplate(template);
+    if (equations.length === 0) report.problems.push({ source: 'TEMPLATES', id: template, message: 'generates no equations' });
+    equations.forEach(equation => {
+      report.checked++;
+      const text = serializeEquation(equation);
+      generatedEquationIssues(equation).forEach(message => report.problems.push({ source: 'TEMPLATES', id: template, message: `${message}: ${text}` }));
+    });
+  });
+};
+
+// 找出令原子數目吻合的陽離子及陰離子數目，再檢查總電荷是否為零
+const isNeutral = (compound: IonicCompound): boolean => {
+  const target = parseFormula(compound.formula);
+  const cationAtoms = parseFormula(compound.cation.formula);
+  const anionAtoms = parseFormula(compound.anion.formula);
+  const elements = new Set([...Object.keys(target), ...Object.keys(cationAtoms), ...Object.keys(anionAtoms)]);
+  for (let n = 1; n <= 6; n++) {
+    for (let m = 1; m <= 6; m++) {
+      const matches = Array.from(elements).every(el => (target[el] || 0) === n * (cationAtoms[el] || 0) + m * (anionAtoms[el] || 0));
+      if (matches) return n * compound.cation.charge + m * compound.anion.charge === 0;
+    }
+  }
+  return false;
+};
+
+const checkCompounds = (report: ContentReport) => {
+  listCompounds().forEach(compound => {
+    report.checked++;
+    const problem = (message: string) => report.problems.push({ source: 'COMPOUNDS', id: compound.formula, message });
+    if (!isNeutral(compound)) problem(`not electrically neutral (${compound.cation.formula} + ${compound.anion.formula})`);
+    if (!compound.nameZH || !compound.nameEN) problem('missing ZH or EN name');
+  });
+};
+
+const checkIons = (report: ContentReport) => {
+  ALL_IONS.forEach((ion: IonData) => {
+    report.checked++;
+    const problem = (message: string) => report.problems.push({ source: 'IONS', id: ion.formula, message });
+    if (getCharge(ion.formula) !== ion.charge) problem(`formula charge ${getCharge(ion.formula)} does not match charge ${ion.charge}`);
+    if ((ion.type === 'Cation') !== (ion.charge > 0)) problem(`type ${ion.type} does not match charge ${ion.charge}`);
+    if (!ion.zh || !ion.en || !ion.stemZH || !ion.stemEN) problem('missing ZH or EN name');
+    formulaIssues([{ formula: ion.formula, coefficient: 1 }]).forEach(problem);
+  });
+};
+
+/**
+ * 檢查所有內建題目及模板生成的題目：方程式的原子及電荷守恆、化學式格式、化合物電中性，以及中英文內容是否齊全。
+ */
+export const validateContent = (): ContentReport => {
+  const report: ContentReport = { checked: 0, problems: [] };
+  checkEquationBank(report);
+  checkChallenges(report);
+  checkTemplates(report);
+  checkCompounds(report);
+  checkIons(report);
+  return report;
+};
+
+/**
+ * 把檢查結果整理成可閱讀的文字報告，按來源分組。
+ */
+export const formatContentReport = (report: ContentReport): string => {
+  if (report.problems.length === 0) return `Content check passed: ${report.checked} items, no problems.`;
+  const lines = [`Content check found ${report.problems.length} problem(s) in ${report.checked} items:`];
+  const sources = Array.from(new Set(report.problems.map(p => p.source)));
+  sources.forEach(source => {
+    lines.push('', `[${source}]`);
+    report.problems.filter(p => p.source === source).forEach(p => lines.push(`  ${p.id}: ${p.message}`));
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,149 @@
+import { ChemicalEquation, CustomCompound, CustomQuestion, EquationChallenge, EquationComponent, EquationTopic } from '../types';
+import { parseEquation, serializeEquation, EquationError, ParsedEquation } from './equationParser';
+import { findImbalances, isLowestRatio, solveEquation, ImbalanceReport } from './equationSolver';
+import { expandTopic, getAllEquations, substanceName } from './equationBank';
+import { listRecords, putRecords, deleteRecords } from './repository';
+import { compoundKey } from './storage';
+
+// 自訂題目可選用的課題
+export const EQUATION_TOPICS: EquationTopic[] = [
+  'TOPIC_1_2_EARTH_MICRO', 'TOPIC_1_EARTH', 'TOPIC_2_MICRO', 'TOPIC_3_METALS', 'TOPIC_4_ACIDS',
+  'TOPIC_6_ORGANIC', 'TOPIC_7_PERIODICITY', 'TOPIC_8_ENERGETICS', 'REDOX_HALF', 'REDOX_FULL',
+];
+
+export interface AuthoringCheck {
+  equation: ParsedEquation | null; // 解析成功時才有內容
+  parseErrors: EquationError[];
+  imbalance: ImbalanceReport | null; // 以輸入的係數計算
+  lowestRatio: boolean;
+  uniqueAnswer: boolean;           // 平衡答案是否唯一（顯示答案及提示需要）
+  duplicateOf: string | null;      // 與題庫或已存題目相同時的編號
+  isValid: boolean;
+}
+
+/**
+ * 讀取所有教師自訂題目；Node 腳本（如 validate:content）中沒有開啟儲存，視作沒有自訂內容。
+ */
+export const getCustomQuestions = (): CustomQuestion[] => listRecords('customQuestions').map(([, q]) => q);
+
+/**
+ * 新增或更新（按編號）一條自訂題目。
+ */
+export const saveCustomQuestion = (question: CustomQuestion) => putRecords('customQuestions', [[question.id, question]]);
+
+/**
+ * 一次過加入多條題目（如匯入），編號相同的會被取代。
+ */
+export const saveCustomQuestions = (added: CustomQuestion[]) => putRecords('customQuestions', added.map((q): [string, CustomQuestion] => [q.id, q]));
+
+export const deleteCustomQuestion = (id: string) => deleteRecords('customQuestions', [id]);
+
+export const getCustomCompounds = (): CustomCompound[] => listRecords('customCompounds').map(([, c]) => c);
+
+export const saveCustomCompounds = (added: CustomCompound[]) => putRecords('customCompounds', added.map((c): [string, CustomCompound] => [compoundKey(c), c]));
+
+/**
+ * 下一個自訂題目編號，如 "C-004"。
+ */
+export const nextCustomId = (): string => {
+  const max = getCustomQuestions().reduce((acc, q) => {
+    const match = q.id.match(/^C-(\d+)$/);
+    return match ? Math.max(acc, parseInt(match[1], 10)) : acc;
+  }, 0);
+  return `C-${String(max + 1).padStart(3, '0')}`;
+};
+
+/**
+ * 比較重複題目用的鍵，不理會物態符號。
+ */
+export const equationKey = (equation: { reactants: EquationComponent[]; products: EquationComponent[] }) => {
+  const strip = (list: EquationComponent[]) => list.map(c => ({ formula: c.formula, coefficient: c.coefficient }));
+  return serializeEquation({ reactants: strip(equation.reactants), products: strip(equation.products) });
+};
+
+/**
+ * 即時檢查教師輸入的方程式：格式、原子及電荷守恆、最簡整數比、答案唯一及是否重複。
+ * excludeId 為正在編輯的題目，檢查重複時略過。
+ */
+export const checkAuthoredEquation = (text: string, excludeId?: string): AuthoringCheck => {
+  const result = parseEquation(text);
+  if ('errors' in result) {
+    return { equation: null, parseErrors: result.errors, imbalance: null, lowestRatio: true, uniqueAnswer: true, duplicateOf: null, isValid: false };
+  }
+  const parsed = result.equation;
+  const equation: ChemicalEquation = { reactants: parsed.reactants, products: parsed.products, difficulty: 'medium' };
+  const reactantCoeffs = parsed.reactants.map(c => c.coefficient);
+  const productCoeffs = parsed.products.map(c => c.coefficient);
+  const imbalance = findImbalances(equation, reactantCoeffs, productCoeffs);
+  const lowestRatio = isLowestRatio([...reactantCoeffs, ...productCoeffs]);
+  const uniqueAnswer = solveEquation(equation).status === 'SOLVED';
+
+  const key = equationKey(parsed);
+  const existing = [
+    ...getAllEquations().map(eq => ({ id: eq.id || '', key: equationKey(eq) })),
+    ...getCustomQuestions().filter(q => q.id !== excludeId).map(q => {
+      const eq = customToEquation(q);
+      return { id: q.id, key: eq ? equationKey(eq) : '' };
+    }),
+  ];
+  const duplicate = existing.find(e => e.key === key);
+
+  return {
+    equation: parsed,
+    parseErrors: [],
+    imbalance,
+    lowestRatio,
+    uniqueAnswer,
+    duplicateOf: duplicate ? duplicate.id : null,
+    isValid: imbalance.isBalanced && lowestRatio && uniqueAnswer && !duplicate,
+  };
+};
+
+const withCustomNames = (question: CustomQuestion) => (component: EquationComponent): EquationComponent => {
+  const listed = question.names[component.formula];
+  const names = listed ? { nameZH: listed[0], nameEN: listed[1] } : substanceName(component.formula, component.state);
+  return names ? { ...component, ...names } : component;
+};
+
+/**
+ * 把自訂題目轉為 ChemicalEquation；文字無法解析時回傳 null。
+ */
+export const customToEquation = (question: CustomQuestion): ChemicalEquation | null => {
+  const result = parseEquation(question.equation);
+  if ('errors' in result) return null;
+  const equation: ChemicalEquation = {
+    id: question.id,
+    reactants: result.equation.reactants.map(withCustomNames(question)),
+    products: result.equation.products.map(withCustomNames(question)),
+    difficulty: question.difficulty,
+  };
+  if (question.conditions && question.conditions.length > 0) equation.conditions = question.conditions;
+  return equation;
+};
+
+/**
+ * 把自訂題目轉為方程式建構題；缺少任何一種語言的描述或無法解析時回傳 null。
+ */
+export const customToChallenge = (question: CustomQuestion): EquationChallenge | null => {
+  const equation = customToEquation(question);
+  if (!equation || !question.descriptionZH || !question.descriptionEN) return null;
+  return {
+    id: question.id,
+    descriptionZH: question.descriptionZH,
+    descriptionEN: question.descriptionEN,
+    reactants: equation.reactants,
+    products: equation.products,
+    conditions: equation.conditions,
+  };
+};
+
+/**
+ * 某課題的自訂方程式；選擇合併課題時包含各組成課題的題目。
+ */
+export const getCustomEquations = (topic: EquationTopic): ChemicalEquation[] => {
+  const parts = expandTopic(topic);
+  return getCustomQuestions()
+    .filter(q => q.topic === topic || parts.includes(q.topic))
+    .map(customToEquation)
+    .filter((eq): eq is ChemicalEquation => eq !== null);
+};
@@ -0,0 +1,111 @@
+import { ChemicalEquation, EquationComponent, EquationEntry, EquationTopic, SessionDifficulty, StateSymbol } from '../types';
+import { EQUATION_ENTRIES } from '../data/equations';
+import { SUBSTANCE_NAMES } from '../data/substances';
+import { parseEquation } from './equationParser';
+import { nameFromFormula } from './naming';
+import { orderByHistory } from './recentlySeen';
+
+// 由多個課題組成的合併課題
+const COMBINED_TOPICS: Partial<Record<EquationTopic, EquationTopic[]>> = {
+  TOPIC_1_2_EARTH_MICRO: ['TOPIC_1_EARTH', 'TOPIC_2_MICRO'],
+};
+
+/**
+ * 課題所包含的課題；合併課題展開為各組成課題。
+ */
+export const expandTopic = (topic: EquationTopic): EquationTopic[] => COMBINED_TOPICS[topic] || [topic];
+
+/**
+ * 找出物質的中英文名稱：先查物質名稱表（可按物態區分），再由元素、離子或離子化合物推算。
+ */
+export const substanceName = (formula: string, state?: StateSymbol): { nameZH: string; nameEN: string } | null => {
+  const listed = (state && SUBSTANCE_NAMES[`${formula}(${state})`]) || SUBSTANCE_NAMES[formula];
+  if (listed) return { nameZH: listed[0], nameEN: listed[1] };
+  return nameFromFormula(formula);
+};
+
+const withNames = (component: EquationComponent): EquationComponent => {
+  const names = substanceName(component.formula, component.state);
+  return names ? { ...component, ...names } : component;
+};
+
+/**
+ * 把題庫內容轉為 ChemicalEquation 並補上物質名稱；文字無法解析時回傳 null。
+ */
+export const entryToEquation = (entry: EquationEntry): ChemicalEquation | null => {
+  const result = parseEquation(entry.equation);
+  if ('errors' in result) return null;
+  const equation: ChemicalEquation = {
+    id: entry.id,
+    reactants: result.equation.reactants.map(withNames),
+    products: result.equation.products.map(withNames),
+    difficulty: entry.difficulty,
+  };
+  if (entry.conditions) equation.conditions = entry.conditions;
+  return equation;
+};
+
+let pools: Partial<Record<EquationTopic, ChemicalEquation[]>> | null = null;
+
+const buildPools = () => {
+  pools = {};
+  (Object.keys(EQUATION_ENTRIES) as EquationTopic[]).forEach(topic => {
+    pools![topic] = EQUATION_ENTRIES[topic]!
+      .map(entryToEquation)
+      .filter((eq): eq is ChemicalEquation => eq !== null);
+  });
+};
+
+/**
+ * 取得某課題的全部方程式；合併課題會包含所屬各課題的題目。
+ */
+export const getEquationPool = (topic: EquationTopic): ChemicalEquation[] => {
+  if (!pools) buildPools();
+  return expandTopic(topic).flatMap(part => pools![part] || []);
+};
+
+/**
+ * 題庫中所有方程式（不重複）。
+ */
+export const getAllEquations = (): ChemicalEquation[] => {
+  if (!pools) buildPools();
+  return Object.values(pools!).flat();
+};
+
+export const getEquationById = (id: string): ChemicalEquation | undefined => getAllEquations().find(eq => eq.id === id);
+
+type Difficulty = ChemicalEquation['difficulty'];
+
+// 某難度的題目不足時，依次改用這些難度
+const DIFFICULTY_FALLBACK: Record<Difficulty, Difficulty[]> = {
+  easy: ['easy', 'medium', 'hard'],
+  medium: ['medium', 'easy', 'hard'],
+  hard: ['hard', 'medium', 'easy'],
+};
+
+/**
+ * 一節練習中每題的難度。mixed 約四成容易、四成中等、兩成困難（三題或以上至少一題困難），由易至難排列，
+ * 例如五題為「易、易、中、中、難」。
+ */
+export const difficultyCurve = (count: number, difficulty: SessionDifficulty): Difficulty[] => {
+  if (difficulty !== 'mixed') return Array(count).fill(difficulty);
+  const hard = count >= 3 ? Math.max(1, Math.round(count * 0.2)) : 0;
+  const easy = Math.ceil((count - hard) / 2);
+  return [...Array(easy).fill('easy'), ...Array(count - hard - easy).fill('medium'), ...Array(hard).fill('hard')];
+};
+
+/**
+ * 按難度曲線抽題，同一難度中優先抽取 history 以外的題目；某難度不足時以最接近的難度補上。
+ */
+export const pickByDifficulty = (pool: ChemicalEquation[], count: number, difficulty: SessionDifficulty, keyOf: (eq: ChemicalEquation) => string, history: string[]): ChemicalEquation[] => {
+  const remaining = orderByHistory(pool, keyOf, history);
+  return difficultyCurve(Math.min(count, pool.length), difficulty).map(slot => {
+    const level = DIFFICULTY_FALLBACK[slot].find(d => remaining.some(eq => eq.difficulty === d))!;
+    return remaining.splice(remaining.findIndex(eq => eq.difficulty === level), 1)[0];
+  });
+};
+
+/**
+ * 課題是否有題目；介面只應列出有題目的課題。
+ */
+export const isTopicAvailable = (topic: EquationTopic): boolean => getEquationPool(topic).length > 0;
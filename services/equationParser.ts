@@ -0,0 +1,168 @@
+import { ChemicalEquation, EquationChallenge, EquationComponent, Language, StateSymbol } from '../types';
+import { validateFormula, describeFormulaError, FormulaError } from './formulaValidator';
+
+export type EquationErrorCode =
+  | 'EMPTY'
+  | 'NO_ARROW'          // 找不到箭號
+  | 'MULTIPLE_ARROWS'
+  | 'EMPTY_SIDE'        // 箭號一方沒有物質
+  | 'EMPTY_SPECIES'     // 兩個 + 之間沒有物質
+  | 'BAD_STATE'         // 物態符號不是 (s)、(l)、(g)、(aq)
+  | 'BAD_FORMULA';
+
+export interface EquationError {
+  code: EquationErrorCode;
+  species: string;                // 出錯的物質原文
+  formulaErrors: FormulaError[];  // 只有 BAD_FORMULA 時有內容
+}
+
+export interface ParsedEquation {
+  reactants: EquationComponent[];
+  products: EquationComponent[];
+  reversible: boolean;
+}
+
+export type EquationParseResult =
+  | { ok: true; equation: ParsedEquation }
+  | { ok: false; errors: EquationError[] };
+
+const ARROW = /\s*(->|→|⇌|<=>|<->|=)\s*/;
+const REVERSIBLE_ARROWS = ['⇌', '<=>', '<->'];
+
+/**
+ * 把一方的文字拆成物質。以空格包圍的 + 一定是分隔符；
+ * 沒有空格時，+ 只有在不屬於電荷（不緊隨 ^ 或 ^數字）且後面接著物質時才是分隔符。
+ * 例如 "Fe3++e-" → ["Fe3+", "e-"]，"Na^++Cl^-" → ["Na^+", "Cl^-"]。
+ */
+const splitSpecies = (side: string): string[] => side.split(/\s+\+\s+/).flatMap(chunk => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < chunk.length; i++) {
+    if (chunk[i] !== '+') continue;
+    const next = chunk[i + 1];
+    const before = chunk.slice(0, i);
+    const isCharge = /\^\d*$/.test(before);
+    if (next && /[A-Za-z0-9([]/.test(next) && !isCharge && i > start) {
+      parts.push(chunk.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(chunk.slice(start));
+  return parts;
+}).map(s => s.trim());
+
+/**
+ * 把沒有 ^ 的電荷寫法（如 "Fe3+"、"SO42-"、"NH4+"、"e-"）轉為 "Fe^3+"、"SO4^2-"、"NH4^+"、"e^-"。
+ * 方括號後的數字是電荷；單一元素或圓括號後只有一個數字時是電荷，兩個數字時（如 "Hg22+"、"Fe(CN)63-"）前面的是下標。
+ * 其他多原子離子末尾只有一個數字時視為下標，兩個數字時最後一個是電荷。
+ */
+export const normaliseCharge = (formula: string): string => {
+  if (formula.includes('^')) return formula;
+  const match = formula.match(/^(.*?)(\d*)([+-])$/);
+  if (!match || match[1] === '') return formula;
+  const [, body, digits, sign] = match;
+  if (digits === '' || /\]$/.test(body)) return `${body}^${digits}${sign}`;
+  if ((/^[A-Z][a-z]?$/.test(body) || /\)$/.test(body)) && digits.length === 1) return `${body}^${digits}${sign}`;
+  if (digits.length === 1) return `${body}${digits}^${sign}`;
+  return `${body}${digits.slice(0, -1)}^${digits.slice(-1)}${sign}`;
+};
+
+const parseSpecies = (text: string, errors: EquationError[]): EquationComponent | null => {
+  const match = text.match(/^(\d*)\s*(.*?)\s*(\([a-z]+\))?$/);
+  const [, coeffText, body, state] = match || ['', '', text, undefined];
+  if (body === '') {
+    errors.push({ code: 'EMPTY_SPECIES', species: text, formulaErrors: [] });
+    return null;
+  }
+  if (state && !/^\((s|l|g|aq)\)$/.test(state)) {
+    errors.push({ code: 'BAD_STATE', species: text, formulaErrors: [] });
+    return null;
+  }
+  const formula = normaliseCharge(body.replace(/\s+/g, ''));
+  const validation = validateFormula(formula);
+  if ('errors' in validation) {
+    errors.push({ code: 'BAD_FORMULA', species: text, formulaErrors: validation.errors });
+    return null;
+  }
+  const component: EquationComponent = { formula, coefficient: coeffText ? parseInt(coeffText, 10) : 1 };
+  if (state) component.state = state.slice(1, -1) as StateSymbol;
+  return component;
+};
+
+/**
+ * 解析一行文字方程式，例如 "2H2 + O2 -> 2H2O" 或 "Fe^3+(aq) + e- → Fe^2+(aq)"。
+ * 支援 ->、→、⇌、<=>、= 作箭號，係數 1 可省略，物態符號會記錄在 state。
+ */
+export const parseEquation = (text: string): EquationParseResult => {
+  const source = text.trim();
+  if (source === '') return { ok: false, errors: [{ code: 'EMPTY', species: '', formulaErrors: [] }] };
+
+  const pieces = source.split(ARROW);
+  // split 帶捕捉組，結果為 [左方, 箭號, 右方, ...]
+  if (pieces.length < 3) return { ok: false, errors: [{ code: 'NO_ARROW', species: source, formulaErrors: [] }] };
+  if (pieces.length > 3) return { ok: false, errors: [{ code: 'MULTIPLE_ARROWS', species: source, formulaErrors: [] }] };
+
+  const [left, arrow, right] = pieces;
+  const errors: EquationError[] = [];
+  const parseSide = (side: string) => {
+    if (side.trim() === '') {
+      errors.push({ code: 'EMPTY_SIDE', species: side, formulaErrors: [] });
+      return [];
+    }
+    return splitSpecies(side).map(s => parseSpecies(s, errors)).filter((c): c is EquationComponent => c !== null);
+  };
+  const reactants = parseSide(left);
+  const products = parseSide(right);
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, equation: { reactants, products, reversible: REVERSIBLE_ARROWS.includes(arrow) } };
+};
+
+/**
+ * 解析文字方程式為 ChemicalEquation；格式錯誤時拋出錯誤，供編寫題庫時使用。
+ */
+export const toChemicalEquation = (text: string, difficulty: ChemicalEquation['difficulty'] = 'medium'): ChemicalEquation => {
+  const result = parseEquation(text);
+  if ('errors' in result) throw new Error(`Invalid equation "${text}": ${result.errors.map(e => describeEquationError(e, 'EN')).join(' ')}`);
+  return { reactants: result.equation.reactants, products: result.equation.products, difficulty };
+};
+
+/**
+ * 解析文字方程式為 EquationChallenge；格式錯誤時拋出錯誤。
+ */
+export const toEquationChallenge = (text: string, descriptionZH: string, descriptionEN: string): EquationChallenge => {
+  const { reactants, products } = toChemicalEquation(text);
+  return { descriptionZH, descriptionEN, reactants, products };
+};
+
+const serializeSide = (components: EquationComponent[]) =>
+  components.map(c => `${c.coefficient && c.coefficient !== 1 ? c.coefficient : ''}${c.formula}${c.state ? `(${c.state})` : ''}`).join(' + ');
+
+/**
+ * 把方程式轉回一行文字，例如 "2H2(g) + O2(g) → 2H2O(l)"。
+ */
+export const serializeEquation = (equation: { reactants: EquationComponent[]; products: EquationComponent[] }, arrow: string = '→'): string =>
+  `${serializeSide(equation.reactants)} ${arrow} ${serializeSide(equation.products)}`;
+
+/**
+ * 將解析錯誤轉為給學生看的提示句子。
+ */
+export const describeEquationError = (error: EquationError, language: Language): string => {
+  const isZH = language === 'ZH';
+  switch (error.code) {
+    case 'EMPTY':
+      return isZH ? '請輸入方程式。' : 'Please enter an equation.';
+    case 'NO_ARROW':
+      return isZH ? '找不到箭號，請用 -> 分隔反應物和生成物。' : 'No arrow found. Use -> between reactants and products.';
+    case 'MULTIPLE_ARROWS':
+      return isZH ? '方程式只可以有一個箭號。' : 'An equation can only have one arrow.';
+    case 'EMPTY_SIDE':
+      return isZH ? '箭號的其中一方沒有物質。' : 'One side of the arrow is empty.';
+    case 'EMPTY_SPECIES':
+      return isZH ? '兩個「+」之間缺少物質。' : 'A species is missing between two "+" signs.';
+    case 'BAD_STATE':
+      return isZH ? `「${error.species}」的物態符號只可以是 (s)、(l)、(g) 或 (aq)。` : `The state symbol in "${error.species}" must be (s), (l), (g) or (aq).`;
+    case 'BAD_FORMULA':
+      return `${error.species}: ${error.formulaErrors.map(e => describeFormulaError(e, language)).join(' ')}`;
+  }
+};
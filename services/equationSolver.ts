@@ -0,0 +1,177 @@
+import { ChemicalEquation, EquationComponent } from '../types';
+import { parseFormula, getCharge } from '../utils';
+
+export type SolveStatus = 'SOLVED' | 'NO_SOLUTION' | 'MULTIPLE_SOLUTIONS';
+
+export interface SolveResult {
+  status: SolveStatus;
+  reactants: number[];   // 只有 SOLVED 時有內容
+  products: number[];
+  freeVariables: number; // 零空間維度，MULTIPLE_SOLUTIONS 時大於 1
+}
+
+export interface ElementImbalance {
+  element: string;
+  left: number;
+  right: number;
+}
+
+export interface ImbalanceReport {
+  elements: ElementImbalance[];
+  chargeLeft: number;
+  chargeRight: number;
+  isBalanced: boolean;
+}
+
+// --- 有理數運算（避免浮點誤差） ---
+
+type Fraction = [number, number]; // [分子, 分母]，分母恆為正
+
+const gcd = (a: number, b: number): number => {
+  a = Math.abs(a); b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+};
+
+const lcm = (a: number, b: number): number => (a === 0 || b === 0) ? 0 : Math.abs(a * b) / gcd(a, b);
+
+const frac = (n: number, d: number = 1): Fraction => {
+  if (n === 0) return [0, 1];
+  const g = gcd(n, d);
+  const sign = d < 0 ? -1 : 1;
+  return [(n / g) * sign, (d / g) * sign];
+};
+
+const sub = (a: Fraction, b: Fraction): Fraction => frac(a[0] * b[1] - b[0] * a[1], a[1] * b[1]);
+const mul = (a: Fraction, b: Fraction): Fraction => frac(a[0] * b[0], a[1] * b[1]);
+const div = (a: Fraction, b: Fraction): Fraction => frac(a[0] * b[1], a[1] * b[0]);
+
+/**
+ * 建立組成矩陣：每一行為一種元素（最後一行為電荷），每一列為一個物種。
+ * 生成物取負值，使平衡條件變為 A·x = 0。
+ */
+const buildMatrix = (equation: ChemicalEquation): number[][] => {
+  const species = [
+    ...equation.reactants.map(c => ({ c, sign: 1 })),
+    ...equation.products.map(c => ({ c, sign: -1 })),
+  ];
+  const atomMaps = species.map(s => parseFormula(s.c.formula));
+  const elements = Array.from(new Set(atomMaps.flatMap(m => Object.keys(m)))).filter(el => el !== 'e');
+
+  const rows = elements.map(el => species.map((s, j) => s.sign * (atomMaps[j][el] || 0)));
+  const chargeRow = species.map(s => s.sign * getCharge(s.c.formula));
+  if (chargeRow.some(v => v !== 0)) rows.push(chargeRow);
+  return rows;
+};
+
+/**
+ * 以高斯消去法求矩陣的零空間基底。
+ */
+const nullSpace = (matrix: number[][], columns: number): Fraction[][] => {
+  const m: Fraction[][] = matrix.map(row => row.map(v => frac(v)));
+  const pivotCols: number[] = [];
+  let r = 0;
+
+  for (let c = 0; c < columns && r < m.length; c++) {
+    const pivot = m.findIndex((row, i) => i >= r && row[c][0] !== 0);
+    if (pivot === -1) continue;
+    [m[r], m[pivot]] = [m[pivot], m[r]];
+    const p = m[r][c];
+    m[r] = m[r].map(v => div(v, p));
+    for (let i = 0; i < m.length; i++) {
+      if (i !== r && m[i][c][0] !== 0) {
+        const factor = m[i][c];
+        m[i] = m[i].map((v, j) => sub(v, mul(factor, m[r][j])));
+      }
+    }
+    pivotCols.push(c);
+    r++;
+  }
+
+  const freeCols = Array.from({ length: columns }, (_, i) => i).filter(c => !pivotCols.includes(c));
+  return freeCols.map(free => {
+    const vec: Fraction[] = Array.from({ length: columns }, () => frac(0));
+    vec[free] = frac(1);
+    pivotCols.forEach((pc, row) => { vec[pc] = frac(-m[row][free][0], m[row][free][1]); });
+    return vec;
+  });
+};
+
+/**
+ * 計算任何化學方程式的最簡整數係數。
+ * 以元素及電荷守恆建立矩陣，求其零空間：
+ * 維度為 0 或係數正負不一致代表無解，維度大於 1 代表有多組獨立解。
+ */
+export const solveEquation = (equation: ChemicalEquation): SolveResult => {
+  const nR = equation.reactants.length;
+  const columns = nR + equation.products.length;
+  const basis = nullSpace(buildMatrix(equation), columns);
+
+  if (basis.length !== 1) {
+    return { status: basis.length === 0 ? 'NO_SOLUTION' : 'MULTIPLE_SOLUTIONS', reactants: [], products: [], freeVariables: basis.length };
+  }
+
+  const vec = basis[0];
+  const denom = vec.reduce((acc, [, d]) => lcm(acc, d), 1);
+  let ints = vec.map(([n, d]) => n * (denom / d));
+  const g = ints.reduce((acc, v) => gcd(acc, v), 0);
+  ints = ints.map(v => v / g);
+  if (ints.every(v => v < 0)) ints = ints.map(v => -v);
+
+  if (ints.some(v => v <= 0)) {
+    return { status: 'NO_SOLUTION', reactants: [], products: [], freeVariables: 1 };
+  }
+
+  return { status: 'SOLVED', reactants: ints.slice(0, nR), products: ints.slice(nR), freeVariables: 1 };
+};
+
+/**
+ * 回傳填上正確係數的方程式副本；無唯一解時回傳 null。
+ */
+export const balanceEquation = (equation: ChemicalEquation): ChemicalEquation | null => {
+  const result = solveEquation(equation);
+  if (result.status !== 'SOLVED') return null;
+  const apply = (list: EquationComponent[], coeffs: number[]) => list.map((c, i) => ({ ...c, coefficient: coeffs[i] }));
+  return {
+    ...equation,
+    reactants: apply(equation.reactants, result.reactants),
+    products: apply(equation.products, result.products),
+  };
+};
+
+const tallySide = (components: EquationComponent[], coefficients: number[]) => {
+  const atoms: Record<string, number> = {};
+  let charge = 0;
+  components.forEach((comp, idx) => {
+    const coeff = coefficients[idx] ?? 1;
+    for (const [el, count] of Object.entries(parseFormula(comp.formula))) {
+      if (el !== 'e') atoms[el] = (atoms[el] || 0) + count * coeff;
+    }
+    charge += coeff * getCharge(comp.formula);
+  });
+  return { atoms, charge };
+};
+
+/**
+ * 以給定係數計算兩邊原子及電荷，列出未平衡的元素。
+ */
+export const findImbalances = (equation: Pick<ChemicalEquation, 'reactants' | 'products'>, reactantCoeffs: number[], productCoeffs: number[]): ImbalanceReport => {
+  const left = tallySide(equation.reactants, reactantCoeffs);
+  const right = tallySide(equation.products, productCoeffs);
+  const allElements = Array.from(new Set([...Object.keys(left.atoms), ...Object.keys(right.atoms)]));
+  const elements = allElements
+    .filter(el => (left.atoms[el] || 0) !== (right.atoms[el] || 0))
+    .map(el => ({ element: el, left: left.atoms[el] || 0, right: right.atoms[el] || 0 }));
+
+  return {
+    elements,
+    chargeLeft: left.charge,
+    chargeRight: right.charge,
+    isBalanced: elements.length === 0 && left.charge === right.charge,
+  };
+};
+
+/**
+ * 判斷一組已平衡的係數是否為最簡整數比。
+ */
+export const isLowestRatio = (coefficients: number[]): boolean => coefficients.reduce((acc, v) => gcd(acc, v), 0) === 1;
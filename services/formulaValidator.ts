@@ -0,0 +1,265 @@
+import { Language } from '../types';
+import { HYDRATE_SEPARATOR } from '../utils';
+import { ELEMENT_SYMBOLS } from '../data/periodicTable';
+
+export type FormulaErrorCode =
+  | 'EMPTY'
+  | 'UNKNOWN_ELEMENT'      // 不存在的元素符號
+  | 'CAPITALISATION'       // 大小寫錯誤
+  | 'UNBALANCED_BRACKET'   // 括號不對稱
+  | 'BAD_CHARGE'           // 電荷寫法錯誤
+  | 'BAD_COUNT'            // 下標無效 (如 0)
+  | 'UNEXPECTED_CHARACTER';
+
+export interface FormulaError {
+  code: FormulaErrorCode;
+  position: number;   // 錯誤開始的字元位置 (0 起)
+  length: number;
+  token: string;
+  suggestions: string[];
+}
+
+export type FormulaValidation =
+  | { ok: true; atoms: Record<string, number>; charge: number }
+  | { ok: false; errors: FormulaError[] };
+
+
+const isElement = (symbol: string) => ELEMENT_SYMBOLS.has(symbol);
+
+const capitalise = (s: string) => s.charAt(0).toUpperCase() + s.slice(1).toLowerCase();
+
+/**
+ * 忽略大小寫，列出一串字母所有可能的元素符號拆分方式。
+ * 例如 "co" → ["Co", "CO"]，"nacl" → ["NaCl"]。
+ */
+const caseInsensitiveSplits = (letters: string, limit: number = 3): string[] => {
+  const results: string[] = [];
+  const walk = (rest: string, acc: string) => {
+    if (results.length >= limit) return;
+    if (rest === '') { results.push(acc); return; }
+    for (const len of [2, 1]) {
+      if (rest.length < len) continue;
+      const candidate = capitalise(rest.slice(0, len));
+      if (isElement(candidate)) walk(rest.slice(len), acc + candidate);
+    }
+  };
+  walk(letters.toLowerCase(), '');
+  return results;
+};
+
+/**
+ * 嚴格拆分一串字母為元素符號（大寫開頭，最多一個小寫字母）。
+ * 無法拆分時回傳 null。
+ */
+const strictSplit = (letters: string): string[] | null => {
+  const symbols: string[] = [];
+  let i = 0;
+  while (i < letters.length) {
+    if (!/[A-Z]/.test(letters[i])) return null;
+    const pair = letters.slice(i, i + 2);
+    if (pair.length === 2 && /[a-z]/.test(pair[1]) && isElement(pair)) {
+      symbols.push(pair); i += 2;
+    } else if (isElement(letters[i])) {
+      symbols.push(letters[i]); i += 1;
+    } else {
+      return null;
+    }
+  }
+  return symbols;
+};
+
+const similarSymbols = (token: string): string[] => {
+  const first = token.charAt(0).toUpperCase();
+  return Array.from(ELEMENT_SYMBOLS).filter(s => s.startsWith(first)).slice(0, 4);
+};
+
+/**
+ * 嚴格驗證化學式。
+ * 成功時回傳原子數目及電荷；失敗時回傳每個錯誤的類型、位置及建議寫法。
+ */
+export const validateFormula = (formula: string): FormulaValidation => {
+  const errors: FormulaError[] = [];
+  const source = formula.trim();
+  if (source === '') {
+    return { ok: false, errors: [{ code: 'EMPTY', position: 0, length: 0, token: '', suggestions: [] }] };
+  }
+  if (source === 'e^-' || source === 'e-') return { ok: true, atoms: { e: 1 }, charge: -1 };
+
+  // --- 分開主體與電荷 ---
+  let body = source;
+  let charge = 0;
+  const caretIndex = source.indexOf('^');
+  if (caretIndex !== -1) {
+    body = source.slice(0, caretIndex);
+    const chargeText = source.slice(caretIndex + 1);
+    const match = chargeText.match(/^(\d*)([+-])$/);
+    if (!match || match[1].startsWith('0')) {
+      errors.push({ code: 'BAD_CHARGE', position: caretIndex, length: source.length - caretIndex, token: source.slice(caretIndex), suggestions: [] });
+    } else {
+      charge = (match[1] ? parseInt(match[1], 10) : 1) * (match[2] === '+' ? 1 : -1);
+    }
+  } else {
+    // 未使用 ^ 的電荷，例如 "Fe3+" 或 "SO42-"
+    const loose = source.match(/^(.*?)(\d?)([+-])$/);
+    if (loose && loose[1] !== '') {
+      errors.push({
+        code: 'BAD_CHARGE',
+        position: loose[1].length,
+        length: source.length - loose[1].length,
+        token: loose[2] + loose[3],
+        suggestions: [`${loose[1]}^${loose[2]}${loose[3]}`],
+      });
+      body = loose[1];
+    }
+  }
+
+  // --- 解析主體 ---
+  const stack: { atoms: Record<string, number>; open: string; position: number }[] = [{ atoms: {}, open: '', position: -1 }];
+  const closing: Record<string, string> = { ')': '(', ']': '[' };
+  let i = 0;
+
+  const readCount = (): number => {
+    const m = body.slice(i).match(/^\d+/);
+    if (!m) return 1;
+    if (m[0].startsWith('0')) {
+      errors.push({ code: 'BAD_COUNT', position: i, length: m[0].length, token: m[0], suggestions: [] });
+    }
+    i += m[0].length;
+    return parseInt(m[0], 10) || 1;
+  };
+
+  const addAtoms = (target: Record<string, number>, atoms: Record<string, number>, times: number) => {
+    for (const [el, n] of Object.entries(atoms)) target[el] = (target[el] || 0) + n * times;
+  };
+
+  // 結晶水等加合物：每一段以「·」分隔，段首的數字是整段的倍數
+  const total: Record<string, number> = {};
+  let multiplier = 1;
+  const flushSegment = () => {
+    stack.slice(1).forEach(frame => {
+      errors.push({ code: 'UNBALANCED_BRACKET', position: frame.position, length: 1, token: frame.open, suggestions: [] });
+    });
+    addAtoms(total, stack[0].atoms, multiplier);
+    stack.splice(0, stack.length, { atoms: {}, open: '', position: -1 });
+  };
+
+  while (i < body.length) {
+    const ch = body[i];
+
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (HYDRATE_SEPARATOR.test(ch)) {
+      const segmentIsEmpty = Object.keys(stack[0].atoms).length === 0 && stack.length === 1;
+      const nothingFollows = body.slice(i + 1).trim() === '';
+      if (segmentIsEmpty || nothingFollows) {
+        errors.push({ code: 'UNEXPECTED_CHARACTER', position: i, length: 1, token: ch, suggestions: [] });
+      }
+      flushSegment();
+      i++;
+      multiplier = readCount();
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(ch)) {
+      const run = body.slice(i).match(/^[A-Za-z]+/)![0];
+      const start = i;
+      const symbols = strictSplit(run);
+      if (symbols) {
+        i += run.length;
+        // 只有最後一個符號會受其後的下標影響
+        const current = stack[stack.length - 1].atoms;
+        symbols.slice(0, -1).forEach(s => { current[s] = (current[s] || 0) + 1; });
+        const last = symbols[symbols.length - 1];
+        const count = readCount();
+        current[last] = (current[last] || 0) + count;
+      } else {
+        const fixes = caseInsensitiveSplits(run);
+        errors.push(fixes.length > 0
+          ? { code: 'CAPITALISATION', position: start, length: run.length, token: run, suggestions: fixes }
+          : { code: 'UNKNOWN_ELEMENT', position: start, length: run.length, token: run, suggestions: similarSymbols(run) });
+        i += run.length;
+        readCount();
+      }
+      continue;
+    }
+
+    if (ch === '(' || ch === '[') {
+      stack.push({ atoms: {}, open: ch, position: i });
+      i++;
+      continue;
+    }
+
+    if (ch === ')' || ch === ']') {
+      const top = stack[stack.length - 1];
+      if (stack.length === 1 || top.open !== closing[ch]) {
+        errors.push({ code: 'UNBALANCED_BRACKET', position: i, length: 1, token: ch, suggestions: [] });
+        i++;
+        readCount();
+        continue;
+      }
+      stack.pop();
+      i++;
+      addAtoms(stack[stack.length - 1].atoms, top.atoms, readCount());
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      // 化學式開頭或左括號後的數字不是有效下標
+      const m = body.slice(i).match(/^\d+/)![0];
+      errors.push({ code: 'UNEXPECTED_CHARACTER', position: i, length: m.length, token: m, suggestions: [] });
+      i += m.length;
+      continue;
+    }
+
+    errors.push({ code: 'UNEXPECTED_CHARACTER', position: i, length: 1, token: ch, suggestions: [] });
+    i++;
+  }
+
+  flushSegment();
+
+  if (errors.length > 0) return { ok: false, errors: errors.sort((a, b) => a.position - b.position) };
+  return { ok: true, atoms: total, charge };
+};
+
+const joinOptions = (options: string[], language: Language) =>
+  language === 'ZH' ? options.join(' 還是 ') : options.join(' or ');
+
+/**
+ * 將驗證錯誤轉為給學生看的提示句子。
+ */
+export const describeFormulaError = (error: FormulaError, language: Language): string => {
+  const isZH = language === 'ZH';
+  const where = isZH ? `第 ${error.position + 1} 個字元` : `at position ${error.position + 1}`;
+  const hint = error.suggestions.length > 0
+    ? (isZH
+        ? `你是指 ${joinOptions(error.suggestions, language)}${error.suggestions.length > 1 ? '' : ' 嗎'}？`
+        : `Did you mean ${joinOptions(error.suggestions, language)}?`)
+    : '';
+
+  switch (error.code) {
+    case 'EMPTY':
+      return isZH ? '請輸入化學式。' : 'Please enter a formula.';
+    case 'CAPITALISATION':
+      return isZH ? `「${error.token}」的大小寫不正確。${hint}` : `"${error.token}" has the wrong capitalisation. ${hint}`;
+    case 'UNKNOWN_ELEMENT':
+      return isZH ? `「${error.token}」不是元素符號。${hint}` : `"${error.token}" is not an element symbol. ${hint}`.trim();
+    case 'UNBALANCED_BRACKET':
+      return isZH ? `${where}的括號「${error.token}」沒有配對。` : `Unmatched bracket "${error.token}" ${where}.`;
+    case 'BAD_CHARGE':
+      return isZH
+        ? `電荷寫法有誤，請寫成如 ^2+ 或 ^- 的形式。${hint}`
+        : `Charges must be written like ^2+ or ^-. ${hint}`.trim();
+    case 'BAD_COUNT':
+      return isZH ? `${where}的下標「${error.token}」無效，是否想輸入字母 O？` : `Invalid subscript "${error.token}" ${where}. Did you mean the letter O?`;
+    case 'UNEXPECTED_CHARACTER':
+      return isZH ? `${where}的「${error.token}」不應出現在化學式中。` : `"${error.token}" ${where} does not belong in a formula.`;
+  }
+};
+
+/**
+ * 驗證化學式並直接回傳錯誤提示；化學式有效時回傳空陣列。
+ */
+export const formulaErrorMessages = (formula: string, language: Language): string[] => {
+  const result = validateFormula(formula);
+  return 'errors' in result ? result.errors.map(e => describeFormulaError(e, language)) : [];
+};
@@ -0,0 +1,28 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIProvider, createTextProvider } from './aiProvider';
+
+const DEFAULT_TEXT_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_VISION_MODEL = 'gemini-3-pro-preview';
+
+export interface GeminiConfig {
+  apiKey: string;
+  textModel?: string;
+  visionModel?: string; // 批改手寫答案時使用
+}
+
+/**
+ * Gemini 後端。用戶端在建立後端時才產生，沒有金鑰時不會載入。
+ */
+export const createGeminiProvider = ({ apiKey, textModel = DEFAULT_TEXT_MODEL, visionModel = DEFAULT_VISION_MODEL }: GeminiConfig): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return createTextProvider('gemini', async (prompt, images = [], schema) => {
+    const parts = [...images.map(image => ({ inlineData: image })), { text: prompt }];
+    const response = await ai.models.generateContent({
+      model: images.length ? visionModel : textModel,
+      contents: { parts },
+      config: { responseMimeType: 'application/json', ...(schema ? { responseJsonSchema: schema } : {}) },
+    });
+    if (!response.text) throw new Error('Gemini returned an empty reply');
+    return response.text;
+  });
+};
@@ -1,22 +1,111 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Ion, ChemicalEquation, Language, EquationTopic, EquationChallenge, EquationComponent } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const visionModel = 'gemini-3-pro-preview';
-const textModel = 'gemini-3-flash-preview';
-
-export interface EvaluationResult {
-  score: number;
-  results: {
-    question: string;
-    expected: string;
-    studentWrote: string;
-    isCorrect: boolean;
-    feedback?: string;
-  }[];
-  overallFeedback: string;
-}
+import { Ion, IonData, ChemicalEquation, Language, EquationTopic, EquationChallenge, EquationComponent, IonicChallenge, SessionDifficulty } from '../types';
+import { ALL_IONS } from '../data/ions';
+import { hasIonicForm, toNetIonicEquation } from './ionicEquation';
+import { getEquationPool, getAllEquations, pickByDifficulty, substanceName } from './equationBank';
+import { getCustomEquations, getCustomQuestions, customToChallenge, equationKey } from './customContent';
+import { getTemplateEquations } from './reactionTemplates';
+import { orderByHistory, pickUnseen } from './recentlySeen';
+import { parseEquation } from './equationParser';
+import { balanceEquation } from './equationSolver';
+import { AIProvider, AIProviderName, GeneratedQuestion, GradingQuestion, MistakeExplanation, MistakeRequest, QuestionRequest, withTimeout } from './aiProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAIProvider } from './openAIProvider';
+import { mockProvider } from './mockProvider';
+import { compressImage, verifyGrading, GradingOutcome } from './handwriting';
+import { CHALLENGES_BY_TOPIC } from '../data/challenges';
+import { generatedEquationIssues } from './contentValidator';
+
+export type { EvaluationResult } from './aiProvider';
+export type { GradingOutcome } from './handwriting';
+
+const AI_TIMEOUT_MS = 30000;
+const GRADING_TIMEOUT_MS = 60000; // 讀圖較慢
+const OPENAI_DEFAULT_URL = 'https://api.openai.com/v1';
+
+/**
+ * 按設定選擇 AI 後端：AI_PROVIDER 為 gemini、openai 或 mock；
+ * 未設定時有 Gemini 金鑰便用 Gemini，否則只用離線內容（回傳 null）。
+ */
+const createProvider = (): AIProvider | null => {
+  const name = (process.env.AI_PROVIDER || (process.env.API_KEY ? 'gemini' : '')).toLowerCase() as AIProviderName | '';
+  switch (name) {
+    case 'gemini':
+      if (!process.env.API_KEY) return null;
+      return createGeminiProvider({ apiKey: process.env.API_KEY, textModel: process.env.AI_MODEL || undefined, visionModel: process.env.AI_VISION_MODEL || undefined });
+    case 'openai':
+      if (!process.env.AI_MODEL) return null;
+      return createOpenAIProvider({ baseUrl: process.env.AI_BASE_URL || OPENAI_DEFAULT_URL, apiKey: process.env.AI_API_KEY || undefined, textModel: process.env.AI_MODEL, visionModel: process.env.AI_VISION_MODEL || undefined });
+    case 'mock':
+      return mockProvider;
+    default:
+      return null;
+  }
+};
+
+let provider: AIProvider | null | undefined;
+
+export const getAIProvider = (): AIProvider | null => {
+  if (provider === undefined) provider = createProvider();
+  return provider;
+};
+
+/**
+ * 呼叫 AI 後端；沒有設定、出錯或超時都回傳 null，由呼叫者改用離線內容。
+ */
+const tryAI = async <T>(call: (ai: AIProvider) => Promise<T>, timeoutMs: number = AI_TIMEOUT_MS): Promise<T | null> => {
+  const ai = getAIProvider();
+  if (!ai) return null;
+  try {
+    return await withTimeout(call(ai), timeoutMs);
+  } catch (e) {
+    console.warn(`AI provider "${ai.name}" failed, using offline content:`, e);
+    return null;
+  }
+};
+
+const DIFFICULTIES: ChemicalEquation['difficulty'][] = ['easy', 'medium', 'hard'];
+
+/**
+ * 把 AI 出的題目轉為 ChemicalEquation；無法解析、係數不是最簡整數比，
+ * 或未能通過內容檢查（化學式、守恆、所有物質都在名稱表中）時回傳 null。
+ */
+const fromGeneratedQuestion = (question: GeneratedQuestion): ChemicalEquation | null => {
+  const parsed = parseEquation(question.equation);
+  if ('errors' in parsed) return null;
+  const withNames = (c: EquationComponent) => ({ ...c, ...(substanceName(c.formula, c.state) || {}) });
+  const equation: ChemicalEquation = {
+    reactants: parsed.equation.reactants.map(withNames),
+    products: parsed.equation.products.map(withNames),
+    difficulty: DIFFICULTIES.includes(question.difficulty as ChemicalEquation['difficulty']) ? question.difficulty as ChemicalEquation['difficulty'] : 'medium',
+  };
+  const balanced = balanceEquation(equation);
+  if (!balanced || equationKey(balanced) !== equationKey(equation)) return null;
+  const issues = generatedEquationIssues(equation);
+  if (issues.length > 0) {
+    console.warn(`AI question rejected (${issues.join('; ')}): ${question.equation}`);
+    return null;
+  }
+  return equation;
+};
+
+const MAX_AI_EQUATIONS = 50; // 每個課題保留的 AI 題目數目，超出時丟棄最舊的
+
+// 已通過檢查的 AI 題目，按課題保存；只在背景取得，不會令練習等待
+const aiEquations = new Map<EquationTopic, ChemicalEquation[]>();
+const fetchingTopics = new Set<EquationTopic>();
+
+/**
+ * 在背景向 AI 要求更多題目，通過檢查的留待之後的練習使用。同一課題同時只會有一個請求。
+ */
+const prefetchAIEquations = (request: QuestionRequest) => {
+  if (!getAIProvider() || fetchingTopics.has(request.topic)) return;
+  fetchingTopics.add(request.topic);
+  tryAI(ai => ai.generateQuestions(request)).then(generated => {
+    const accepted = (generated || []).map(fromGeneratedQuestion).filter((eq): eq is ChemicalEquation => eq !== null);
+    aiEquations.set(request.topic, [...(aiEquations.get(request.topic) || []), ...accepted].slice(-MAX_AI_EQUATIONS));
+  }).finally(() => fetchingTopics.delete(request.topic));
+};
 
 function shuffleArray<T>(array: T[]): T[] {
   const result = [...array];
@@ -27,199 +116,118 @@ function shuffleArray<T>(array: T[]): T[] {
   return result;
 }
 
-const MASTER_EQUATIONS: Record<string, ChemicalEquation[]> = {
-  TOPIC_1_EARTH: [
-    { reactants: [{formula:"CO2", coefficient:6, nameZH: "二氧化碳", nameEN: "Carbon dioxide"}, {formula:"H2O", coefficient:6, nameZH: "水", nameEN: "Water"}], products: [{formula:"C6H12O6", coefficient:1, nameZH: "葡萄糖", nameEN: "Glucose"}, {formula:"O2", coefficient:6, nameZH: "氧氣", nameEN: "Oxygen"}], difficulty:"hard" },
-    { reactants: [{formula:"CaCO3", coefficient:1, nameZH: "碳酸鈣", nameEN: "Calcium carbonate"}], products: [{formula:"CaO", coefficient:1, nameZH: "氧化鈣", nameEN: "Calcium oxide"}, {formula:"CO2", coefficient:1, nameZH: "二氧化碳", nameEN: "Carbon dioxide"}], difficulty:"easy" },
-    { reactants: [{formula:"CaCO3", coefficient:1, nameZH: "碳酸鈣", nameEN: "Calcium carbonate"}, {formula:"H2O", coefficient:1, nameZH: "水", nameEN: "Water"}, {formula:"CO2", coefficient:1, nameZH: "二氧化碳", nameEN: "Carbon dioxide"}], products: [{formula:"Ca(HCO3)2", coefficient:1, nameZH: "碳酸氫鈣", nameEN: "Calcium hydrogencarbonate"}], difficulty:"medium" },
-  ],
-  TOPIC_2_MICRO: [
-    { reactants: [{formula:"Na", coefficient:2, nameZH: "鈉", nameEN: "Sodium"}, {formula:"Cl2", coefficient:1, nameZH: "氯氣", nameEN: "Chlorine"}], products: [{formula:"NaCl", coefficient:2, nameZH: "氯化鈉", nameEN: "Sodium chloride"}], difficulty:"easy" },
-    { reactants: [{formula:"Mg", coefficient:2, nameZH: "鎂", nameEN: "Magnesium"}, {formula:"O2", coefficient:1, nameZH: "氧氣", nameEN: "Oxygen"}], products: [{formula:"MgO", coefficient:2, nameZH: "氧化鎂", nameEN: "Magnesium oxide"}], difficulty:"easy" },
-  ],
-  TOPIC_3_METALS: [
-    { reactants: [{formula:"Fe2O3", coefficient:1, nameZH: "氧化鐵(III)", nameEN: "Iron(III) oxide"}, {formula:"CO", coefficient:3, nameZH: "一氧化碳", nameEN: "Carbon monoxide"}], products: [{formula:"Fe", coefficient:2, nameZH: "鐵", nameEN: "Iron"}, {formula:"CO2", coefficient:3, nameZH: "二氧化碳", nameEN: "Carbon dioxide"}], difficulty:"hard" },
-  ],
-  TOPIC_4_ACIDS: [
-    { reactants: [{formula:"Zn", coefficient:1, nameZH:"鋅", nameEN:"Zinc"}, {formula:"H^+", coefficient:2, nameZH:"氫離子", nameEN:"Hydrogen ion"}], products: [{formula:"Zn^2+", coefficient:1, nameZH:"鋅離子", nameEN:"Zinc ion"}, {formula:"H2", coefficient:1, nameZH:"氫氣", nameEN:"Hydrogen"}], difficulty:"medium" },
-    { reactants: [{formula:"Mg", coefficient:1, nameZH:"鎂", nameEN:"Magnesium"}, {formula:"HCl", coefficient:2, nameZH:"鹽酸", nameEN:"Hydrochloric acid"}], products: [{formula:"MgCl2", coefficient:1, nameZH:"氯化鎂", nameEN:"Magnesium chloride"}, {formula:"H2", coefficient:1, nameZH:"氫氣", nameEN:"Hydrogen"}], difficulty:"medium" },
-    { reactants: [{formula:"Fe", coefficient:1, nameZH:"鐵", nameEN:"Iron"}, {formula:"H2SO4", coefficient:1, nameZH:"硫酸", nameEN:"Sulphuric acid"}], products: [{formula:"FeSO4", coefficient:1, nameZH:"硫酸亞鐵", nameEN:"Iron(II) sulphate"}, {formula:"H2", coefficient:1, nameZH:"氫氣", nameEN:"Hydrogen"}], difficulty:"medium" },
-    { reactants: [{formula:"Zn", coefficient:1, nameZH:"鋅", nameEN:"Zinc"}, {formula:"CH3COOH", coefficient:2, nameZH:"乙酸", nameEN:"Ethanoic acid"}], products: [{formula:"(CH3COO)2Zn", coefficient:1, nameZH:"乙酸鋅", nameEN:"Zinc ethanoate"}, {formula:"H2", coefficient:1, nameZH:"氫氣", nameEN:"Hydrogen"}], difficulty:"hard" },
-    { reactants: [{formula:"Mg", coefficient:1, nameZH:"鎂", nameEN:"Magnesium"}, {formula:"CH3COOH", coefficient:2, nameZH:"乙酸", nameEN:"Ethanoic acid"}], products: [{formula:"(CH3COO)2Mg", coefficient:1, nameZH:"乙酸鎂", nameEN:"Magnesium ethanoate"}, {formula:"H2", coefficient:1, nameZH:"氫氣", nameEN:"Hydrogen"}], difficulty:"hard" },
-    { reactants: [{formula:"CuO", coefficient:1, nameZH:"氧化銅(II)", nameEN:"Copper(II) oxide"}, {formula:"H2SO4", coefficient:1, nameZH:"硫酸", nameEN:"Sulphuric acid"}], products: [{formula:"CuSO4", coefficient:1, nameZH:"硫酸銅(II)", nameEN:"Copper(II) sulphate"}, {formula:"H2O", coefficient:1, nameZH:"水", nameEN:"Water"}], difficulty:"medium" },
-    { reactants: [{formula:"Mg(OH)2", coefficient:1, nameZH:"氫氧化鎂", nameEN:"Magnesium hydroxide"}, {formula:"HCl", coefficient:2, nameZH:"鹽酸", nameEN:"Hydrochloric acid"}], products: [{formula:"MgCl2", coefficient:1, nameZH:"氯化鎂", nameEN:"Magnesium chloride"}, {formula:"H2O", coefficient:2, nameZH:"水", nameEN:"Water"}], difficulty:"medium" },
-    { reactants: [{formula:"CaCO3", coefficient:1, nameZH:"碳酸鈣", nameEN:"Calcium carbonate"}, {formula:"HCl", coefficient:2, nameZH:"鹽酸", nameEN:"Hydrochloric acid"}], products: [{formula:"CaCl2", coefficient:1, nameZH:"氯化鈣", nameEN:"Calcium chloride"}, {formula:"CO2", coefficient:1, nameZH:"二氧化碳", nameEN:"Carbon dioxide"}, {formula:"H2O", coefficient:1, nameZH:"水", nameEN:"Water"}], difficulty:"hard" },
-    { reactants: [{formula:"NaHCO3", coefficient:1, nameZH:"碳酸氫鈉", nameEN:"Sodium hydrogencarbonate"}, {formula:"HCl", coefficient:1, nameZH:"鹽酸", nameEN:"Hydrochloric acid"}], products: [{formula:"NaCl", coefficient:1, nameZH:"氯化鈉", nameEN:"Sodium chloride"}, {formula:"CO2", coefficient:1, nameZH:"二氧化碳", nameEN:"Carbon dioxide"}, {formula:"H2O", coefficient:1, nameZH:"水", nameEN:"Water"}], difficulty:"medium" },
-    { reactants: [{formula:"NaOH", coefficient:2, nameZH:"氫氧化鈉", nameEN:"Sodium hydroxide"}, {formula:"CO2", coefficient:1, nameZH:"二氧化碳", nameEN:"Carbon dioxide"}], products: [{formula:"Na2CO3", coefficient:1, nameZH:"碳酸鈉", nameEN:"Sodium carbonate"}, {formula:"H2O", coefficient:1, nameZH:"水", nameEN:"Water"}], difficulty:"medium" },
-    { reactants: [{formula:"NH4Cl", coefficient:1, nameZH:"氯化銨", nameEN:"Ammonium chloride"}, {formula:"NaOH", coefficient:1, nameZH:"氫氧化鈉", nameEN:"Sodium hydroxide"}], products: [{formula:"NH3", coefficient:1, nameZH:"氨", nameEN:"Ammonia"}, {formula:"NaCl", coefficient:1, nameZH:"氯化鈉", nameEN:"Sodium chloride"}, {formula:"H2O", coefficient:1, nameZH:"水", nameEN:"Water"}], difficulty:"medium" },
-    { reactants: [{formula:"Cu^2+", coefficient:1, nameZH:"銅(II)離子", nameEN:"Copper(II) ion"}, {formula:"OH^-", coefficient:2, nameZH:"氫氧根離子", nameEN:"Hydroxide ion"}], products: [{formula:"Cu(OH)2", coefficient:1, nameZH:"氫氧化銅(II)", nameEN:"Copper(II) hydroxide"}], difficulty:"easy" },
-  ],
-  REDOX_HALF: [
-    { reactants: [{formula:"MnO4^-", coefficient:1, nameZH: "高錳酸根離子", nameEN: "Permanganate ion"}, {formula:"H^+", coefficient:8, nameZH: "氫離子", nameEN: "Hydrogen ion"}, {formula:"e^-", coefficient:5, nameZH: "電子", nameEN: "Electron"}], products: [{formula:"Mn^2+", coefficient:1, nameZH: "錳(II)離子", nameEN: "Manganese(II) ion"}, {formula:"H2O", coefficient:4, nameZH: "水", nameEN: "Water"}], difficulty:"hard" },
-    { reactants: [{formula:"Cr2O7^2-", coefficient:1, nameZH: "重鉻酸根離子", nameEN: "Dichromate ion"}, {formula:"H^+", coefficient:14, nameZH: "氫離子", nameEN: "Hydrogen ion"}, {formula:"e^-", coefficient:6, nameZH: "電子", nameEN: "Electron"}], products: [{formula:"Cr^3+", coefficient:2, nameZH: "鉻(III)離子", nameEN: "Chromium(III) ion"}, {formula:"H2O", coefficient:7, nameZH: "水", nameEN: "Water"}], difficulty:"hard" },
-    { reactants: [{formula:"Fe^2+", coefficient:1, nameZH: "亞鐵離子", nameEN: "Iron(II) ion"}], products: [{formula:"Fe^3+", coefficient:1, nameZH: "鐵(III)離子", nameEN: "Iron(III) ion"}, {formula:"e^-", coefficient:1, nameZH: "電子", nameEN: "Electron"}], difficulty: "easy" },
-    { reactants: [{formula:"H2C2O4", coefficient:1, nameZH: "乙二酸", nameEN: "Oxalic acid"}], products: [{formula:"CO2", coefficient:2, nameZH: "二氧化碳", nameEN: "Carbon dioxide"}, {formula:"H^+", coefficient:2, nameZH: "氫離子", nameEN: "Hydrogen ion"}, {formula:"e^-", coefficient:2, nameZH: "電子", nameEN: "Electron"}], difficulty: "medium" },
-  ],
-  REDOX_FULL: [
-    { reactants: [{formula:"MnO4^-", coefficient:1, nameZH:"高錳酸根離子", nameEN:"Permanganate ion"}, {formula:"H^+", coefficient:8, nameZH:"氫離子", nameEN:"Hydrogen ion"}, {formula:"Fe^2+", coefficient:5, nameZH:"亞鐵離子", nameEN:"Iron(II) ion"}], products: [{formula:"Mn^2+", coefficient:1, nameZH:"錳(II)離子", nameEN:"Manganese(II) ion"}, {formula:"H2O", coefficient:4, nameZH:"水", nameEN:"Water"}, {formula:"Fe^3+", coefficient:5, nameZH:"鐵(III)離子", nameEN:"Iron(III) ion"}], difficulty:"hard" },
-  ] 
+/**
+ * 立即從離線題庫、教師自訂題目、模板及之前已取得的 AI 題目中抽取；後加入的與前者重複時略去。
+ * 同時在背景取得更多 AI 題目供下次使用。isOffline 表示這次沒有用上 AI 題目。
+ */
+export const generateEquations = async (count: number = 5, topic: EquationTopic = 'TOPIC_3_METALS', language: Language = 'ZH', history: string[] = [], difficulty: SessionDifficulty = 'mixed'): Promise<{ data: ChemicalEquation[], isOffline: boolean }> => {
+  const generated = aiEquations.get(topic) || [];
+  prefetchAIEquations({ topic, count, difficulty, language });
+  const pool: ChemicalEquation[] = [];
+  const seen = new Set<string>();
+  [
+    ...getEquationPool(topic),
+    ...getCustomEquations(topic),
+    ...getTemplateEquations(topic),
+    ...generated,
+  ].forEach(eq => {
+    const key = equationKey(eq);
+    if (seen.has(key)) return;
+    seen.add(key);
+    pool.push(eq);
+  });
+  const data = pickByDifficulty(pool, count, difficulty, equationKey, history);
+  return { data, isOffline: !data.some(eq => generated.includes(eq)) };
 };
 
-// 分課題存儲挑戰題目
-const CHALLENGES_BY_TOPIC: Record<string, EquationChallenge[]> = {
-  TOPIC_1_2: [
-    {
-      description: "加熱碳酸鈣固體，發生熱分解生成氧化鈣和二氧化碳。",
-      reactants: [{ formula: "CaCO3", coefficient: 1 }],
-      products: [{ formula: "CaO", coefficient: 1 }, { formula: "CO2", coefficient: 1 }]
-    },
-    {
-      description: "碳酸鈣與水及二氧化碳反應，生成碳酸氫鈣。",
-      reactants: [{ formula: "CaCO3", coefficient: 1 }, { formula: "H2O", coefficient: 1 }, { formula: "CO2", coefficient: 1 }],
-      products: [{ formula: "Ca(HCO3)2", coefficient: 1 }]
-    },
-    {
-      description: "鈉在氯氣中燃燒生成氯化鈉。",
-      reactants: [{ formula: "Na", coefficient: 2 }, { formula: "Cl2", coefficient: 1 }],
-      products: [{ formula: "NaCl", coefficient: 2 }]
-    },
-    {
-      description: "Heating calcium carbonate solid to undergo thermal decomposition, forming calcium oxide and carbon dioxide.",
-      reactants: [{ formula: "CaCO3", coefficient: 1 }],
-      products: [{ formula: "CaO", coefficient: 1 }, { formula: "CO2", coefficient: 1 }]
-    }
-  ],
-  TOPIC_3: [
-    {
-      description: "鎂在氧氣中燃燒生成氧化鎂。",
-      reactants: [{ formula: "Mg", coefficient: 2 }, { formula: "O2", coefficient: 1 }],
-      products: [{ formula: "MgO", coefficient: 2 }]
-    },
-    {
-      description: "鋁在氯氣中燃燒生成氯化鋁。",
-      reactants: [{ formula: "Al", coefficient: 2 }, { formula: "Cl2", coefficient: 3 }],
-      products: [{ formula: "AlCl3", coefficient: 2 }]
-    },
-    {
-      description: "銅片放入硝酸銀溶液中，置換出銀並生成硝酸銅(II)。",
-      reactants: [{ formula: "Cu", coefficient: 1 }, { formula: "AgNO3", coefficient: 2 }],
-      products: [{ formula: "Cu(NO3)2", coefficient: 1 }, { formula: "Ag", coefficient: 2 }]
-    },
-    {
-      description: "Magnesium burns in oxygen to form magnesium oxide.",
-      reactants: [{ formula: "Mg", coefficient: 2 }, { formula: "O2", coefficient: 1 }],
-      products: [{ formula: "MgO", coefficient: 2 }]
-    }
-  ],
-  TOPIC_4: [
-    {
-      description: "鋅與稀鹽酸反應，生成氯化鋅和氫氣。",
-      reactants: [{ formula: "Zn", coefficient: 1 }, { formula: "HCl", coefficient: 2 }],
-      products: [{ formula: "ZnCl2", coefficient: 1 }, { formula: "H2", coefficient: 1 }]
-    },
-    {
-      description: "氫氧化鈉溶液與稀硫酸反應，發生中和反應生成硫酸鈉和水。",
-      reactants: [{ formula: "NaOH", coefficient: 2 }, { formula: "H2SO4", coefficient: 1 }],
-      products: [{ formula: "Na2SO4", coefficient: 1 }, { formula: "H2O", coefficient: 2 }]
-    },
-    {
-      description: "碳酸氫鈉與鹽酸反應，生成氯化鈉、二氧化碳和水。",
-      reactants: [{ formula: "NaHCO3", coefficient: 1 }, { formula: "HCl", coefficient: 1 }],
-      products: [{ formula: "NaCl", coefficient: 1 }, { formula: "CO2", coefficient: 1 }, { formula: "H2O", coefficient: 1 }]
-    },
-    {
-      description: "Zinc reacts with dilute hydrochloric acid to produce zinc chloride and hydrogen gas.",
-      reactants: [{ formula: "Zn", coefficient: 1 }, { formula: "HCl", coefficient: 2 }],
-      products: [{ formula: "ZnCl2", coefficient: 1 }, { formula: "H2", coefficient: 1 }]
-    }
-  ],
-  TOPIC_6: [
-    {
-      description: "甲烷在氧氣中完全燃燒，生成二氧化碳和水。",
-      reactants: [{ formula: "CH4", coefficient: 1 }, { formula: "O2", coefficient: 2 }],
-      products: [{ formula: "CO2", coefficient: 1 }, { formula: "H2O", coefficient: 2 }]
-    },
-    {
-      description: "乙烯在氧氣中完全燃燒，生成二氧化碳和水。",
-      reactants: [{ formula: "C2H4", coefficient: 1 }, { formula: "O2", coefficient: 3 }],
-      products: [{ formula: "CO2", coefficient: 2 }, { formula: "H2O", coefficient: 2 }]
-    },
-    {
-      description: "Methane burns completely in oxygen to produce carbon dioxide and water.",
-      reactants: [{ formula: "CH4", coefficient: 1 }, { formula: "O2", coefficient: 2 }],
-      products: [{ formula: "CO2", coefficient: 1 }, { formula: "H2O", coefficient: 2 }]
-    }
-  ],
-  TOPIC_7: [
-    {
-      description: "氯氣與溴化鉀溶液反應，置換出溴並生成氯化鉀。",
-      reactants: [{ formula: "Cl2", coefficient: 1 }, { formula: "KBr", coefficient: 2 }],
-      products: [{ formula: "Br2", coefficient: 1 }, { formula: "KCl", coefficient: 2 }]
-    },
-    {
-      description: "鈉與水劇烈反應，生成氫氧化鈉和氫氣。",
-      reactants: [{ formula: "Na", coefficient: 2 }, { formula: "H2O", coefficient: 2 }],
-      products: [{ formula: "NaOH", coefficient: 2 }, { formula: "H2", coefficient: 1 }]
-    },
-    {
-      description: "Sodium reacts vigorously with water to form sodium hydroxide and hydrogen gas.",
-      reactants: [{ formula: "Na", coefficient: 2 }, { formula: "H2O", coefficient: 2 }],
-      products: [{ formula: "NaOH", coefficient: 2 }, { formula: "H2", coefficient: 1 }]
-    }
-  ],
-  TOPIC_8: [
-    {
-      description: "氫氣在氧氣中燃燒生成水。",
-      reactants: [{ formula: "H2", coefficient: 2 }, { formula: "O2", coefficient: 1 }],
-      products: [{ formula: "H2O", coefficient: 2 }]
-    },
-    {
-      description: "光合作用：二氧化碳和水在光照下生成葡萄糖和氧氣。",
-      reactants: [{ formula: "CO2", coefficient: 6 }, { formula: "H2O", coefficient: 6 }],
-      products: [{ formula: "C6H12O6", coefficient: 1 }, { formula: "O2", coefficient: 6 }]
-    },
-    {
-      description: "Hydrogen burns in oxygen to form water.",
-      reactants: [{ formula: "H2", coefficient: 2 }, { formula: "O2", coefficient: 1 }],
-      products: [{ formula: "H2O", coefficient: 2 }]
-    }
-  ]
-};
+const ION_DIFFICULTIES: IonData['difficulty'][] = ['easy', 'medium', 'hard'];
 
-export const generateEquations = async (count: number = 5, topic: EquationTopic = 'TOPIC_3_METALS', language: Language = 'ZH', history: string[] = []): Promise<{ data: ChemicalEquation[], isOffline: boolean }> => {
-  let pool: ChemicalEquation[] = [];
-  if (topic === 'TOPIC_1_2_EARTH_MICRO') pool = [...MASTER_EQUATIONS.TOPIC_1_EARTH, ...MASTER_EQUATIONS.TOPIC_2_MICRO];
-  else pool = [...(MASTER_EQUATIONS[topic as string] || [])];
-  return { data: shuffleArray(pool).slice(0, count), isOffline: true };
+const toIon = (ion: IonData): Ion => ({
+  id: ion.formula,
+  formula: ion.formula,
+  chineseName: ion.zh,
+  englishName: ion.en,
+  type: ion.type,
+  charge: ion.charge,
+});
+
+export const generateIons = async (count: number = 6, difficulty: string = 'medium', category: 'MONO' | 'POLY' | 'MIXED' = 'MIXED', history: string[] = []): Promise<Ion[]> => {
+  // 難度向下包含：medium 會抽 easy 及 medium 的離子；未知難度視作 hard（全部離子）
+  const level = ION_DIFFICULTIES.indexOf(difficulty as IonData['difficulty']);
+  const maxLevel = level === -1 ? ION_DIFFICULTIES.length - 1 : level;
+  const pool = ALL_IONS.filter(ion =>
+    ION_DIFFICULTIES.indexOf(ion.difficulty) <= maxLevel &&
+    (category === 'MIXED' || (category === 'POLY') === ion.polyatomic)
+  );
+  const cations = orderByHistory(pool.filter(ion => ion.type === 'Cation'), ion => ion.formula, history);
+  const anions = orderByHistory(pool.filter(ion => ion.type === 'Anion'), ion => ion.formula, history);
+
+  // 陽離子與陰離子各佔一半（單數時隨機多一個），其中一類不足時以另一類補足
+  const half = Math.random() < 0.5 ? Math.ceil(count / 2) : Math.floor(count / 2);
+  const cationCount = Math.min(cations.length, Math.max(half, count - anions.length));
+  const anionCount = Math.min(anions.length, count - cationCount);
+  return shuffleArray([...cations.slice(0, cationCount), ...anions.slice(0, anionCount)]).map(toIon);
 };
 
-export const generateIons = async (count: number = 6, difficulty: string = 'medium', category: 'MONO' | 'POLY' | 'MIXED' = 'MIXED'): Promise<Ion[]> => {
-  return []; 
+/**
+ * 以 AI 批改手寫答案：images 為整頁相片一張，或手寫板上每題一張。
+ * 先壓縮圖片，再在本地核對及重新評分；任何一步失敗都回傳失敗原因，呼叫者不應儲存成績。
+ */
+export const evaluateHandwrittenAnswers = async (images: string[], questions: GradingQuestion[], language: Language = 'ZH'): Promise<GradingOutcome> => {
+  if (!getAIProvider()) return { ok: false, reason: 'OFFLINE' };
+  let compressed: string[];
+  try {
+    compressed = await Promise.all(images.map(compressImage));
+  } catch (e) {
+    return { ok: false, reason: 'FAILED', detail: e instanceof Error ? e.message : String(e) };
+  }
+  const result = await tryAI(ai => ai.gradeHandwriting({ images: compressed, questions, language }), GRADING_TIMEOUT_MS);
+  if (!result) return { ok: false, reason: 'FAILED' };
+  const outcome = verifyGrading(result, questions, language);
+  if ('reason' in outcome) {
+    console.warn('AI grading result rejected:', outcome.detail);
+    return outcome;
+  }
+  return { ...outcome, images: compressed };
 };
 
-export const evaluateHandwrittenAnswers = async (imageBase64: string, questions: any[]): Promise<EvaluationResult> => {
-  return { score: 0, results: [], overallFeedback: "" };
+/**
+ * 以 AI 解釋學生的錯誤；沒有可用的 AI 時回傳 null。
+ */
+export const explainMistake = async (request: MistakeRequest): Promise<MistakeExplanation | null> =>
+  tryAI(ai => ai.explainMistake(request));
+
+// 自訂題目所屬課題在方程式建構中的課題組；氧化還原題目只用於方程式平衡
+const BUILDER_TOPIC_KEYS: Partial<Record<EquationTopic, string>> = {
+  TOPIC_1_2_EARTH_MICRO: 'TOPIC_1_2',
+  TOPIC_1_EARTH: 'TOPIC_1_2',
+  TOPIC_2_MICRO: 'TOPIC_1_2',
+  TOPIC_3_METALS: 'TOPIC_3',
+  TOPIC_4_ACIDS: 'TOPIC_4',
+  TOPIC_6_ORGANIC: 'TOPIC_6',
+  TOPIC_7_PERIODICITY: 'TOPIC_7',
+  TOPIC_8_ENERGETICS: 'TOPIC_8',
 };
 
-export const generateBuilderChallenges = async (count: number = 3, language: Language = 'ZH'): Promise<{ data: EquationChallenge[], isOffline: boolean }> => {
-  const isZH = language === 'ZH';
-  
+export const generateBuilderChallenges = async (count: number = 3, history: string[] = []): Promise<{ data: EquationChallenge[], isOffline: boolean }> => {
   // 按照 1-8 課題順序抽取題目
   const orderedTopics = ['TOPIC_1_2', 'TOPIC_3', 'TOPIC_4', 'TOPIC_6', 'TOPIC_7', 'TOPIC_8'];
   const selected: EquationChallenge[] = [];
+  const customQuestions = getCustomQuestions();
 
   orderedTopics.forEach(topicKey => {
-    const topicPool = CHALLENGES_BY_TOPIC[topicKey] || [];
-    // 過濾語言
-    const filteredPool = topicPool.filter(c => {
-      const hasChinese = /[\u4e00-\u9fa5]/.test(c.description);
-      return isZH ? hasChinese : !hasChinese;
-    });
-
-    if (filteredPool.length > 0) {
-      // 隨機挑選一個該課題的題目，確保每次進入描述不同
-      const randomChallenge = filteredPool[Math.floor(Math.random() * filteredPool.length)];
-      selected.push(randomChallenge);
+    // 內建題目及屬於此課題組的教師自訂題目；每題已包含中英文描述
+    const topicPool = [...(CHALLENGES_BY_TOPIC[topicKey] || [])];
+    customQuestions
+      .filter(q => BUILDER_TOPIC_KEYS[q.topic] === topicKey)
+      .forEach(q => {
+        const challenge = customToChallenge(q);
+        if (challenge) topicPool.push(challenge);
+      });
+
+    if (topicPool.length > 0) {
+      // 每個課題挑選一個最近未見過的題目
+      selected.push(pickUnseen(topicPool, 1, c => equationKey(c), history)[0]);
     }
   });
 
@@ -227,3 +235,13 @@ export const generateBuilderChallenges = async (count: number = 3, language: Lan
   // 這裡我們返回 selected 中按順序的前 count 個
   return { data: selected.slice(0, count), isOffline: true };
 };
+
+export const generateIonicChallenges = async (count: number = 6): Promise<{ data: IonicChallenge[], isOffline: boolean }> => {
+  // 從題庫中找出能改寫成離子方程式的分子方程式（已是離子形式的題目除外）
+  const pool: ChemicalEquation[] = getAllEquations().filter(hasIonicForm);
+  const data = shuffleArray(pool).slice(0, count).map(molecular => {
+    const net = toNetIonicEquation(molecular);
+    return { id: molecular.id, descriptionZH: '寫出以下反應的離子方程式。', descriptionEN: 'Write the ionic equation for this reaction.', reactants: net.reactants, products: net.products, conditions: molecular.conditions, molecular, spectators: net.spectators };
+  });
+  return { data, isOffline: true };
+};
@@ -0,0 +1,86 @@
+import { GradeChange, HandwrittenSubmission, HandwrittenTestResult, HandwrittenVerdict, Language, UserProfile } from '../types';
+import { EvaluationResult } from './aiProvider';
+
+// 由 AI 批改、可由老師覆核的手寫測驗
+export type HandwrittenStage = 9 | 12;
+
+export const HANDWRITTEN_STAGES: Record<HandwrittenStage, 'stage9Result' | 'stage12Result'> = {
+  9: 'stage9Result',
+  12: 'stage12Result',
+};
+
+// 有逐題紀錄、可以覆核的測驗結果
+export type ReviewableResult = HandwrittenTestResult & { details: HandwrittenVerdict[] };
+
+export interface ReviewItem {
+  userName: string;
+  stage: HandwrittenStage;
+  result: ReviewableResult;
+}
+
+// 老師對一題的新判定
+export interface VerdictOverride {
+  index: number;
+  isCorrect: boolean;
+  reason: string;
+}
+
+/**
+ * 把已核對的批改結果連同作答保存為測驗紀錄。
+ */
+export const toTestResult = (result: EvaluationResult, submission: HandwrittenSubmission | undefined, timestamp: number = Date.now()): HandwrittenTestResult => ({
+  score: result.score,
+  timestamp,
+  details: result.results.map(r => ({
+    question: r.question,
+    expected: r.expected,
+    userAnswer: r.studentWrote,
+    isCorrect: r.isCorrect,
+    ...(r.aiCorrect !== undefined ? { aiCorrect: r.aiCorrect } : {}),
+    ...(r.feedback ? { feedback: r.feedback } : {}),
+  })),
+  ...(submission ? { submission } : {}),
+});
+
+/**
+ * 所有學生可覆核的手寫測驗：未覆核的排在前面，同類按提交時間由舊至新。
+ * 沒有逐題紀錄的舊版結果無法覆核，不會列出。
+ */
+export const getReviewQueue = (users: UserProfile[]): ReviewItem[] =>
+  users.flatMap(user => ([9, 12] as HandwrittenStage[])
+    .map(stage => ({ userName: user.name, stage, result: user[HANDWRITTEN_STAGES[stage]] }))
+    .filter((item): item is ReviewItem => !!item.result?.details?.length))
+    .sort((a, b) => Number(!!a.result.reviewedAt) - Number(!!b.result.reviewedAt) || a.result.timestamp - b.result.timestamp);
+
+/**
+ * 套用老師的更改並重新計算分數；與現時判定相同或沒有原因的更改會被略過。
+ * 即使沒有任何更改，也會標記為已覆核。
+ */
+export const applyReview = (result: HandwrittenTestResult, overrides: VerdictOverride[], teacher: string, timestamp: number = Date.now()): HandwrittenTestResult => {
+  const current = result.details || [];
+  const changes: GradeChange[] = overrides
+    .filter(o => current[o.index] && current[o.index].isCorrect !== o.isCorrect && o.reason.trim())
+    .map(o => ({ index: o.index, isCorrect: o.isCorrect, reason: o.reason.trim(), by: teacher, timestamp }));
+  const details = current.map((d, i) => {
+    const change = changes.find(c => c.index === i);
+    return change ? { ...d, isCorrect: change.isCorrect } : d;
+  });
+  return {
+    ...result,
+    details,
+    score: details.filter(d => d.isCorrect).length,
+    reviewedBy: teacher,
+    reviewedAt: timestamp,
+    changes: [...(result.changes || []), ...changes],
+  };
+};
+
+/**
+ * 更改紀錄的文字，例如「19/10/2026 陳老師 把第 3 題改為正確：下標清楚可見」。
+ */
+export const describeChange = (change: GradeChange, language: Language): string => {
+  const date = new Date(change.timestamp).toLocaleDateString(language === 'ZH' ? 'zh-HK' : 'en-GB');
+  return language === 'ZH'
+    ? `${date} ${change.by} 把第 ${change.index + 1} 題改為${change.isCorrect ? '正確' : '錯誤'}：${change.reason}`
+    : `${date} ${change.by} marked question ${change.index + 1} as ${change.isCorrect ? 'correct' : 'wrong'}: ${change.reason}`;
+};
@@ -0,0 +1,163 @@
+import { EvaluationResult, GradingQuestion } from './aiProvider';
+import { parseFormula, getCharge } from '../utils';
+import { validateFormula } from './formulaValidator';
+import { normaliseCharge } from './equationParser';
+import { HandwritingStroke, Language } from '../types';
+
+const MAX_IMAGE_SIDE = 1600; // 長邊像素，足夠辨認手寫下標
+const JPEG_QUALITY = 0.8;
+
+export type GradingFailure =
+  | 'OFFLINE'         // 沒有設定 AI 後端
+  | 'FAILED'          // 圖片無法讀取、連線失敗或超時
+  | 'INVALID_RESULT'; // AI 的回覆與題目不符
+
+export type GradingOutcome =
+  | { ok: true; result: EvaluationResult; images?: string[] } // images：實際送出的壓縮圖片
+  | { ok: false; reason: GradingFailure; detail?: string };
+
+/**
+ * 把相片縮小並轉為 JPEG，減少上傳時間；非瀏覽器環境原樣回傳。
+ */
+export const compressImage = (dataUrl: string): Promise<string> => {
+  if (typeof document === 'undefined') return Promise.resolve(dataUrl);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) { reject(new Error('Canvas is not available')); return; }
+      // JPEG 沒有透明度，先鋪白底以免透明背景變黑
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+    };
+    img.onerror = () => reject(new Error('The file is not a readable image'));
+    img.src = dataUrl;
+  });
+};
+
+// 手寫板每格的像素大小（匯出圖片亦用此大小），闊度足夠寫 Al2(SO4)3 之類較長的化學式
+export const PAD_WIDTH = 600;
+export const PAD_HEIGHT = 200;
+const STROKE_WIDTH = 6; // 壓力 0.5 時的筆畫粗幼（像素）
+
+/**
+ * 在畫布上畫出筆畫；筆的壓力越大，線條越粗。
+ */
+export const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: HandwritingStroke[], width: number, height: number) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = '#0f172a';
+  strokes.forEach(stroke => {
+    if (stroke.length === 1) {
+      const [p] = stroke;
+      ctx.fillStyle = '#0f172a';
+      ctx.beginPath();
+      ctx.arc(p.x * width, p.y * height, STROKE_WIDTH * p.pressure, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    for (let i = 1; i < stroke.length; i++) {
+      const from = stroke[i - 1];
+      const to = stroke[i];
+      ctx.lineWidth = STROKE_WIDTH * (from.pressure + to.pressure); // 兩點壓力的平均 × 2
+      ctx.beginPath();
+      ctx.moveTo(from.x * width, from.y * height);
+      ctx.lineTo(to.x * width, to.y * height);
+      ctx.stroke();
+    }
+  });
+};
+
+/**
+ * 把一格的筆畫轉為白底 PNG 圖片，供 AI 批改。
+ */
+export const renderStrokes = (strokes: HandwritingStroke[]): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAD_WIDTH;
+  canvas.height = PAD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+  drawStrokes(ctx, strokes, PAD_WIDTH, PAD_HEIGHT);
+  return canvas.toDataURL('image/png');
+};
+
+const SUBSCRIPTS: Record<string, string> = { '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9' };
+const SUPERSCRIPTS: Record<string, string> = { '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁺': '+', '⁻': '-' };
+
+const toPlain = (text: string) => text.replace(/\s+/g, '').replace(/[₀-₉⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻]/g, c => SUBSCRIPTS[c] || SUPERSCRIPTS[c]);
+
+/**
+ * 把 AI 讀出的手寫化學式轉為題庫的寫法：去除空格、換成一般數字，電荷寫成 "^2-"。
+ * 電荷在去除空格前找出：上標數字（如 "O²-"、"SO₄²⁻"）或以空格分開的末尾數字（如 "Hg2 2+"）是電荷；
+ * 其他寫法（如 "Hg22+"）交由 normaliseCharge 判斷。
+ */
+export const normaliseWrittenFormula = (text: string): string => {
+  const source = text.trim().replace(/[−–]/g, '-');
+  const sign = source.slice(-1);
+  if (source.includes('^') || !/[+\-⁺⁻]/.test(sign)) return normaliseCharge(toPlain(source));
+  const rest = source.slice(0, -1).trimEnd();
+  const superscript = rest.match(/[⁰¹²³⁴⁵⁶⁷⁸⁹]+$/);
+  const spaced = rest.match(/^(.*?\S)\s+(\d*)$/);
+  const [body, digits] = superscript ? [rest.slice(0, -superscript[0].length), superscript[0]]
+    : spaced ? [spaced[1], spaced[2]]
+    : [null, ''];
+  if (body === null) return normaliseCharge(toPlain(source));
+  return `${toPlain(body)}^${toPlain(digits)}${toPlain(sign)}`;
+};
+
+// 除去數字後的符號次序，用來分辨 Ca(OH)2 與 CaO2H2 這類原子數相同但寫法不同的答案
+const symbolSequence = (formula: string) => formula.split('^')[0].replace(/\d+/g, '');
+
+/**
+ * 以 parseFormula 在本地重新評分：原子數目、電荷及寫法次序都要與答案相同。
+ */
+export const isSameFormula = (written: string, expected: string): boolean => {
+  const formula = normaliseWrittenFormula(written);
+  if (!formula || 'errors' in validateFormula(formula)) return false;
+  const atoms = parseFormula(formula);
+  const target = parseFormula(expected);
+  const elements = new Set([...Object.keys(atoms), ...Object.keys(target)]);
+  return Array.from(elements).every(el => atoms[el] === target[el])
+    && getCharge(formula) === getCharge(expected)
+    && symbolSequence(formula) === symbolSequence(expected);
+};
+
+/**
+ * 檢查 AI 的批改結果：題數及每題答案必須與答案表一致，否則不採用。
+ * 是否答對及總分一律在本地重新計算，AI 自己的判定另存於 aiCorrect 供老師覆核。
+ */
+export const verifyGrading = (result: EvaluationResult, questions: GradingQuestion[], language: Language): GradingOutcome => {
+  const invalid = (detail: string): GradingOutcome => ({ ok: false, reason: 'INVALID_RESULT', detail });
+  if (!Array.isArray(result.results) || result.results.length !== questions.length) {
+    return invalid(`expected ${questions.length} answers, got ${Array.isArray(result.results) ? result.results.length : 'none'}`);
+  }
+  const mismatch = result.results.findIndex((r, i) => String(r?.expected ?? '').trim() !== questions[i].formula);
+  if (mismatch !== -1) return invalid(`answer ${mismatch + 1} does not match the answer key`);
+
+  const results = result.results.map((r, i) => {
+    const studentWrote = typeof r.studentWrote === 'string' ? r.studentWrote.trim() : '';
+    const isCorrect = isSameFormula(studentWrote, questions[i].formula);
+    return {
+      question: language === 'ZH' ? questions[i].zh : questions[i].en,
+      expected: questions[i].formula,
+      studentWrote,
+      isCorrect,
+      aiCorrect: r.isCorrect === true,
+      // AI 的評語與本地評分不一致時不顯示，以免自相矛盾
+      feedback: r.isCorrect === isCorrect && r.feedback ? String(r.feedback) : undefined,
+    };
+  });
+  const score = results.filter(r => r.isCorrect).length;
+  return {
+    ok: true,
+    // 總評可能提及 AI 自己的分數，分數不同時同樣不採用
+    result: { score, results, overallFeedback: result.score === score ? String(result.overallFeedback || '') : '' },
+  };
+};
@@ -0,0 +1,187 @@
+import { ChemicalEquation, EquationComponent, IonData } from '../types';
+import { CATIONS, ANIONS } from '../data/ions';
+import { getElement } from '../data/periodicTable';
+import { buildCompound } from './compoundBuilder';
+
+export interface IonicEquation {
+  reactants: EquationComponent[];
+  products: EquationComponent[];
+  spectators: string[]; // 被消去的旁觀離子（或兩方相同的物質）
+}
+
+interface IonPair {
+  cation: IonData;
+  anion: IonData;
+  cationCount: number;
+  anionCount: number;
+}
+
+// 強酸的陰離子；其他酸（如 CH3COOH、H2CO3、HF）屬弱酸，在溶液中以分子為主，不拆開
+const STRONG_ACID_ANIONS = ['Cl^-', 'Br^-', 'I^-', 'NO3^-', 'SO4^2-'];
+
+// 氧化物及氮化物與水反應而非溶解成離子，一律不拆開
+const NEVER_SPLIT_ANIONS = ['O^2-', 'N^3-'];
+
+// 所有鹽類均可溶的陽離子及陰離子
+const SOLUBLE_CATIONS = ['Li^+', 'Na^+', 'K^+', 'NH4^+'];
+const SOLUBLE_ANIONS = ['NO3^-', 'NO2^-', 'HCO3^-', 'HSO4^-', 'CH3COO^-', 'MnO4^-', 'ClO^-', 'CN^-'];
+
+// 一般可溶，但與以下陽離子組成沉澱
+const SOLUBLE_EXCEPT: Record<string, string[]> = {
+  'Cl^-': ['Ag^+', 'Pb^2+', 'Cu^+', 'Hg2^2+'],
+  'Br^-': ['Ag^+', 'Pb^2+', 'Cu^+', 'Hg2^2+'],
+  'I^-': ['Ag^+', 'Pb^2+', 'Cu^+', 'Hg^2+', 'Hg2^2+'],
+  'F^-': ['Mg^2+', 'Ca^2+', 'Ba^2+', 'Pb^2+'],
+  'SO4^2-': ['Ca^2+', 'Ba^2+', 'Pb^2+'],
+  'CrO4^2-': ['Ag^+', 'Ba^2+', 'Pb^2+'],
+  'Cr2O7^2-': ['Ag^+'],
+};
+
+// 一般不溶，只有與以下陽離子（及 SOLUBLE_CATIONS）組成時可溶
+// Ca(OH)2 微溶，但課程中石灰水視作鹼溶液
+const INSOLUBLE_EXCEPT: Record<string, string[]> = {
+  'OH^-': ['Ca^2+', 'Ba^2+'],
+  'S^2-': ['Mg^2+', 'Ca^2+', 'Ba^2+'],
+  'CO3^2-': [],
+  'SO3^2-': [],
+  'PO4^3-': [],
+};
+
+const gcd = (a: number, b: number): number => {
+  a = Math.abs(a); b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+};
+
+let pairIndex: Map<string, IonPair> | null = null;
+
+const buildPairIndex = () => {
+  pairIndex = new Map();
+  // H3O+ 只以離子形式出現，酸一律以 H+ 表示
+  CATIONS.filter(cation => cation.formula !== 'H3O^+').forEach(cation => {
+    ANIONS.forEach(anion => {
+      const compound = buildCompound(cation, anion);
+      if (pairIndex!.has(compound.formula)) return;
+      const g = gcd(cation.charge, anion.charge);
+      pairIndex!.set(compound.formula, { cation, anion, cationCount: Math.abs(anion.charge) / g, anionCount: cation.charge / g });
+    });
+  });
+};
+
+const findPair = (formula: string): IonPair | undefined => {
+  if (!pairIndex) buildPairIndex();
+  return pairIndex!.get(formula.replace(/\s+/g, ''));
+};
+
+/**
+ * 按溶解度規則判斷離子化合物是否可溶於水；不是由已知離子組成的物質回傳 null。
+ */
+export const isSoluble = (formula: string): boolean | null => {
+  const pair = findPair(formula);
+  if (!pair) return null;
+  const { cation, anion } = pair;
+  if (cation.formula === 'H^+') return true;
+  if (SOLUBLE_CATIONS.includes(cation.formula) || SOLUBLE_ANIONS.includes(anion.formula)) return true;
+  if (SOLUBLE_EXCEPT[anion.formula]) return !SOLUBLE_EXCEPT[anion.formula].includes(cation.formula);
+  if (INSOLUBLE_EXCEPT[anion.formula]) return INSOLUBLE_EXCEPT[anion.formula].includes(cation.formula);
+  return !NEVER_SPLIT_ANIONS.includes(anion.formula);
+};
+
+/**
+ * 判斷物質在水溶液中是否完全解離（強酸、可溶的鹼及鹽）。
+ * 弱酸、不溶鹽、氧化物及共價物質回傳 false。
+ */
+export const isStrongElectrolyte = (formula: string): boolean => {
+  const pair = findPair(formula);
+  if (!pair || NEVER_SPLIT_ANIONS.includes(pair.anion.formula)) return false;
+  if (pair.cation.formula === 'H^+') return STRONG_ACID_ANIONS.includes(pair.anion.formula);
+  return isSoluble(formula) === true;
+};
+
+const ionComponent = (ion: IonData, coefficient: number): EquationComponent => ({
+  formula: ion.formula,
+  coefficient,
+  nameZH: ion.zh,
+  nameEN: ion.en,
+  state: 'aq',
+});
+
+/**
+ * 把強電解質拆成離子，例如 "Fe2(SO4)3" → 2Fe^3+ + 3SO4^2-；不會解離的物質回傳 null。
+ */
+export const splitIntoIons = (formula: string): EquationComponent[] | null => {
+  if (!isStrongElectrolyte(formula)) return null;
+  const pair = findPair(formula)!;
+  return [ionComponent(pair.cation, pair.cationCount), ionComponent(pair.anion, pair.anionCount)];
+};
+
+// 合併同一方相同的物質，保留首次出現的次序
+const mergeSide = (components: EquationComponent[]): EquationComponent[] => {
+  const merged: EquationComponent[] = [];
+  components.forEach(c => {
+    const existing = merged.find(m => m.formula === c.formula);
+    if (existing) existing.coefficient += c.coefficient;
+    else merged.push({ ...c });
+  });
+  return merged;
+};
+
+const expandSide = (components: EquationComponent[]): EquationComponent[] => mergeSide(components.flatMap(c => {
+  // 已標示為固體、液體或氣體的物質不拆開
+  if (c.state && c.state !== 'aq') return [c];
+  const ions = splitIntoIons(c.formula);
+  return ions ? ions.map(ion => ({ ...ion, coefficient: ion.coefficient * c.coefficient })) : [c];
+}));
+
+/**
+ * 由分子方程式得出完整離子方程式：所有水溶液中的強電解質均拆成離子，旁觀離子保留。
+ */
+export const toIonicEquation = (equation: Pick<ChemicalEquation, 'reactants' | 'products'>): IonicEquation => ({
+  reactants: expandSide(equation.reactants),
+  products: expandSide(equation.products),
+  spectators: [],
+});
+
+/**
+ * 由分子方程式得出淨離子方程式：拆開強電解質、消去兩方相同的旁觀離子，並約簡係數。
+ * 若所有物質都被消去（即沒有實際反應），兩方均為空陣列。
+ * 例如 Mg + 2HCl → MgCl2 + H2 得出 Mg + 2H^+ → Mg^2+ + H2，旁觀離子為 Cl^-。
+ */
+export const toNetIonicEquation = (equation: Pick<ChemicalEquation, 'reactants' | 'products'>): IonicEquation => {
+  const { reactants, products } = toIonicEquation(equation);
+  const spectators: string[] = [];
+  reactants.forEach(r => {
+    const p = products.find(x => x.formula === r.formula);
+    if (!p) return;
+    const common = Math.min(r.coefficient, p.coefficient);
+    r.coefficient -= common;
+    p.coefficient -= common;
+    spectators.push(r.formula);
+  });
+  const remaining = [...reactants, ...products].filter(c => c.coefficient > 0);
+  const divisor = remaining.reduce((acc, c) => gcd(acc, c.coefficient), 0) || 1;
+  const reduce = (side: EquationComponent[]) => side
+    .filter(c => c.coefficient > 0)
+    .map(c => ({ ...c, coefficient: c.coefficient / divisor }));
+  return { reactants: reduce(reactants), products: reduce(products), spectators };
+};
+
+// 含金屬但不在離子資料中的溶液物質（如 NaAl(OH)4），無法判斷如何拆開
+const isUnknownSalt = (c: EquationComponent): boolean => {
+  if (c.state && c.state !== 'aq') return false;
+  if (c.formula.includes('^') || findPair(c.formula)) return false;
+  const symbols = c.formula.match(/[A-Z][a-z]?/g) || [];
+  return symbols.length > 1 && symbols.some(symbol => getElement(symbol)?.category === 'METAL');
+};
+
+/**
+ * 判斷分子方程式能否改寫成不同的離子方程式（至少有一個物質被拆開，且消去後仍有反應）。
+ * 含未知鹽類的方程式不作處理。
+ */
+export const hasIonicForm = (equation: Pick<ChemicalEquation, 'reactants' | 'products'>): boolean => {
+  if ([...equation.reactants, ...equation.products].some(isUnknownSalt)) return false;
+  const splits = [...equation.reactants, ...equation.products].some(c => (!c.state || c.state === 'aq') && splitIntoIons(c.formula));
+  if (!splits) return false;
+  const net = toNetIonicEquation(equation);
+  return net.reactants.length > 0 && net.products.length > 0;
+};
@@ -0,0 +1,70 @@
+import { UserProfile } from '../types';
+import { MistakeExplanation, MistakeRequest } from './aiProvider';
+import { explainMistake, getAIProvider } from './geminiService';
+import { getRecord, listRecords, putRecords, deleteRecords } from './repository';
+
+const MAX_CACHED = 300; // 超出時丟棄最舊的解釋
+
+// 每位用戶每日向 AI 要求解釋的次數；快取的解釋不計算
+export const DAILY_EXPLANATION_BUDGET = 10;
+
+export type ExplanationFailure = 'NO_BUDGET' | 'OFFLINE' | 'FAILED';
+
+export type ExplanationOutcome =
+  | { explanation: MistakeExplanation; cached: boolean } // cached 為 false 時須以 countExplanation 計算用量
+  | { reason: ExplanationFailure };
+
+/**
+ * 同一題目的同一個錯誤答案得到相同的指紋；空格不影響。
+ */
+export const mistakeFingerprint = (request: MistakeRequest): string =>
+  [request.expected, request.studentAnswer].map(s => s.replace(/\s+/g, '')).join('|');
+
+export const getCachedExplanation = (request: MistakeRequest): MistakeExplanation | null =>
+  getRecord('explanations', mistakeFingerprint(request))?.explanation || null;
+
+// 快取只為加快及離線使用，寫入失敗不影響已取得的解釋
+const cacheExplanation = (key: string, explanation: MistakeExplanation, now: Date) => {
+  const stale = listRecords('explanations')
+    .filter(([k]) => k !== key)
+    .sort((a, b) => a[1].savedAt - b[1].savedAt)
+    .map(([k]) => k);
+  if (stale.length >= MAX_CACHED) deleteRecords('explanations', stale.slice(0, stale.length - MAX_CACHED + 1));
+  putRecords('explanations', [[key, { explanation, savedAt: now.getTime() }]]);
+};
+
+// 本地日期，午夜後重新計算用量
+const today = (now: Date = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+export const remainingExplanations = (user: UserProfile, now?: Date): number => {
+  const usage = user.explanationUsage;
+  const used = usage && usage.date === today(now) ? usage.count : 0;
+  return Math.max(0, DAILY_EXPLANATION_BUDGET - used);
+};
+
+/**
+ * 把一次 AI 解釋計入當日用量。等待 AI 期間用戶資料可能已更新，應傳入最新的資料。
+ */
+export const countExplanation = (user: UserProfile, now: Date = new Date()): UserProfile => {
+  const date = today(now);
+  const count = (user.explanationUsage?.date === date ? user.explanationUsage.count : 0) + 1;
+  return { ...user, explanationUsage: { date, count } };
+};
+
+/**
+ * 取得錯誤的解釋：先查快取（不需連網、不計用量），否則在當日用量內向 AI 要求並存入快取。
+ * AI 失敗時不計用量。
+ */
+export const requestExplanation = async (user: UserProfile, request: MistakeRequest, now: Date = new Date()): Promise<ExplanationOutcome> => {
+  const cached = getCachedExplanation(request);
+  if (cached) return { explanation: cached, cached: true };
+  if (remainingExplanations(user, now) === 0) return { reason: 'NO_BUDGET' };
+  if (!getAIProvider()) return { reason: 'OFFLINE' };
+
+  const explanation = await explainMistake(request);
+  if (!explanation) return { reason: 'FAILED' };
+
+  cacheExplanation(mistakeFingerprint(request), explanation, now);
+  return { explanation, cached: false };
+};
@@ -0,0 +1,44 @@
+import { AIProvider, EvaluationResult } from './aiProvider';
+import { getEquationPool } from './equationBank';
+import { getTemplateEquations } from './reactionTemplates';
+import { serializeEquation } from './equationParser';
+
+/**
+ * 離線的模擬後端：不連網、結果固定，用於開發及測試 AI 相關的介面流程。
+ * - 出題：按次序取該課題的模板及題庫方程式
+ * - 批改：每三題的第三題當作未作答，其餘當作寫對
+ * - 解釋錯誤：以固定句式列出學生答案、正確答案及本地找到的問題
+ */
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  generateQuestions: async ({ topic, count, difficulty }) =>
+    [...getTemplateEquations(topic), ...getEquationPool(topic)]
+      .filter(eq => difficulty === 'mixed' || eq.difficulty === difficulty)
+      .slice(0, count)
+      .map(eq => ({ equation: serializeEquation(eq, '->'), difficulty: eq.difficulty })),
+
+  gradeHandwriting: async ({ questions, language }): Promise<EvaluationResult> => {
+    const isZH = language === 'ZH';
+    const results = questions.map((q, index) => {
+      const answered = index % 3 !== 2;
+      return {
+        question: isZH ? q.zh : q.en,
+        expected: q.formula,
+        studentWrote: answered ? q.formula : '',
+        isCorrect: answered,
+        feedback: answered ? undefined : (isZH ? '未作答。' : 'No answer.'),
+      };
+    });
+    const score = results.filter(r => r.isCorrect).length;
+    return {
+      score,
+      results,
+      overallFeedback: isZH ? `（模擬批改）答對 ${score} / ${questions.length} 題。` : `(Mock marking) ${score} of ${questions.length} correct.`,
+    };
+  },
+
+  explainMistake: async ({ expected, studentAnswer, issues }) => ({
+    zh: `（模擬解釋）你寫了「${studentAnswer}」，正確答案是「${expected}」。${issues.length ? `問題：${issues.join('；')}。` : ''}請逐一比較兩者的化學式及係數。`,
+    en: `(Mock explanation) You wrote "${studentAnswer}" but the answer is "${expected}". ${issues.length ? `Issues: ${issues.join('; ')}. ` : ''}Compare the formulas and coefficients one by one.`,
+  }),
+};
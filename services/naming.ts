@@ -0,0 +1,136 @@
+import { PERIODIC_TABLE } from '../data/periodicTable';
+import { ALL_IONS, CATIONS, ANIONS, ACID_CATIONS } from '../data/ions';
+import { buildCompound } from './compoundBuilder';
+
+export type NameVerdict = 'CORRECT' | 'SPELLING' | 'WRONG';
+
+export interface NameCheck {
+  verdict: NameVerdict;
+  expected: string;
+}
+
+// 化學名稱常用字的簡體（及台灣用字）→ 香港繁體對照
+const CHARACTER_VARIANTS = '氢氫 锂鋰 铍鈹 钠鈉 镁鎂 铝鋁 矽硅 氩氬 钾鉀 钙鈣 铬鉻 钴鈷 铅鉛 铁鐵 铜銅 锰錳 镍鎳 铂鉑 银銀 锡錫 锌鋅 钡鋇 铵銨 离離 亚亞 盐鹽 气氣 过過 碱鹼 钛鈦 钒釩 镓鎵 锗鍺 铷銣 锶鍶 锆鋯 钼鉬 镉鎘 锑銻 铯銫 钨鎢 铀鈾 钚鈽';
+const TO_TRADITIONAL: Record<string, string> = {};
+CHARACTER_VARIANTS.split(' ').forEach(pair => { TO_TRADITIONAL[pair[0]] = pair[1]; });
+
+// 英文拼寫變體（美式 → 英式／HKDSE 用法）
+const SPELLING_VARIANTS: [RegExp, string][] = [
+  [/sulf/g, 'sulph'],
+  [/aluminum/g, 'aluminium'],
+  [/cesium/g, 'caesium'],
+  [/acetate/g, 'ethanoate'],
+];
+
+/**
+ * 將名稱轉為可比較的形式：統一大小寫、空白、全形括號、簡繁體及英式拼寫。
+ * 例如 "Iron (II) Sulfate"、"iron(ii)sulphate" → "iron(ii)sulphate"；「硫酸铁(II)」→「硫酸鐵(ii)」。
+ */
+export const normaliseName = (name: string): string => {
+  let result = name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, '');
+  result = Array.from(result).map(ch => TO_TRADITIONAL[ch] || ch).join('');
+  SPELLING_VARIANTS.forEach(([pattern, replacement]) => { result = result.replace(pattern, replacement); });
+  return result;
+};
+
+// 與課程無關但常被寫錯成的陰離子名稱，用於辨認「化學上錯誤」的答案
+const EXTRA_WORDS = ['chlorate', 'chlorite', 'perchlorate', 'bromate', 'iodate', 'phosphide', 'carbide', 'hydride', 'peroxide', 'thiosulphate', 'silicate', 'ethanedioate'];
+
+let knownNames: Set<string> | null = null;
+let knownWords: Set<string> | null = null;
+let nameToFormula: Map<string, string> | null = null;
+
+const allCompounds = () => CATIONS
+  .filter(cation => !ACID_CATIONS.includes(cation.formula))
+  .flatMap(cation => ANIONS.map(anion => buildCompound(cation, anion)));
+
+const buildIndex = () => {
+  knownNames = new Set();
+  knownWords = new Set(EXTRA_WORDS);
+  nameToFormula = new Map();
+  PERIODIC_TABLE.forEach(el => {
+    [el.zh, el.en].forEach(n => { knownNames!.add(normaliseName(n)); nameToFormula!.set(normaliseName(n), el.symbol); });
+    knownWords!.add(normaliseName(el.en));
+  });
+  ALL_IONS.forEach(ion => {
+    [ion.zh, ion.en, ion.stemZH, ion.stemEN].forEach(n => knownNames!.add(normaliseName(n)));
+    [ion.zh, ion.en].forEach(n => nameToFormula!.set(normaliseName(n), ion.formula));
+    knownWords!.add(normaliseName(ion.stemEN));
+  });
+  allCompounds().forEach(c => {
+    [c.nameZH, c.nameEN].forEach(n => { knownNames!.add(normaliseName(n)); nameToFormula!.set(normaliseName(n), c.formula); });
+  });
+};
+
+/**
+ * 由化學式找出元素、離子或離子化合物的中英文名稱；找不到時回傳 null。
+ */
+export const nameFromFormula = (formula: string): { nameZH: string; nameEN: string } | null => {
+  const compact = formula.replace(/\s+/g, '');
+  const el = PERIODIC_TABLE.find(e => e.symbol === compact);
+  if (el) return { nameZH: el.zh, nameEN: el.en };
+  const ion = ALL_IONS.find(i => i.formula === compact);
+  if (ion) return { nameZH: ion.zh, nameEN: ion.en };
+  const compound = allCompounds().find(c => c.formula === compact);
+  return compound ? { nameZH: compound.nameZH, nameEN: compound.nameEN } : null;
+};
+
+/**
+ * 由名稱反查化學式，接受各種拼寫及簡繁體；找不到時回傳 null。
+ */
+export const formulaFromName = (name: string): string | null => {
+  if (!nameToFormula) buildIndex();
+  return nameToFormula!.get(normaliseName(name)) || null;
+};
+
+const editDistance = (a: string, b: string): number => {
+  const x = Array.from(a);
+  const y = Array.from(b);
+  let prev = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= y.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[y.length];
+};
+
+const romanNumerals = (name: string) => (name.match(/\((?:i|ii|iii|iv|v|vi|vii)\)/g) || []).join(',');
+
+const ELEMENT_CHARS = new Set(PERIODIC_TABLE.map(el => el.zh));
+
+/**
+ * 比較學生寫的名稱與標準答案。
+ * CORRECT：只有大小寫、空白、拼寫變體或簡繁體不同；
+ * SPELLING：與答案只差一兩個字母，且沒有寫成另一個化學名稱；
+ * WRONG：寫成另一種物質、羅馬數字不同，或相差太遠。
+ */
+export const checkName = (answer: string, expected: string): NameCheck => {
+  if (!knownNames) buildIndex();
+  const a = normaliseName(answer);
+  const e = normaliseName(expected);
+  if (a === '') return { verdict: 'WRONG', expected };
+  if (a === e) return { verdict: 'CORRECT', expected };
+  if (knownNames!.has(a)) return { verdict: 'WRONG', expected };
+  if (romanNumerals(a) !== romanNumerals(e)) return { verdict: 'WRONG', expected };
+
+  // 英文：任何一個字是另一個已知的元素或離子名稱即屬化學錯誤
+  const stem = (word: string) => normaliseName(word).replace(/\(.*\)$/, '');
+  const expectedStems = new Set(expected.split(/\s+/).map(stem));
+  if (answer.split(/\s+/).map(stem).some(w => knownWords!.has(w) && !expectedStems.has(w))) {
+    return { verdict: 'WRONG', expected };
+  }
+
+  // 中文：多了或換了代表元素的字即屬化學錯誤
+  const extraElementChar = Array.from(a).some(ch => ELEMENT_CHARS.has(ch) && !e.includes(ch));
+  if (extraElementChar) return { verdict: 'WRONG', expected };
+
+  const isChinese = /[一-鿿]/.test(e);
+  const tolerance = isChinese ? 1 : e.length >= 10 ? 2 : 1;
+  return { verdict: editDistance(a, e) <= tolerance ? 'SPELLING' : 'WRONG', expected };
+};
@@ -0,0 +1,34 @@
+import { AIProvider, createTextProvider, isRecord } from './aiProvider';
+
+export interface OpenAIConfig {
+  baseUrl: string;      // 如 "https://api.openai.com/v1" 或本地的 "http://localhost:8787/v1"
+  apiKey?: string;      // 本地伺服器通常不需要
+  textModel: string;
+  visionModel?: string; // 未設定時沿用 textModel
+}
+
+/**
+ * OpenAI 相容的 HTTP 後端（/chat/completions），可指向學校內部或本地的伺服器。
+ */
+export const createOpenAIProvider = ({ baseUrl, apiKey, textModel, visionModel = textModel }: OpenAIConfig): AIProvider =>
+  createTextProvider('openai', async (prompt, images = [], schema) => {
+    const content = images.length
+      ? [{ type: 'text', text: prompt }, ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))]
+      : prompt;
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({
+        model: images.length ? visionModel : textModel,
+        messages: [{ role: 'user', content }],
+        response_format: schema ? { type: 'json_schema', json_schema: { name: 'reply', strict: true, schema } } : { type: 'json_object' },
+      }),
+    });
+    if (!response.ok) throw new Error(`AI server replied ${response.status} ${response.statusText}`);
+    const data: unknown = await response.json();
+    const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : null;
+    const message = isRecord(choice) ? choice.message : null;
+    const text = isRecord(message) ? message.content : null;
+    if (typeof text !== 'string' || !text) throw new Error('AI server returned an empty reply');
+    return text;
+  });
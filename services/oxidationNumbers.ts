@@ -0,0 +1,141 @@
+import { ChemicalEquation, EquationComponent } from '../types';
+import { parseFormula, getCharge } from '../utils';
+import { getElement } from '../data/periodicTable';
+
+export type RedoxChange = 'OXIDISED' | 'REDUCED' | 'BOTH' | 'NONE';
+
+export interface SpeciesRedox {
+  formula: string;
+  oxidationNumbers: Record<string, number> | null; // 電子或無法判斷時為 null
+  change: RedoxChange;
+}
+
+export interface RedoxAnalysis {
+  reactants: SpeciesRedox[];
+  products: SpeciesRedox[];
+  isRedox: boolean;
+}
+
+// 常見非金屬的鮑林電負性，用於決定多個未知元素時的處理次序
+const ELECTRONEGATIVITY: Record<string, number> = {
+  F: 3.98, O: 3.44, Cl: 3.16, N: 3.04, Br: 2.96, I: 2.66, S: 2.58, C: 2.55, Se: 2.55,
+  H: 2.20, P: 2.19, As: 2.18, B: 2.04, Si: 1.90,
+};
+
+const electronegativity = (symbol: string) => ELECTRONEGATIVITY[symbol] ?? 1.0;
+
+const isMetal = (symbol: string) => getElement(symbol)?.category === 'METAL';
+
+/**
+ * 未知元素可嘗試的氧化數：金屬用常見離子電荷，非金屬用其負電荷。
+ */
+const candidateStates = (symbol: string): number[] => {
+  const charges = getElement(symbol)?.charges || [];
+  if (isMetal(symbol)) return charges.filter(c => c > 0);
+  return charges.filter(c => c < 0);
+};
+
+const isReasonable = (value: number) => Number.isInteger(value) && value >= -4 && value <= 8;
+
+/**
+ * 計算化學式或離子中每種元素的氧化數。
+ * 規則依序為：單質為 0；F 為 -1；第 1、2 族金屬及 Al 為 +1、+2、+3；
+ * H 一般為 +1（金屬氫化物中為 -1）；O 一般為 -2，但若 O 是唯一未知元素則直接求解（過氧化物 -1、OF2 +2）；
+ * 其餘元素以總電荷求解，多於一個未知元素時嘗試常見電荷組合。
+ * 不能整除時回傳平均氧化數（如 Fe3O4 中 Fe 為 8/3）。
+ */
+export const assignOxidationNumbers = (formula: string): Record<string, number> | null => {
+  if (formula.includes('e^-')) return null;
+  const atoms = parseFormula(formula);
+  const charge = getCharge(formula);
+  const elements = Object.keys(atoms);
+  if (elements.length === 0) return null;
+  if (elements.length === 1) return { [elements[0]]: charge / atoms[elements[0]] };
+
+  const known: Record<string, number> = {};
+  elements.forEach(el => {
+    const group = getElement(el)?.group;
+    if (el === 'F') known[el] = -1;
+    else if (isMetal(el) && group === 1) known[el] = 1;
+    else if (isMetal(el) && group === 2) known[el] = 2;
+    else if (el === 'Al') known[el] = 3;
+  });
+  if ('H' in atoms) {
+    known.H = elements.every(el => el === 'H' || isMetal(el)) ? -1 : 1;
+  }
+
+  let unknown = elements.filter(el => !(el in known));
+  if (unknown.length > 1 && unknown.includes('O')) {
+    known.O = -2;
+    unknown = unknown.filter(el => el !== 'O');
+  }
+
+  const knownSum = () => Object.entries(known).reduce((sum, [el, ox]) => sum + ox * atoms[el], 0);
+  const solveFor = (el: string, assumed: Record<string, number>) => {
+    const assumedSum = Object.entries(assumed).reduce((sum, [a, ox]) => sum + ox * atoms[a], 0);
+    return (charge - knownSum() - assumedSum) / atoms[el];
+  };
+
+  if (unknown.length === 0) return known;
+  if (unknown.length === 1) return { ...known, [unknown[0]]: solveFor(unknown[0], {}) };
+
+  // 以電負性最低的非金屬作為求解對象，其餘元素嘗試常見電荷組合
+  const free = [...unknown].sort((a, b) => {
+    if (isMetal(a) !== isMetal(b)) return isMetal(a) ? 1 : -1;
+    return electronegativity(a) - electronegativity(b);
+  })[0];
+  const others = unknown.filter(el => el !== free);
+
+  const combinations: Record<string, number>[] = others.reduce<Record<string, number>[]>((acc, el) => {
+    const states = candidateStates(el);
+    if (states.length === 0) return [];
+    return acc.flatMap(combo => states.map(state => ({ ...combo, [el]: state })));
+  }, [{}]);
+
+  if (combinations.length === 0) return null;
+  const chosen = combinations.find(combo => isReasonable(solveFor(free, combo))) || combinations[0];
+  return { ...known, ...chosen, [free]: solveFor(free, chosen) };
+};
+
+/**
+ * 以 "+7"、"-2"、"0"、"+8/3" 的形式顯示氧化數。
+ */
+export const formatOxidationNumber = (value: number): string => {
+  const sign = value > 0 ? '+' : value < 0 ? '−' : '';
+  const abs = Math.abs(value);
+  if (Number.isInteger(abs)) return `${sign}${abs}`;
+  for (let d = 2; d <= 8; d++) {
+    const n = abs * d;
+    if (Math.abs(n - Math.round(n)) < 1e-9) return `${sign}${Math.round(n)}/${d}`;
+  }
+  return `${sign}${abs.toFixed(2)}`;
+};
+
+const classify = (oxidation: Record<string, number> | null, opposite: SpeciesRedox[]): RedoxChange => {
+  if (!oxidation) return 'NONE';
+  let up = false;
+  let down = false;
+  for (const [el, ox] of Object.entries(oxidation)) {
+    opposite.forEach(other => {
+      const otherOx = other.oxidationNumbers?.[el];
+      if (otherOx === undefined) return;
+      if (otherOx > ox + 1e-9) up = true;
+      if (otherOx < ox - 1e-9) down = true;
+    });
+  }
+  if (up && down) return 'BOTH';
+  if (up) return 'OXIDISED';
+  if (down) return 'REDUCED';
+  return 'NONE';
+};
+
+/**
+ * 比較反應物與生成物中各元素的氧化數，標示哪個反應物被氧化、哪個被還原。
+ */
+export const analyseRedox = (equation: ChemicalEquation): RedoxAnalysis => {
+  const toSpecies = (c: EquationComponent): SpeciesRedox => ({ formula: c.formula, oxidationNumbers: assignOxidationNumbers(c.formula), change: 'NONE' });
+  const reactants = equation.reactants.map(toSpecies);
+  const products = equation.products.map(toSpecies);
+  reactants.forEach(r => { r.change = classify(r.oxidationNumbers, products); });
+  return { reactants, products, isRedox: reactants.some(r => r.change !== 'NONE') };
+};
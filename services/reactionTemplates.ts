@@ -0,0 +1,146 @@
+import { ChemicalEquation, EquationComponent, EquationTopic, ReactionCondition, ReactionTemplate, StateSymbol } from '../types';
+import { getIon } from '../data/ions';
+import { buildCompound } from './compoundBuilder';
+import { balanceEquation } from './equationSolver';
+import { isSoluble } from './ionicEquation';
+import { expandTopic, substanceName } from './equationBank';
+
+// 各模板生成的題目所屬課題
+export const TEMPLATE_TOPICS: Record<ReactionTemplate, EquationTopic[]> = {
+  METAL_ACID: ['TOPIC_3_METALS', 'TOPIC_4_ACIDS'],
+  ACID_CARBONATE: ['TOPIC_4_ACIDS'],
+  NEUTRALISATION: ['TOPIC_4_ACIDS'],
+  ALKANE_COMBUSTION: ['TOPIC_6_ORGANIC', 'TOPIC_8_ENERGETICS'],
+  HALOGEN_DISPLACEMENT: ['TOPIC_7_PERIODICITY'],
+  THERMAL_DECOMPOSITION: ['TOPIC_1_EARTH', 'TOPIC_3_METALS'],
+};
+
+// 化學式 → 酸根離子
+const ACIDS: Record<string, string> = { 'HCl': 'Cl^-', 'H2SO4': 'SO4^2-', 'HNO3': 'NO3^-' };
+// 稀硝酸與金屬反應不產生氫氣，因此金屬 + 酸只用鹽酸及稀硫酸
+const NON_OXIDISING_ACIDS = ['HCl', 'H2SO4'];
+// 金屬 → 與酸反應時生成的陽離子
+const REACTIVE_METALS: Record<string, string> = { 'Mg': 'Mg^2+', 'Al': 'Al^3+', 'Zn': 'Zn^2+', 'Fe': 'Fe^2+', 'Ca': 'Ca^2+' };
+const CARBONATE_CATIONS = ['Na^+', 'K^+', 'Mg^2+', 'Ca^2+', 'Zn^2+', 'Cu^2+'];
+const HYDROGENCARBONATE_CATIONS = ['Na^+', 'K^+'];
+const BASE_CATIONS = ['Na^+', 'K^+', 'Ca^2+'];       // 鹼溶液（氫氧化物）
+const OXIDE_CATIONS = ['Mg^2+', 'Zn^2+', 'Cu^2+'];  // 鹼性氧化物
+const DECOMPOSING_CARBONATES = ['Mg^2+', 'Ca^2+', 'Zn^2+', 'Cu^2+', 'Pb^2+'];
+const HALOGENS = ['Cl', 'Br', 'I'];                  // 按反應性由高至低
+const HALIDE_CATIONS = ['Na^+', 'K^+'];
+const ALKANE_MAX_CARBONS = 8;
+
+const saltOf = (cation: string, anion: string): string => buildCompound(getIon(cation)!, getIon(anion)!).formula;
+
+// 不溶的鹽會覆蓋固體表面令反應停止，或生成沉澱，這些組合不作為模板題目
+const soluble = (formula: string) => isSoluble(formula) !== false;
+
+const solutionState = (formula: string): StateSymbol => soluble(formula) ? 'aq' : 's';
+
+const species = (formula: string, state: StateSymbol): EquationComponent => {
+  const names = substanceName(formula, state);
+  return { formula, coefficient: 1, state, ...(names || {}) };
+};
+
+// 以係數總和粗略分級：係數越大，平衡步驟越多
+const difficultyOf = (equation: ChemicalEquation): ChemicalEquation['difficulty'] => {
+  const total = [...equation.reactants, ...equation.products].reduce((sum, c) => sum + c.coefficient, 0);
+  return total <= 5 ? 'easy' : total <= 9 ? 'medium' : 'hard';
+};
+
+/**
+ * 由反應物及生成物骨架以解方程算出係數，並標上模板；無唯一解時回傳 null。
+ */
+const build = (template: ReactionTemplate, reactants: EquationComponent[], products: EquationComponent[], conditions?: ReactionCondition[]): ChemicalEquation | null => {
+  const balanced = balanceEquation({ reactants, products, difficulty: 'medium' });
+  if (!balanced) return null;
+  const equation: ChemicalEquation = { ...balanced, difficulty: difficultyOf(balanced), template };
+  if (conditions) equation.conditions = conditions;
+  return equation;
+};
+
+const metalAcid = () => Object.entries(REACTIVE_METALS).flatMap(([metal, cation]) => NON_OXIDISING_ACIDS.map(acid => {
+  const salt = saltOf(cation, ACIDS[acid]);
+  if (!soluble(salt)) return null;
+  return build('METAL_ACID', [species(metal, 's'), species(acid, 'aq')], [species(salt, 'aq'), species('H2', 'g')]);
+}));
+
+const acidCarbonate = () => [
+  ...CARBONATE_CATIONS.map(cation => [cation, saltOf(cation, 'CO3^2-')]),
+  ...HYDROGENCARBONATE_CATIONS.map(cation => [cation, saltOf(cation, 'HCO3^-')]),
+].flatMap(([cation, carbonate]) => Object.keys(ACIDS).map(acid => {
+  const salt = saltOf(cation, ACIDS[acid]);
+  if (!soluble(salt)) return null;
+  return build('ACID_CARBONATE',
+    [species(carbonate, solutionState(carbonate)), species(acid, 'aq')],
+    [species(salt, 'aq'), species('CO2', 'g'), species('H2O', 'l')]);
+}));
+
+const neutralisation = () => [
+  ...BASE_CATIONS.map(cation => [cation, 'OH^-']),
+  ...OXIDE_CATIONS.map(cation => [cation, 'O^2-']),
+].flatMap(([cation, anion]) => Object.keys(ACIDS).map(acid => {
+  const salt = saltOf(cation, ACIDS[acid]);
+  if (!soluble(salt)) return null;
+  const base = saltOf(cation, anion);
+  const baseState: StateSymbol = anion === 'O^2-' ? 's' : solutionState(base);
+  return build('NEUTRALISATION', [species(base, baseState), species(acid, 'aq')], [species(salt, 'aq'), species('H2O', 'l')]);
+}));
+
+const alkaneCombustion = () => Array.from({ length: ALKANE_MAX_CARBONS }, (_, i) => {
+  const n = i + 1;
+  const alkane = `C${n > 1 ? n : ''}H${2 * n + 2}`;
+  // 丁烷以下在室溫為氣體
+  return build('ALKANE_COMBUSTION',
+    [species(alkane, n <= 4 ? 'g' : 'l'), species('O2', 'g')],
+    [species('CO2', 'g'), species('H2O', 'l')]);
+});
+
+const halogenDisplacement = () => HALOGENS.flatMap((halogen, i) => HALOGENS.slice(i + 1).flatMap(weaker => HALIDE_CATIONS.map(cation => {
+  const halide = (x: string) => saltOf(cation, `${x}^-`);
+  return build('HALOGEN_DISPLACEMENT',
+    [species(`${halogen}2`, 'aq'), species(halide(weaker), 'aq')],
+    [species(halide(halogen), 'aq'), species(`${weaker}2`, 'aq')]);
+})));
+
+const thermalDecomposition = () => [
+  ...DECOMPOSING_CARBONATES.map(cation => build('THERMAL_DECOMPOSITION',
+    [species(saltOf(cation, 'CO3^2-'), 's')],
+    [species(saltOf(cation, 'O^2-'), 's'), species('CO2', 'g')],
+    [{ type: 'HEAT' }])),
+  ...HYDROGENCARBONATE_CATIONS.map(cation => build('THERMAL_DECOMPOSITION',
+    [species(saltOf(cation, 'HCO3^-'), 's')],
+    [species(saltOf(cation, 'CO3^2-'), 's'), species('H2O', 'l'), species('CO2', 'g')],
+    [{ type: 'HEAT' }])),
+];
+
+const GENERATORS: Record<ReactionTemplate, () => (ChemicalEquation | null)[]> = {
+  METAL_ACID: metalAcid,
+  ACID_CARBONATE: acidCarbonate,
+  NEUTRALISATION: neutralisation,
+  ALKANE_COMBUSTION: alkaneCombustion,
+  HALOGEN_DISPLACEMENT: halogenDisplacement,
+  THERMAL_DECOMPOSITION: thermalDecomposition,
+};
+
+const cache: Partial<Record<ReactionTemplate, ChemicalEquation[]>> = {};
+
+/**
+ * 某模板可生成的全部方程式（已平衡並附物質名稱）。
+ */
+export const generateFromTemplate = (template: ReactionTemplate): ChemicalEquation[] => {
+  if (!cache[template]) {
+    cache[template] = GENERATORS[template]().filter((eq): eq is ChemicalEquation => eq !== null);
+  }
+  return cache[template]!;
+};
+
+/**
+ * 屬於某課題的所有模板方程式；合併課題包含各組成課題。
+ */
+export const getTemplateEquations = (topic: EquationTopic): ChemicalEquation[] => {
+  const parts = [topic, ...expandTopic(topic)];
+  return (Object.keys(TEMPLATE_TOPICS) as ReactionTemplate[])
+    .filter(template => TEMPLATE_TOPICS[template].some(t => parts.includes(t)))
+    .flatMap(generateFromTemplate);
+};
@@ -0,0 +1,42 @@
+import { HistoryPool, UserProfile } from '../types';
+
+// 每類最多保留的紀錄數目，超出時丟棄最舊的
+const MAX_RECENT = 500;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * 把題目排成抽取次序：未見過的隨機排在前面，見過的按最早見過排在後面。
+ * 抽取時從前面取，題庫用盡後便會從最久沒出現的題目重新開始。
+ */
+export const orderByHistory = <T>(items: T[], keyOf: (item: T) => string, history: string[]): T[] => {
+  const position = new Map(history.map((key, i) => [key, i]));
+  const unseen = items.filter(item => !position.has(keyOf(item)));
+  const seen = items.filter(item => position.has(keyOf(item)))
+    .sort((a, b) => position.get(keyOf(a))! - position.get(keyOf(b))!);
+  return [...shuffle(unseen), ...seen];
+};
+
+/**
+ * 優先抽取未見過的題目。
+ */
+export const pickUnseen = <T>(items: T[], count: number, keyOf: (item: T) => string, history: string[]): T[] =>
+  orderByHistory(items, keyOf, history).slice(0, count);
+
+export const getRecentlySeen = (user: UserProfile, pool: HistoryPool): string[] => user.recentlySeen?.[pool] || [];
+
+/**
+ * 回傳記下新見過題目的用戶資料；再次見到的題目移到最新的位置。
+ */
+export const rememberSeen = (user: UserProfile, pool: HistoryPool, keys: string[]): UserProfile => {
+  const fresh = new Set(keys);
+  const updated = [...getRecentlySeen(user, pool).filter(key => !fresh.has(key)), ...fresh].slice(-MAX_RECENT);
+  return { ...user, recentlySeen: { ...user.recentlySeen, [pool]: updated } };
+};
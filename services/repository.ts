@@ -0,0 +1,320 @@
+import { CustomCompound, CustomQuestion, UserProfile } from '../types';
+import { MistakeExplanation } from './aiProvider';
+import {
+  StoreName, StoreRecords, StorageBackend, StorageChange, BackendKind, ResultsRecord,
+  STORE_NAMES, RESULT_FIELDS, ATTEMPT_FIELDS, compoundKey, isQuotaError,
+  createIndexedDBBackend, createLocalStorageBackend, createMemoryBackend,
+} from './storage';
+
+export type SaveProblem = 'QUOTA' | 'FAILED';
+
+export interface StorageStatus {
+  backend: BackendKind;
+  problem: SaveProblem | null; // 最近一次寫入失敗的原因
+  unsaved: number;             // 仍未寫入的紀錄數目
+}
+
+// 記憶體中的副本：讀取一律同步，寫入先更新副本，再按次序在背景寫入後端
+const cache = new Map<StoreName, Map<string, unknown>>(STORE_NAMES.map(s => [s, new Map()]));
+let backend: StorageBackend = createMemoryBackend(); // openStorage 之前（如 Node 腳本）只保存在記憶體
+let pending = new Map<string, StorageChange>();
+const inFlight = new Set<string>(); // 正在寫入的紀錄
+let problem: SaveProblem | null = null;
+let writing: Promise<unknown> = Promise.resolve();
+let channel: BroadcastChannel | null = null;
+
+const CHANNEL_NAME = 'chemistry_master_storage';
+
+// AI 解釋可以重新取得，空間不足時最先清除
+const DISPOSABLE_STORE: StoreName = 'explanations';
+
+const changeListeners = new Set<(stores: StoreName[]) => void>();
+const statusListeners = new Set<(status: StorageStatus) => void>();
+
+const pendingKey = (change: StorageChange) => `${change.store}/${change.key}`;
+
+const applyToCache = (changes: StorageChange[]) => changes.forEach(({ store, key, value }) => {
+  if (value === null) cache.get(store)!.delete(key);
+  else cache.get(store)!.set(key, structuredClone(value));
+});
+
+export const getStorageStatus = (): StorageStatus => ({ backend: backend.kind, problem, unsaved: new Set([...pending.keys(), ...inFlight]).size });
+
+const notifyStatus = () => {
+  const status = getStorageStatus();
+  statusListeners.forEach(listener => listener(status));
+};
+
+/**
+ * 監聽儲存狀態（如空間不足、重試成功）；回傳取消監聽的函數。
+ */
+export const subscribeStorageStatus = (listener: (status: StorageStatus) => void) => {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+};
+
+/**
+ * 監聽其他分頁寫入的更改；回傳取消監聽的函數。
+ */
+export const subscribeStorageChanges = (listener: (stores: StoreName[]) => void) => {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+};
+
+// 寫入一批更改；空間不足時清除 AI 解釋快取後再試一次。回傳實際寫入的更改
+const writeBatch = async (batch: StorageChange[]): Promise<StorageChange[]> => {
+  try {
+    await backend.write(batch);
+    return batch;
+  } catch (e) {
+    const disposable = [...cache.get(DISPOSABLE_STORE)!.keys()];
+    if (!isQuotaError(e) || disposable.length === 0) throw e;
+    const cleared: StorageChange[] = disposable.map(key => ({ store: DISPOSABLE_STORE, key, value: null }));
+    await backend.write(cleared);
+    cache.get(DISPOSABLE_STORE)!.clear();
+    const rest = batch.filter(c => c.store !== DISPOSABLE_STORE);
+    await backend.write(rest);
+    return [...cleared, ...rest];
+  }
+};
+
+/**
+ * 把仍未寫入的更改寫入後端。一次只進行一批，期間的新更改留待下一批。
+ * 失敗的更改保留在記憶體中，下次寫入或重試時再寫；回傳是否全部寫入成功。
+ */
+const flush = (): Promise<boolean> => {
+  const run = writing.then(async () => {
+    if (pending.size === 0) return problem === null;
+    const batch = [...pending.values()];
+    pending = new Map();
+    batch.forEach(c => inFlight.add(pendingKey(c)));
+    try {
+      const written = await writeBatch(batch);
+      channel?.postMessage(written);
+      problem = null;
+      return true;
+    } catch (e) {
+      console.error("Storage Error:", e);
+      // 寫入期間再有更改的紀錄以較新的為準
+      batch.filter(c => !pending.has(pendingKey(c))).forEach(c => pending.set(pendingKey(c), c));
+      problem = isQuotaError(e) ? 'QUOTA' : 'FAILED';
+      return false;
+    } finally {
+      inFlight.clear();
+      notifyStatus();
+    }
+  });
+  writing = run;
+  return run;
+};
+
+const commit = (changes: StorageChange[]): Promise<boolean> => {
+  if (changes.length === 0) return Promise.resolve(problem === null);
+  applyToCache(changes);
+  changes.forEach(c => pending.set(pendingKey(c), c));
+  return flush();
+};
+
+/**
+ * 再次嘗試寫入之前失敗的更改。
+ */
+export const retrySaves = (): Promise<boolean> => flush();
+
+// 其他分頁已寫入的更改：更新副本，但本分頁仍未寫入或正在寫入的紀錄較新，不會被蓋過
+const receive = (changes: StorageChange[]) => {
+  const incoming = changes.filter(c => !pending.has(pendingKey(c)) && !inFlight.has(pendingKey(c)));
+  applyToCache(incoming);
+  const stores = [...new Set(incoming.map(c => c.store))];
+  if (stores.length > 0) changeListeners.forEach(listener => listener(stores));
+};
+
+export const getRecord = <S extends StoreName>(store: S, key: string): StoreRecords[S] | null => {
+  const value = cache.get(store)!.get(key);
+  return value === undefined ? null : structuredClone(value) as StoreRecords[S];
+};
+
+/**
+ * 某儲存區的所有紀錄（鍵及內容）；回傳的是副本，可以直接修改。
+ */
+export const listRecords = <S extends StoreName>(store: S): [string, StoreRecords[S]][] =>
+  [...cache.get(store)!.entries()].map(([key, value]) => [key, structuredClone(value) as StoreRecords[S]]);
+
+export const putRecords = <S extends StoreName>(store: S, records: [string, StoreRecords[S]][]): Promise<boolean> =>
+  commit(records.map(([key, value]) => ({ store, key, value })));
+
+export const deleteRecords = (store: StoreName, keys: string[]): Promise<boolean> =>
+  commit(keys.map(key => ({ store, key, value: null })));
+
+// 組成用戶資料的儲存區
+export const USER_STORES: StoreName[] = ['users', 'results', 'attempts'];
+
+// 把用戶資料拆成基本資料、測驗結果及練習紀錄三部分
+const splitUser = (user: UserProfile): Record<'users' | 'results' | 'attempts', Record<string, unknown>> => {
+  const parts: Record<'users' | 'results' | 'attempts', Record<string, unknown>> = { users: {}, results: {}, attempts: {} };
+  Object.entries(user).forEach(([field, value]) => {
+    if (value === undefined) return;
+    const part = (RESULT_FIELDS as readonly string[]).includes(field) ? 'results'
+      : (ATTEMPT_FIELDS as readonly string[]).includes(field) ? 'attempts' : 'users';
+    parts[part][field] = value;
+  });
+  return parts;
+};
+
+// 只寫入內容有改變的部分
+const userChanges = (user: UserProfile): StorageChange[] => {
+  const parts = splitUser(user);
+  return USER_STORES
+    .filter(store => JSON.stringify(parts[store]) !== JSON.stringify(cache.get(store)!.get(user.name)))
+    .map(store => ({ store, key: user.name, value: parts[store] }));
+};
+
+/**
+ * 讀取一位用戶的完整資料；不存在時回傳 null。
+ */
+export const getUser = (name: string): UserProfile | null => {
+  const profile = getRecord('users', name);
+  return profile ? { ...profile, ...getRecord('results', name), ...getRecord('attempts', name) } : null;
+};
+
+export const listUsers = (): UserProfile[] =>
+  listRecords('users').map(([name]) => getUser(name)!);
+
+/**
+ * 儲存用戶資料；只會寫入有改變的部分。
+ */
+export const saveUser = (user: UserProfile): Promise<boolean> => commit(userChanges(user));
+
+export type ScoredTest = 'stage5Result' | 'stage9Result' | 'stage12Result';
+
+/**
+ * 所有用戶某項測驗的分數（龍虎榜用）。只取出分數，不會複製手寫作答的圖片及筆畫。
+ */
+export const listScores = (test: ScoredTest): { name: string; score: number }[] =>
+  [...cache.get('results')!.entries()].flatMap(([name, value]) => {
+    const result = (value as ResultsRecord)[test];
+    return result ? [{ name, score: result.score }] : [];
+  });
+
+// 舊版把每類資料整份存成一個 localStorage 鍵
+const LEGACY_KEYS = {
+  users: 'chemistry_master_users_v1',
+  customQuestions: 'chemistry_master_custom_questions_v1',
+  customCompounds: 'chemistry_master_custom_compounds_v1',
+  explanations: 'chemistry_master_explanations_v1',
+};
+
+const readLegacy = (key: string): unknown => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error("LocalStorage Error:", e);
+    return null;
+  }
+};
+
+// 舊資料可能已被改動或損壞，逐條檢查後才匯入
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isLegacyUser = (value: unknown): value is UserProfile => isRecord(value) && typeof value.name === 'string';
+
+const isLegacyQuestion = (value: unknown): value is CustomQuestion => isRecord(value) && typeof value.id === 'string';
+
+const isLegacyCompound = (value: unknown): value is CustomCompound =>
+  isRecord(value) && typeof value.cation === 'string' && typeof value.anion === 'string';
+
+const isLegacyExplanation = (value: unknown): value is [string, MistakeExplanation] =>
+  Array.isArray(value) && typeof value[0] === 'string' && isRecord(value[1]) && typeof value[1].zh === 'string' && typeof value[1].en === 'string';
+
+const legacyList = <T>(key: string, isItem: (value: unknown) => value is T): T[] => {
+  const stored = readLegacy(key);
+  return Array.isArray(stored) ? stored.filter(isItem) : [];
+};
+
+/**
+ * 匯入舊版資料；已存在的紀錄不會被取代。全部寫入後才刪除舊鍵，失敗時下次開啟再試。
+ */
+const migrateLegacyData = async () => {
+  // 只在記憶體保存時不可刪除舊鍵
+  if (backend.kind === 'memory') return;
+  try {
+    if (typeof localStorage === 'undefined' || !Object.values(LEGACY_KEYS).some(key => localStorage.getItem(key) !== null)) return;
+  } catch {
+    return;
+  }
+  const storedUsers = readLegacy(LEGACY_KEYS.users);
+  const users = isRecord(storedUsers) ? Object.values(storedUsers).filter(isLegacyUser) : [];
+  const questions = legacyList(LEGACY_KEYS.customQuestions, isLegacyQuestion);
+  const compounds = legacyList(LEGACY_KEYS.customCompounds, isLegacyCompound);
+  const explanations = legacyList(LEGACY_KEYS.explanations, isLegacyExplanation);
+
+  const isNew = (c: StorageChange) => !cache.get(c.store)!.has(c.key);
+  const changes: StorageChange[] = [
+    ...users.filter(u => !cache.get('users')!.has(u.name)).flatMap(userChanges),
+    ...[
+      ...questions.map((q): StorageChange => ({ store: 'customQuestions', key: q.id, value: q })),
+      ...compounds.map((c): StorageChange => ({ store: 'customCompounds', key: compoundKey(c), value: c })),
+      // 舊快取由舊至新排列
+      ...explanations.map(([key, explanation], i): StorageChange => ({ store: 'explanations', key, value: { explanation, savedAt: i } })),
+    ].filter(isNew),
+  ];
+
+  if (await commit(changes)) Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+// 依次嘗試 IndexedDB、localStorage，都不能用時只保存在記憶體
+const BACKENDS: (() => StorageBackend | Promise<StorageBackend>)[] = [createIndexedDBBackend, createLocalStorageBackend, createMemoryBackend];
+
+// 開啟及載入一個後端的時限，逾時便改用下一個
+const OPEN_TIMEOUT_MS = 5000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms);
+  promise.then(
+    value => { clearTimeout(timer); resolve(value); },
+    error => { clearTimeout(timer); reject(error); },
+  );
+});
+
+// 只讀取不套用，逾時後才完成的載入不會蓋過已選用的後端
+const loadFrom = async (create: () => StorageBackend | Promise<StorageBackend>) => {
+  const candidate = await create();
+  const stores = await Promise.all(STORE_NAMES.map(async store => [store, new Map(await candidate.readAll(store))] as const));
+  return { candidate, stores };
+};
+
+/**
+ * 開啟儲存並把所有資料載入記憶體，須在顯示介面前完成。
+ * 可傳入指定的後端（如測試用的記憶體後端）；否則選用瀏覽器支援的最佳後端。
+ */
+export const openStorage = async (chosen?: StorageBackend): Promise<BackendKind> => {
+  for (const create of chosen ? [() => chosen] : BACKENDS) {
+    try {
+      const { candidate, stores } = await withTimeout(loadFrom(create), OPEN_TIMEOUT_MS);
+      stores.forEach(([store, records]) => cache.set(store, records));
+      backend = candidate;
+      break;
+    } catch (e) {
+      console.warn("Storage backend unavailable:", e);
+    }
+  }
+  if (!chosen) {
+    // 舊資料在 commit 時已同步放入記憶體副本，不必等待寫入完成才顯示介面
+    migrateLegacyData().catch(e => console.error("Legacy data migration failed:", e));
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel?.close();
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<StorageChange[]>) => receive(e.data);
+  }
+  if (typeof window !== 'undefined') {
+    // 仍有未寫入的進度時，關閉分頁前提示
+    window.addEventListener('beforeunload', (e) => {
+      if (pending.size > 0 || inFlight.size > 0) e.preventDefault();
+    });
+  }
+  notifyStatus();
+  return backend.kind;
+};
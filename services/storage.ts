@@ -0,0 +1,167 @@
+import { CustomCompound, CustomQuestion, UserProfile } from '../types';
+import { MistakeExplanation } from './aiProvider';
+
+// 用戶資料分三部分保存，更新練習紀錄時不必重寫體積較大的測驗結果（含手寫圖片）
+export const RESULT_FIELDS = ['quizRecord', 'stage5Result', 'stage9Result', 'stage12Result', 'challengeRecord'] as const;
+export const ATTEMPT_FIELDS = ['challengeAttempts', 'recentlySeen', 'explanationUsage'] as const;
+
+type ResultField = typeof RESULT_FIELDS[number];
+type AttemptField = typeof ATTEMPT_FIELDS[number];
+
+export type UserRecord = Omit<UserProfile, ResultField | AttemptField>;
+export type ResultsRecord = Pick<UserProfile, ResultField>;
+export type AttemptsRecord = Pick<UserProfile, AttemptField>;
+
+export interface CachedExplanation {
+  explanation: MistakeExplanation;
+  savedAt: number; // 快取已滿時先丟棄最舊的
+}
+
+/**
+ * 各儲存區的紀錄類型；users、results、attempts 均以用戶名稱為鍵。
+ */
+export interface StoreRecords {
+  users: UserRecord;
+  results: ResultsRecord;
+  attempts: AttemptsRecord;
+  customQuestions: CustomQuestion;  // 以題目編號為鍵
+  customCompounds: CustomCompound;  // 以 "陽離子|陰離子" 為鍵
+  explanations: CachedExplanation;  // 以錯誤指紋為鍵
+}
+
+export type StoreName = keyof StoreRecords;
+
+export const compoundKey = (compound: CustomCompound) => `${compound.cation}|${compound.anion}`;
+
+export const STORE_NAMES: StoreName[] = ['users', 'results', 'attempts', 'customQuestions', 'customCompounds', 'explanations'];
+
+// value 為 null 表示刪除
+export interface StorageChange {
+  store: StoreName;
+  key: string;
+  value: unknown | null;
+}
+
+export type BackendKind = 'indexedDB' | 'localStorage' | 'memory';
+
+/**
+ * 儲存後端只需提供整區讀取及批次寫入；寫入失敗（如空間不足）時應拋出原本的錯誤。
+ */
+export interface StorageBackend {
+  kind: BackendKind;
+  readAll: (store: StoreName) => Promise<[string, unknown][]>;
+  write: (changes: StorageChange[]) => Promise<void>;
+}
+
+/**
+ * 瀏覽器儲存空間已滿；各瀏覽器的錯誤名稱不同。
+ */
+export const isQuotaError = (error: unknown): boolean => {
+  const e = error as { name?: string; code?: number } | null;
+  return !!e && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED' || e.code === 22 || e.code === 1014);
+};
+
+/**
+ * 只存在於記憶體的後端：Node 腳本、測試，以及瀏覽器不容許任何儲存時使用。
+ */
+export const createMemoryBackend = (): StorageBackend => {
+  const stores = new Map<StoreName, Map<string, unknown>>(STORE_NAMES.map(s => [s, new Map()]));
+  return {
+    kind: 'memory',
+    readAll: async (store) => [...stores.get(store)!.entries()].map(([key, value]) => [key, structuredClone(value)]),
+    write: async (changes) => {
+      changes.forEach(({ store, key, value }) => {
+        if (value === null) stores.get(store)!.delete(key);
+        else stores.get(store)!.set(key, structuredClone(value));
+      });
+    },
+  };
+};
+
+const LOCAL_PREFIX = 'chemistry_master_v2';
+
+/**
+ * localStorage 後端：每條紀錄一個鍵，如 "chemistry_master_v2/users/陳大文"。
+ * 無法使用 localStorage（如私隱模式封鎖）時拋出錯誤。
+ */
+export const createLocalStorageBackend = (): StorageBackend => {
+  // 部分瀏覽器在封鎖儲存時讀取 localStorage 本身便會出錯
+  localStorage.getItem(LOCAL_PREFIX);
+  const prefixOf = (store: StoreName) => `${LOCAL_PREFIX}/${store}/`;
+  return {
+    kind: 'localStorage',
+    readAll: async (store) => {
+      const prefix = prefixOf(store);
+      const entries: [string, unknown][] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(prefix)) continue;
+        try {
+          entries.push([key.slice(prefix.length), JSON.parse(localStorage.getItem(key)!)]);
+        } catch (e) {
+          console.error("LocalStorage Error:", e);
+        }
+      }
+      return entries;
+    },
+    write: async (changes) => {
+      changes.forEach(({ store, key, value }) => {
+        if (value === null) localStorage.removeItem(prefixOf(store) + key);
+        else localStorage.setItem(prefixOf(store) + key, JSON.stringify(value));
+      });
+    },
+  };
+};
+
+const DB_NAME = 'chemistry_master';
+const DB_VERSION = 1;
+
+// 等待 IndexedDB 請求完成
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * IndexedDB 後端：每個儲存區一個 object store，一批更改在同一個交易內寫入。
+ * 瀏覽器不支援、拒絕開啟資料庫，或被另一分頁的舊版本擋住時拒絕。
+ */
+export const createIndexedDBBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    STORE_NAMES.filter(s => !db.objectStoreNames.contains(s)).forEach(s => db.createObjectStore(s));
+  };
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    request.onsuccess = () => {
+      const opened = request.result;
+      // 另一分頁升級資料庫版本時讓路，下次開啟時使用新版本；已放棄的連線也一樣
+      opened.onversionchange = () => opened.close();
+      resolve(opened);
+    };
+    request.onerror = () => reject(request.error);
+    // 擋住時開啟會一直等待，先改用其他後端
+    request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another tab'));
+  });
+
+  return {
+    kind: 'indexedDB',
+    readAll: async (store) => {
+      const objectStore = db.transaction(store, 'readonly').objectStore(store);
+      const [keys, values] = await Promise.all([requestResult(objectStore.getAllKeys()), requestResult(objectStore.getAll())]);
+      return keys.map((key, i) => [String(key), values[i]]);
+    },
+    write: (changes) => new Promise((resolve, reject) => {
+      if (changes.length === 0) return resolve();
+      const tx = db.transaction([...new Set(changes.map(c => c.store))], 'readwrite');
+      changes.forEach(({ store, key, value }) => {
+        if (value === null) tx.objectStore(store).delete(key);
+        else tx.objectStore(store).put(value, key);
+      });
+      tx.oncomplete = () => resolve();
+      // 空間不足時交易會被中止，錯誤名稱為 QuotaExceededError
+      tx.onabort = () => reject(tx.error);
+    }),
+  };
+};
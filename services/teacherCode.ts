@@ -0,0 +1,20 @@
+// 建置時只把教師密碼的 SHA-256 雜湊放入程式，原文不會出現在打包檔中（見 vite.config.ts）
+const TEACHER_CODE_SALT = 'chemistry-master:';
+
+/**
+ * 有設定 TEACHER_CODE 時才提供教師登入。
+ */
+export const isTeacherLoginEnabled = (): boolean => !!process.env.TEACHER_CODE_HASH;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * 比較輸入密碼的雜湊。瀏覽器只在 HTTPS 或 localhost 提供 crypto.subtle，否則一律拒絕。
+ * 這只是用戶端檢查：雜湊可被離線猜測，密碼應夠長且不與其他系統共用。
+ */
+export const checkTeacherCode = async (code: string): Promise<boolean> => {
+  const expected = process.env.TEACHER_CODE_HASH;
+  if (!expected || typeof crypto === 'undefined' || !crypto.subtle) return false;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(TEACHER_CODE_SALT + code));
+  return toHex(digest) === expected;
+};
@@ -4,6 +4,8 @@ export enum Screen {
   LEVEL_1 = 'LEVEL_1', // Ion Mastery (Memory Game)
   LEVEL_2 = 'LEVEL_2', // Equation Balancing
   LEVEL_3 = 'LEVEL_3', // Equation Builder (Writing Equations)
+  TEACHER_AUTHORING = 'TEACHER_AUTHORING', // 教師編寫題目
+  TEACHER_REVIEW = 'TEACHER_REVIEW', // 教師覆核手寫測驗成績
 }
 
 export type Language = 'ZH' | 'EN';
@@ -20,10 +22,59 @@ export interface Stage5Answer {
   expected: string;
   userAnswer: string;
   isCorrect: boolean;
+  isSpellingSlip?: boolean; // 名稱只有拼寫錯誤
+}
+
+export type UserRole = 'STUDENT' | 'TEACHER';
+
+// 「最近見過」紀錄按題目類別分開保存
+export type HistoryPool = 'EQUATIONS' | 'BUILDER' | 'IONS' | 'COMPOUNDS' | 'ELEMENTS';
+
+// 手寫板的一點；座標為方格寬、高的比例 (0-1)，與螢幕大小無關
+export interface HandwritingPoint {
+  x: number;
+  y: number;
+  pressure: number; // 0-1，滑鼠按下時為 0.5
+}
+
+export type HandwritingStroke = HandwritingPoint[];
+
+// 手寫測驗的作答：手寫板保存每題的筆畫，紙本保存壓縮後的相片
+export type HandwrittenSubmission =
+  | { kind: 'PAD'; strokes: HandwritingStroke[][] }
+  | { kind: 'PHOTO'; image: string };
+
+export interface HandwrittenVerdict {
+  question: string;
+  expected: string;
+  userAnswer: string;  // AI 讀出的寫法
+  isCorrect: boolean;  // 現時判定：本地按答案表評分，老師覆核後可能更改
+  aiCorrect?: boolean; // AI 自己的判定，可能與答案表不一致
+  feedback?: string;
+}
+
+// 老師更改判定的紀錄，學生可看到由誰更改及原因
+export interface GradeChange {
+  index: number;     // 題號，由 0 起
+  isCorrect: boolean; // 更改後的判定
+  reason: string;
+  by: string;
+  timestamp: number;
+}
+
+export interface HandwrittenTestResult {
+  score: number;
+  timestamp: number;
+  details?: HandwrittenVerdict[];     // 舊版的階段 9 紀錄沒有
+  submission?: HandwrittenSubmission; // 舊紀錄沒有
+  reviewedBy?: string;               // 老師已覆核
+  reviewedAt?: number;
+  changes?: GradeChange[];
 }
 
 export interface UserProfile {
   name: string;
+  role?: UserRole; // 未設定視為學生
   progress: {
     level1MaxStage: number; // 1 to 12
   };
@@ -34,21 +85,11 @@ export interface UserProfile {
     timestamp: number;
     details: Stage5Answer[];
   };
-  stage9Result?: {
-    score: number;
-    timestamp: number;
-  };
-  stage12Result?: {
-    score: number;
-    timestamp: number;
-    details: {
-      question: string;
-      expected: string;
-      userAnswer: string;
-      isCorrect: boolean;
-    }[];
-  };
+  stage9Result?: HandwrittenTestResult;
+  stage12Result?: HandwrittenTestResult;
   challengeAttempts?: number; 
+  recentlySeen?: Partial<Record<HistoryPool, string[]>>; // 各類題目的鍵，由舊至新排列
+  explanationUsage?: { date: string; count: number };  // 當日已使用的 AI 錯誤解釋次數
   challengeRecord?: {
     bestScore: number;
     bestTime: number; 
@@ -56,6 +97,33 @@ export interface UserProfile {
   };
 }
 
+export interface ElementData {
+  atomic: number;
+  symbol: string;
+  zh: string;
+  en: string;
+  mass: number;          // 相對原子質量
+  group: number | null;  // 1-18，鑭系及錒系為 null
+  period: number;
+  block: 's' | 'p' | 'd' | 'f';
+  category: 'METAL' | 'NON_METAL' | 'METALLOID' | 'NOBLE_GAS';
+  charges: number[];     // 常見離子電荷
+  col: number;           // 週期表網格位置
+  row: number;
+}
+
+export interface IonData {
+  formula: string;       // 如 "SO4^2-"
+  charge: number;
+  type: 'Cation' | 'Anion';
+  polyatomic: boolean;
+  zh: string;            // 離子名稱，如「硫酸根離子」
+  en: string;
+  stemZH: string;        // 化合物名稱中的部分，如「硫酸」、「鐵(III)」
+  stemEN: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+}
+
 export interface Ion {
   id?: string;
   formula: string;
@@ -74,23 +142,79 @@ export interface GameCard {
   isMatched: boolean;
 }
 
+export type StateSymbol = 's' | 'l' | 'g' | 'aq';
+
+export interface ReactionCondition {
+  type: 'HEAT' | 'CATALYST' | 'LIGHT' | 'UV_LIGHT' | 'TEXT';
+  detail?: string; // 催化劑化學式或其他條件文字，如 "Fe"、"450°C"
+}
+
 export interface EquationComponent {
   formula: string;
   nameZH?: string;
   nameEN?: string;
   coefficient: number;
+  state?: StateSymbol;
 }
 
 export interface ChemicalEquation {
+  id?: string;                      // 題庫中的固定編號，如 "T3-007"
   reactants: EquationComponent[];
   products: EquationComponent[];
   difficulty: 'easy' | 'medium' | 'hard';
+  conditions?: ReactionCondition[]; // 顯示在箭號上方
+  template?: ReactionTemplate;      // 由反應模板生成時所用的模板
 }
 
+// 練習的難度選擇；mixed 按難度曲線由易至難排列
+export type SessionDifficulty = ChemicalEquation['difficulty'] | 'mixed';
+
+// 程序生成方程式所用的反應模板
+export type ReactionTemplate =
+  | 'METAL_ACID'             // 金屬 + 酸
+  | 'ACID_CARBONATE'         // 酸 + 碳酸鹽／碳酸氫鹽
+  | 'NEUTRALISATION'         // 酸 + 鹼／金屬氧化物
+  | 'ALKANE_COMBUSTION'      // 烷烴完全燃燒
+  | 'HALOGEN_DISPLACEMENT'   // 鹵素置換
+  | 'THERMAL_DECOMPOSITION'; // 熱分解
+
 export interface EquationChallenge {
-  description: string;
+  id?: string;           // 內建題目如 "B3-001"，自訂題目如 "C-001"
+  descriptionZH: string; // 同一題的中英文描述，切換語言時不用換題
+  descriptionEN: string;
   reactants: EquationComponent[];
   products: EquationComponent[];
+  conditions?: ReactionCondition[];
+}
+
+// 題庫內容檔中的一條方程式，以一行文字撰寫
+export interface EquationEntry {
+  id: string;
+  equation: string; // 如 "2H2(g) + O2(g) -> 2H2O(l)"
+  difficulty: 'easy' | 'medium' | 'hard';
+  conditions?: ReactionCondition[];
+}
+
+// 教師自訂的題目：方程式平衡及方程式建構都會抽到
+export interface CustomQuestion extends EquationEntry {
+  topic: EquationTopic;
+  descriptionZH: string;                   // 兩者皆空時只用於方程式平衡
+  descriptionEN: string;
+  names: Record<string, [string, string]>; // 化學式 → [中文名, 英文名]
+  author: string;
+  createdAt: number;
+}
+
+// 教師加入的離子化合物：以離子庫中的陽離子及陰離子化學式表示
+export interface CustomCompound {
+  cation: string; // 如 "Cu^2+"
+  anion: string;  // 如 "CO3^2-"
+}
+
+// 離子方程式題：給出分子方程式，答案為淨離子方程式
+export interface IonicChallenge extends EquationChallenge {
+  molecular: ChemicalEquation;
+  spectators: string[];
 }
 
 export type QuestionType = 'NAME_TO_FORMULA' | 'FORMULA_TO_NAME';
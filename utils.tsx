@@ -1,21 +1,56 @@
 
 import React from "react";
+import { getElement } from "./data/periodicTable";
+import { Language, ReactionCondition } from "./types";
+
+/**
+ * 結晶水及加合物的分隔符，例如 "CuSO4.5H2O"、"CuSO4·5H2O"、"CuSO4•5H2O"。
+ */
+export const HYDRATE_SEPARATOR = /[.·•∙]/;
 
 /**
  * 將化學式字符串轉換為包含下標與上標的 JSX。
- * 支持 "H2O", "SO4^2-", "Fe^3+", "e^-", "[Cu(NH3)4]^2+" 等格式。
+ * 支持 "H2O", "SO4^2-", "Fe^3+", "e^-", "[Cu(NH3)4]^2+", "CuSO4·5H2O", "Cu^2+(aq)" 等格式。
+ * 可選的 annotations 以元素符號為鍵，其內容會顯示於該元素上方（如氧化數）。
  */
-export const formatFormula = (formula: string): React.ReactNode => {
+export const formatFormula = (formula: string, annotations?: Record<string, string>): React.ReactNode => {
   // 移除對 e^- 的特殊處理，使其進入統一的格式化流程，確保樣式一致
-  const parts = formula.split('^');
+  // 末尾的物態符號以正常大小顯示，不當作下標或電荷
+  const stateMatch = formula.match(/\((s|l|g|aq)\)$/);
+  const state = stateMatch ? stateMatch[0] : null;
+  const parts = (state ? formula.slice(0, -state.length) : formula).split('^');
   const base = parts[0];
   const charge = parts.length > 1 ? parts[1] : null;
 
-  const formattedBase = base.split(/(\d+)/).map((part, index) => {
+  const formatSegment = (segment: string, segIndex: number) => segment.split(/(\d+)/).map((part, index) => {
     if (/^\d+$/.test(part)) {
-      return <sub key={`sub-${index}`} className="text-[70%] leading-none">{part}</sub>;
+      return <sub key={`sub-${segIndex}-${index}`} className="text-[70%] leading-none">{part}</sub>;
     }
-    return <span key={`base-${index}`}>{part}</span>;
+    if (!annotations) return <span key={`base-${segIndex}-${index}`}>{part}</span>;
+    // 在每個元素符號上方標示註解（例如氧化數）
+    return (
+      <span key={`base-${segIndex}-${index}`}>
+        {part.split(/([A-Z][a-z]?)/).map((token, t) => annotations[token] !== undefined ? (
+          <span key={t} className="relative">
+            {token}
+            <span className="absolute -top-[1.1em] left-1/2 -translate-x-1/2 text-[45%] text-indigo-500 font-bold whitespace-nowrap">{annotations[token]}</span>
+          </span>
+        ) : token)}
+      </span>
+    );
+  });
+
+  // 結晶水部分以置中圓點分隔，段首係數以正常大小顯示
+  const formattedBase = base.split(HYDRATE_SEPARATOR).map((segment, segIndex) => {
+    if (segIndex === 0) return formatSegment(segment, segIndex);
+    const [, coefficient, rest] = segment.match(/^(\d*)(.*)$/)!;
+    return (
+      <React.Fragment key={`seg-${segIndex}`}>
+        <span className="mx-0.5">·</span>
+        {coefficient && <span>{coefficient}</span>}
+        {formatSegment(rest, segIndex)}
+      </React.Fragment>
+    );
   });
 
   return (
@@ -24,26 +59,52 @@ export const formatFormula = (formula: string): React.ReactNode => {
         {formattedBase}
       </span>
       {charge && <sup className="text-[70%] ml-0.5 leading-none">{charge}</sup>}
+      {state && <span className="text-[60%] ml-0.5 leading-none font-sans font-normal">{state}</span>}
     </span>
   );
 };
 
+const CONDITION_LABELS: Record<ReactionCondition['type'], { ZH: string; EN: string }> = {
+  HEAT: { ZH: '加熱', EN: 'heat' },
+  CATALYST: { ZH: '催化劑', EN: 'catalyst' },
+  LIGHT: { ZH: '光', EN: 'light' },
+  UV_LIGHT: { ZH: '紫外光', EN: 'UV light' },
+  TEXT: { ZH: '', EN: '' },
+};
+
 /**
- * 解析化學式中的原子計數。
- * 支持括號 (e.g. Ca(OH)2) 與方括號 (e.g. [Zn(OH)4]^2-) 並忽略電荷。
+ * 將反應條件轉為文字，例如 [HEAT, CATALYST Fe] → "heat, Fe catalyst"。
  */
-export const parseFormula = (formula: string): Record<string, number> => {
-  if (formula.includes('e^-')) return { 'e': 1 };
+export const formatConditions = (conditions: ReactionCondition[] = [], language: Language): string =>
+  conditions.map(c => {
+    const label = CONDITION_LABELS[c.type][language];
+    if (!c.detail) return label;
+    return c.type === 'TEXT' ? c.detail : `${c.detail} ${label}`;
+  }).join(language === 'ZH' ? '、' : ', ');
 
-  let clean = formula.split('^')[0];
-  clean = clean.replace(/\./g, ''); // 移除結晶水點
+/**
+ * 繪製方程式箭號，反應條件寫在箭號上方。
+ */
+export const formatArrow = (conditions: ReactionCondition[] | undefined, language: Language, reversible: boolean = false): React.ReactNode => {
+  const text = formatConditions(conditions, language);
+  return (
+    <span className="inline-flex flex-col items-center leading-none">
+      {text && <span className="text-[40%] font-sans font-bold text-slate-500 whitespace-nowrap mb-0.5">{text}</span>}
+      <span>{reversible ? '⇌' : '→'}</span>
+    </span>
+  );
+};
 
+/**
+ * 解析單一段化學式（不含結晶水分隔符）的原子計數。
+ */
+const parseSegment = (segment: string): Record<string, number> => {
   const stack: Record<string, number>[] = [{}];
   // 匹配元素、左括號、右括號及其倍數、左方括號、右方括號及其倍數
   const tokenRegex = /([A-Z][a-z]*|e)(\d*)|(\()|(\))(\d*)|(\[)|(\])(\d*)/g;
   
   let match;
-  while ((match = tokenRegex.exec(clean)) !== null) {
+  while ((match = tokenRegex.exec(segment)) !== null) {
     if (match[1]) { // 元素
       const element = match[1];
       const count = parseInt(match[2] || '1', 10);
@@ -65,3 +126,70 @@ export const parseFormula = (formula: string): Record<string, number> => {
   
   return stack[0];
 };
+
+/**
+ * 解析化學式中的原子計數。
+ * 支持括號 (e.g. Ca(OH)2) 與方括號 (e.g. [Zn(OH)4]^2-) 並忽略電荷。
+ * 結晶水 (e.g. CuSO4·5H2O) 的段首係數會乘以整段。
+ */
+export const parseFormula = (formula: string): Record<string, number> => {
+  if (formula.includes('e^-')) return { 'e': 1 };
+
+  const clean = formula.split('^')[0];
+  const total: Record<string, number> = {};
+
+  clean.split(HYDRATE_SEPARATOR).forEach((segment, index) => {
+    const [, lead, rest] = segment.match(/^(\d*)(.*)$/)!;
+    const multiplier = index > 0 && lead ? parseInt(lead, 10) : 1;
+    const atoms = parseSegment(index > 0 ? rest : segment);
+    for (const [el, cnt] of Object.entries(atoms)) {
+      total[el] = (total[el] || 0) + cnt * multiplier;
+    }
+  });
+  
+  return total;
+};
+
+/**
+ * 讀取化學式的電荷。
+ * 支持 "Fe^3+", "SO4^2-", "e^-" 等格式，沒有電荷部分則視為中性。
+ */
+export const getCharge = (formula: string): number => {
+  if (formula.includes('e^-')) return -1;
+  const parts = formula.split('^');
+  if (parts.length < 2) return 0;
+  const chargePart = parts[1];
+  const match = chargePart.match(/(\d*)([\+\-])/);
+  if (!match) return 0;
+  const num = match[1] ? parseInt(match[1], 10) : 1;
+  const sign = match[2] === '+' ? 1 : -1;
+  return num * sign;
+};
+
+/**
+ * 計算化學式的摩爾質量 (g mol⁻¹)。
+ * 接受 parseFormula 支持的所有格式，包括結晶水；遇到未知元素時拋出錯誤。
+ */
+export const getMolarMass = (formula: string): number => {
+  const atoms = parseFormula(formula);
+  return Object.entries(atoms).reduce((sum, [symbol, count]) => {
+    if (symbol === 'e') return sum;
+    const el = getElement(symbol);
+    if (!el) throw new Error(`Unknown element: ${symbol}`);
+    return sum + el.mass * count;
+  }, 0);
+};
+
+/**
+ * 計算化學式中各元素的質量百分比 (0-100)。
+ */
+export const getPercentageByMass = (formula: string): Record<string, number> => {
+  const total = getMolarMass(formula);
+  const result: Record<string, number> = {};
+  if (total === 0) return result;
+  for (const [symbol, count] of Object.entries(parseFormula(formula))) {
+    if (symbol === 'e') continue;
+    result[symbol] = (getElement(symbol)!.mass * count / total) * 100;
+  }
+  return result;
+};
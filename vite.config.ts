@@ -1,9 +1,12 @@
 import path from 'path';
+import { createHash } from 'crypto';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // 只把教師密碼的雜湊放入程式（與 services/teacherCode.ts 的前綴相同）
+    const teacherCodeHash = env.TEACHER_CODE ? createHash('sha256').update(`chemistry-master:${env.TEACHER_CODE}`).digest('hex') : '';
     return {
       server: {
         port: 3000,
@@ -12,7 +15,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TEACHER_CODE_HASH': JSON.stringify(teacherCodeHash),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL || ''),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY || ''),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL || ''),
+        'process.env.AI_VISION_MODEL': JSON.stringify(env.AI_VISION_MODEL || '')
       },
       resolve: {
         alias: {